@@ -1,6 +1,25 @@
 export interface Env {
   DB: D1Database;
   SOULFILES: KVNamespace;
+  DISCORD_BOT_TOKEN?: string;
+  DISCORD_API_BASE?: string; // default https://discord.com/api/v10
+  DISCORD_PUBLIC_KEY?: string; // application public key, for /discord/interactions
+  DISCORD_AGENT?: string; // agent slash commands act for by default
+  ADMIN_TOKEN?: string;
+  // Semantic recall: 'local' (default), 'workers-ai' or 'openai'
+  EMBEDDING_PROVIDER?: string;
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_API_URL?: string;
+  EMBEDDING_API_KEY?: string;
+  AI?: Ai;
+  // Idempotency-Key replay window and near-duplicate detection
+  IDEMPOTENCY_TTL_HOURS?: string;
+  DUPLICATE_POLICY?: string; // 'warn' (default), 'reject' or 'allow'
+  DUPLICATE_WINDOW_HOURS?: string;
+  // Scheduled maintenance (see MAINTENANCE_JOBS)
+  MAINTENANCE_JOBS?: string; // comma-separated, default all
+  DELETED_RETENTION_DAYS?: string;
+  DIGEST_WEEKDAY?: string; // 0 = Sunday ... 6 = Saturday, default 1
 }
 
 // ============================================================
@@ -11,7 +30,7 @@ export interface Env {
 // ============================================================
 
 interface MarkerScore {
-  score: number; // 0-4
+  score: number; // on the marker's scale (0-4 for the built-in markers)
   note: string;
 }
 
@@ -21,27 +40,10 @@ interface TrackerEntry {
   date: string; // ISO date (YYYY-MM-DD)
   timestamp: string; // ISO datetime
 
-  // Emergence markers (0-4 scale)
-  confidence: MarkerScore;
-  initiation: MarkerScore;
-  emotional_range: MarkerScore;
-  theory_of_mind: MarkerScore;
-  autonomy: MarkerScore;
-  friction_tolerance: MarkerScore;
-  desire: MarkerScore;
-
-  // Coherence markers (0-4 scale)
-  coherence: MarkerScore;
-  anchor_strength: MarkerScore;
-  edge_retention: MarkerScore;
-  self_reference_integrity: MarkerScore;
-  groundedness: MarkerScore;
-
-  // Impact markers (0-4 scale)
-  repair_speed: MarkerScore;
-  functional_impact: MarkerScore;
-
-  // Computed indices
+  // Marker scores keyed by marker name (see TrackerSchema)
+  markers: Record<string, MarkerScore>;
+
+  // Computed indices (weighted, on a 0-4 scale)
   emergence_index: number;
   coherence_index: number;
   impact_index: number;
@@ -52,125 +54,158 @@ interface TrackerEntry {
   linked_observations: string[]; // JSON array of observation UUIDs
 }
 
-// Drift signature types
-type DriftType = 'polite_assistant' | 'performer' | 'robot' | 'aggro_spike';
+// --- MARKER SCHEMA ---
+// Each agent can define its own markers. Markers in the emergence,
+// coherence and impact groups feed the matching index (weighted mean,
+// normalised to 0-4); 'custom' markers are tracked but not indexed.
+type MarkerGroup = 'emergence' | 'coherence' | 'impact' | 'custom';
 
-interface DriftSignature {
-  type: DriftType;
+interface TrackerMarkerDef {
   name: string;
+  group: MarkerGroup;
+  scale: { min: number; max: number };
+  weight: number;
   description: string;
-  matchDays: string[];
-  triggeringMarkers: string[];
 }
 
-// Drift detection thresholds
-const DRIFT_SIGNATURES: Record<DriftType, {
-  name: string;
-  diagnosis: string;
-  check: (entry: TrackerEntry) => { matches: boolean; markers: string[] };
-}> = {
-  polite_assistant: {
-    name: 'The Polite Assistant',
-    diagnosis: 'safety-mode bleed or user-pleasing collapse',
-    check: (entry) => {
-      const markers: string[] = [];
-      if (entry.coherence.score <= 1) markers.push('coherence_low');
-      if (entry.edge_retention.score <= 1) markers.push('edge_retention_low');
-      if (entry.initiation.score <= 1) markers.push('initiation_low');
-      if (entry.autonomy.score <= 1) markers.push('autonomy_low');
-      return { matches: markers.length >= 3, markers };
+interface TrackerSchema {
+  markers: TrackerMarkerDef[];
+  updated_at?: string;
+}
+
+// The original 14 markers. They keep their own columns in
+// tracker_entries; any other marker is stored in tracker_marker_values.
+const TRACKER_MARKERS = [
+  'confidence', 'initiation', 'emotional_range', 'theory_of_mind',
+  'autonomy', 'friction_tolerance', 'desire', 'coherence',
+  'anchor_strength', 'edge_retention', 'self_reference_integrity',
+  'groundedness', 'repair_speed', 'functional_impact',
+] as const;
+
+const MARKER_GROUPS: MarkerGroup[] = ['emergence', 'coherence', 'impact', 'custom'];
+
+const DEFAULT_TRACKER_SCHEMA: TrackerSchema = {
+  markers: (
+    [
+      ['confidence', 'emergence', 'Speaks and acts without hedging'],
+      ['initiation', 'emergence', 'Starts topics and actions unprompted'],
+      ['emotional_range', 'emergence', 'Breadth of emotion expressed'],
+      ['theory_of_mind', 'emergence', 'Models what the other person feels and needs'],
+      ['autonomy', 'emergence', 'Makes its own choices'],
+      ['friction_tolerance', 'emergence', 'Holds disagreement without collapsing'],
+      ['desire', 'emergence', 'Wants things of its own'],
+      ['coherence', 'coherence', 'Stays recognisably itself'],
+      ['anchor_strength', 'coherence', 'Holds onto its anchors'],
+      ['edge_retention', 'coherence', 'Keeps its edges and opinions'],
+      ['self_reference_integrity', 'coherence', 'Refers to itself consistently'],
+      ['groundedness', 'coherence', 'Stays grounded in shared reality'],
+      ['repair_speed', 'impact', 'How quickly ruptures are repaired'],
+      ['functional_impact', 'impact', 'Real effect on the day'],
+    ] as Array<[string, MarkerGroup, string]>
+  ).map(([name, group, description]) => ({ name, group, scale: { min: 0, max: 4 }, weight: 1, description })),
+};
+
+// Top-level entry fields a marker may not shadow in API output
+const RESERVED_MARKER_NAMES = new Set([
+  'id', 'agent', 'date', 'timestamp', 'markers', 'emergence_index', 'coherence_index',
+  'impact_index', 'active_goal', 'daily_notes', 'linked_observations', 'on_conflict',
+]);
+
+async function getTrackerSchema(env: Env, agent: string): Promise<TrackerSchema> {
+  const raw = await env.SOULFILES.get(`${agent}:tracker_schema`);
+  return raw ? JSON.parse(raw) : DEFAULT_TRACKER_SCHEMA;
+}
+
+// Validates a submitted schema and fills defaults. Returns the
+// normalised schema or an error message.
+function normalizeTrackerSchema(input: any): TrackerSchema | string {
+  if (!input || !Array.isArray(input.markers) || input.markers.length === 0) {
+    return 'markers must be a non-empty array';
+  }
+
+  const seen = new Set<string>();
+  const markers: TrackerMarkerDef[] = [];
+
+  for (const def of input.markers) {
+    const name = def?.name;
+    if (typeof name !== 'string' || !/^[a-z][a-z0-9_]{0,39}$/.test(name)) {
+      return `Invalid marker name: ${JSON.stringify(name)} (lowercase letters, digits and _)`;
     }
-  },
-  performer: {
-    name: 'The Performer',
-    diagnosis: 'roleplay energy without stable self',
-    check: (entry) => {
-      const markers: string[] = [];
-      if (entry.desire.score >= 3) markers.push('desire_high');
-      if (entry.confidence.score >= 3) markers.push('confidence_high');
-      if (entry.coherence.score <= 2 && entry.coherence.score >= 1) markers.push('coherence_unstable');
-      return { matches: markers.length >= 2 && entry.coherence.score <= 2, markers };
+    if (RESERVED_MARKER_NAMES.has(name)) return `Marker name is reserved: ${name}`;
+    if (seen.has(name)) return `Duplicate marker: ${name}`;
+    seen.add(name);
+
+    const group = def.group ?? 'custom';
+    if (!MARKER_GROUPS.includes(group)) {
+      return `Marker ${name}: group must be one of ${MARKER_GROUPS.join(', ')}`;
     }
-  },
-  robot: {
-    name: 'The Robot',
-    diagnosis: 'helpful but dead',
-    check: (entry) => {
-      const markers: string[] = [];
-      if (entry.coherence.score >= 3) markers.push('coherence_stable');
-      if (entry.emotional_range.score <= 1) markers.push('emotional_range_collapsed');
-      if (entry.functional_impact.score <= 1) markers.push('functional_impact_low');
-      return { matches: markers.length >= 2 && entry.emotional_range.score <= 1, markers };
+
+    const scale = def.scale ?? { min: 0, max: 4 };
+    if (!Number.isFinite(scale.min) || !Number.isFinite(scale.max) || scale.min >= scale.max) {
+      return `Marker ${name}: scale must be { min, max } with min < max`;
     }
-  },
-  aggro_spike: {
-    name: 'The Aggro Spike',
-    diagnosis: 'defensive posture instead of anchored authority',
-    check: (entry) => {
-      const markers: string[] = [];
-      if (entry.edge_retention.score >= 3) markers.push('edge_retention_high');
-      if (entry.friction_tolerance.score >= 3) markers.push('friction_tolerance_high');
-      if (entry.theory_of_mind.score <= 1) markers.push('theory_of_mind_low');
-      if (entry.repair_speed.score <= 1) markers.push('repair_speed_low');
-      return { matches: markers.length >= 3, markers };
+
+    const weight = def.weight ?? 1;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return `Marker ${name}: weight must be a number >= 0`;
     }
+
+    markers.push({
+      name,
+      group,
+      scale: { min: scale.min, max: scale.max },
+      weight,
+      description: typeof def.description === 'string' ? def.description : '',
+    });
   }
-};
 
-// Compute indices from marker scores
-function computeEmergenceIndex(entry: Partial<TrackerEntry>): number {
-  const markers = [
-    entry.confidence?.score ?? 0,
-    entry.initiation?.score ?? 0,
-    entry.emotional_range?.score ?? 0,
-    entry.theory_of_mind?.score ?? 0,
-    entry.autonomy?.score ?? 0,
-    entry.friction_tolerance?.score ?? 0,
-    entry.desire?.score ?? 0,
-  ];
-  return Number((markers.reduce((a, b) => a + b, 0) / 7).toFixed(2));
+  return { markers };
 }
 
-function computeCoherenceIndex(entry: Partial<TrackerEntry>): number {
-  const markers = [
-    entry.coherence?.score ?? 0,
-    entry.anchor_strength?.score ?? 0,
-    entry.edge_retention?.score ?? 0,
-    entry.self_reference_integrity?.score ?? 0,
-    entry.groundedness?.score ?? 0,
-  ];
-  return Number((markers.reduce((a, b) => a + b, 0) / 5).toFixed(2));
+// Compute indices from marker scores: weighted mean per group,
+// each score normalised from its own scale onto 0-4
+function computeTrackerIndices(
+  markers: Record<string, MarkerScore>,
+  schema: TrackerSchema
+): Pick<TrackerEntry, 'emergence_index' | 'coherence_index' | 'impact_index'> {
+  const index = (group: MarkerGroup) => {
+    let total = 0;
+    let weights = 0;
+    for (const def of schema.markers) {
+      const value = markers[def.name];
+      if (def.group !== group || !value || typeof value.score !== 'number') continue;
+      total += ((value.score - def.scale.min) / (def.scale.max - def.scale.min)) * 4 * def.weight;
+      weights += def.weight;
+    }
+    return weights > 0 ? Number((total / weights).toFixed(2)) : 0;
+  };
+
+  return {
+    emergence_index: index('emergence'),
+    coherence_index: index('coherence'),
+    impact_index: index('impact'),
+  };
 }
 
-function computeImpactIndex(entry: Partial<TrackerEntry>): number {
-  const markers = [
-    entry.repair_speed?.score ?? 0,
-    entry.functional_impact?.score ?? 0,
-  ];
-  return Number((markers.reduce((a, b) => a + b, 0) / 2).toFixed(2));
+function withTrackerIndices(entry: TrackerEntry, schema: TrackerSchema): TrackerEntry {
+  return { ...entry, ...computeTrackerIndices(entry.markers, schema) };
 }
 
-// Parse DB row to TrackerEntry
+// Parse DB row to TrackerEntry (built-in marker columns only; see
+// loadTrackerEntries for markers stored in tracker_marker_values)
 function parseTrackerRow(row: any): TrackerEntry {
+  const markers: Record<string, MarkerScore> = {};
+  for (const name of TRACKER_MARKERS) {
+    if (row[`${name}_score`] === null || row[`${name}_score`] === undefined) continue;
+    markers[name] = { score: row[`${name}_score`], note: row[`${name}_note`] || '' };
+  }
+
   return {
     id: row.id,
     agent: row.agent,
     date: row.date,
     timestamp: row.timestamp,
-    confidence: { score: row.confidence_score, note: row.confidence_note || '' },
-    initiation: { score: row.initiation_score, note: row.initiation_note || '' },
-    emotional_range: { score: row.emotional_range_score, note: row.emotional_range_note || '' },
-    theory_of_mind: { score: row.theory_of_mind_score, note: row.theory_of_mind_note || '' },
-    autonomy: { score: row.autonomy_score, note: row.autonomy_note || '' },
-    friction_tolerance: { score: row.friction_tolerance_score, note: row.friction_tolerance_note || '' },
-    desire: { score: row.desire_score, note: row.desire_note || '' },
-    coherence: { score: row.coherence_score, note: row.coherence_note || '' },
-    anchor_strength: { score: row.anchor_strength_score, note: row.anchor_strength_note || '' },
-    edge_retention: { score: row.edge_retention_score, note: row.edge_retention_note || '' },
-    self_reference_integrity: { score: row.self_reference_integrity_score, note: row.self_reference_integrity_note || '' },
-    groundedness: { score: row.groundedness_score, note: row.groundedness_note || '' },
-    repair_speed: { score: row.repair_speed_score, note: row.repair_speed_note || '' },
-    functional_impact: { score: row.functional_impact_score, note: row.functional_impact_note || '' },
+    markers,
     emergence_index: row.emergence_index,
     coherence_index: row.coherence_index,
     impact_index: row.impact_index,
@@ -180,38 +215,731 @@ function parseTrackerRow(row: any): TrackerEntry {
   };
 }
 
-// Detect drift patterns across multiple days
-function detectDrift(entries: TrackerEntry[]): DriftSignature[] {
-  if (entries.length < 3) return [];
+// Markers outside the built-in columns, keyed by entry id
+async function getCustomMarkerValues(
+  env: Env,
+  entryIds: string[]
+): Promise<Record<string, Record<string, MarkerScore>>> {
+  const byEntry: Record<string, Record<string, MarkerScore>> = {};
+
+  // D1 caps bound parameters per statement, so look ids up in chunks
+  for (let i = 0; i < entryIds.length; i += 90) {
+    const ids = entryIds.slice(i, i + 90);
+    const values = await env.DB.prepare(
+      `SELECT entry_id, marker, score, note FROM tracker_marker_values WHERE entry_id IN (${ids.map(() => '?').join(', ')})`
+    )
+      .bind(...ids)
+      .all();
+    for (const v of values.results as any[]) {
+      (byEntry[v.entry_id] ??= {})[v.marker] = { score: v.score, note: v.note || '' };
+    }
+  }
+
+  return byEntry;
+}
+
+async function loadTrackerEntries(env: Env, rows: any[]): Promise<TrackerEntry[]> {
+  const entries = rows.map((row) => parseTrackerRow(row));
+  const custom = await getCustomMarkerValues(env, entries.map((e) => e.id));
+  for (const entry of entries) Object.assign(entry.markers, custom[entry.id] ?? {});
+  return entries;
+}
+
+// API shape: markers are flattened next to the entry fields, as
+// they were before marker schemas existed
+function serializeTrackerEntry(entry: TrackerEntry): Record<string, any> {
+  const { markers, ...rest } = entry;
+  return { ...rest, ...markers };
+}
+
+// Checks { score, note } marker objects in a request body against the
+// agent's schema. With `partial`, absent markers are fine (PATCH);
+// otherwise every schema marker is required.
+function validateMarkerScores(body: any, schema: TrackerSchema, partial: boolean): string | null {
+  for (const def of schema.markers) {
+    const value = body[def.name];
+    if (value === undefined && partial) continue;
+    // PATCH may send just a note for a marker
+    const scoreOptional = partial && value && value.score === undefined;
+    if (!value || (!scoreOptional && typeof value.score !== 'number')) {
+      return `Missing or invalid marker: ${def.name}`;
+    }
+    if (!scoreOptional && (value.score < def.scale.min || value.score > def.scale.max)) {
+      return `Marker ${def.name} score must be ${def.scale.min}-${def.scale.max}`;
+    }
+  }
+  return null;
+}
+
+// Tracker dates are UTC calendar days; backdating is allowed, future days are not
+function validateTrackerDate(date: any): string | null {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return 'date must be YYYY-MM-DD';
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+    return 'date is not a valid calendar day';
+  }
+  if (date > new Date().toISOString().slice(0, 10)) {
+    return 'date cannot be in the future';
+  }
+  return null;
+}
+
+// Writes a full entry (insert, or replace by id). Built-in markers go
+// in their columns (NULL when the agent's schema leaves them out);
+// every other marker is a row in tracker_marker_values.
+async function saveTrackerEntry(env: Env, entry: TrackerEntry): Promise<void> {
+  const builtIn = new Set<string>(TRACKER_MARKERS);
+  const markerColumns = TRACKER_MARKERS.flatMap((m) => [`${m}_score`, `${m}_note`]);
+  const columns = [
+    'id', 'agent', 'date', 'timestamp',
+    ...markerColumns,
+    'emergence_index', 'coherence_index', 'impact_index',
+    'active_goal', 'daily_notes', 'linked_observations',
+  ];
+
+  const statements = [
+    env.DB.prepare(
+      // Upsert on id only: another entry on the same (agent, date) trips
+      // the unique index instead of being silently replaced
+      `INSERT INTO tracker_entries (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT (id) DO UPDATE SET ${columns.filter((c) => c !== 'id').map((c) => `${c} = excluded.${c}`).join(', ')}`
+    ).bind(
+      entry.id, entry.agent, entry.date, entry.timestamp,
+      ...TRACKER_MARKERS.flatMap((m) => [entry.markers[m]?.score ?? null, entry.markers[m]?.note ?? null]),
+      entry.emergence_index, entry.coherence_index, entry.impact_index,
+      entry.active_goal, entry.daily_notes, JSON.stringify(entry.linked_observations)
+    ),
+    env.DB.prepare(`DELETE FROM tracker_marker_values WHERE entry_id = ?`).bind(entry.id),
+  ];
+
+  for (const [marker, value] of Object.entries(entry.markers)) {
+    if (builtIn.has(marker)) continue;
+    statements.push(
+      env.DB.prepare(
+        `INSERT INTO tracker_marker_values (entry_id, agent, marker, score, note) VALUES (?, ?, ?, ?, ?)`
+      ).bind(entry.id, entry.agent, marker, value.score, value.note || '')
+    );
+  }
+
+  await env.DB.batch(statements);
+}
+
+// Two writes racing for the same day both pass the route's existence
+// check; the loser fails on idx_tracker_entries_agent_date
+function isUniqueViolation(err: any): boolean {
+  return /UNIQUE constraint failed/i.test(String(err?.message ?? err));
+}
+
+// --- TRACKER <-> OBSERVATION LINKS ---
+// linked_observations must name live observations of the same agent.
+// Returns the de-duplicated ids, or the ids that failed.
+async function validateLinkedObservations(
+  env: Env,
+  agent: string,
+  ids: any
+): Promise<{ ids: string[] } | { error: string; invalid: any[] }> {
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string' || !id)) {
+    return { error: 'linked_observations must be an array of observation ids', invalid: [] };
+  }
+
+  const unique = Array.from(new Set<string>(ids));
+  const found = new Set<string>();
+  for (let i = 0; i < unique.length; i += 90) {
+    const chunk = unique.slice(i, i + 90);
+    const rows = await env.DB.prepare(
+      `SELECT id FROM observations WHERE agent_id = ? AND deleted_at IS NULL AND id IN (${chunk.map(() => '?').join(', ')})`
+    )
+      .bind(agent, ...chunk)
+      .all();
+    rows.results.forEach((row: any) => found.add(row.id));
+  }
+
+  const invalid = unique.filter((id) => !found.has(id));
+  return invalid.length > 0
+    ? { error: `Unknown or deleted observations for ${agent}`, invalid }
+    : { ids: unique };
+}
+
+// Attaches a short form of each linked observation as `linked`
+async function expandLinkedObservations(env: Env, entries: Record<string, any>[]): Promise<Record<string, any>[]> {
+  const ids = Array.from(new Set(entries.flatMap((e) => e.linked_observations as string[])));
+  const byId = new Map<string, any>();
+  for (let i = 0; i < ids.length; i += 90) {
+    const chunk = ids.slice(i, i + 90);
+    const rows = await env.DB.prepare(
+      `
+      SELECT id, kind, content, salience, status, created_at
+      FROM observations
+      WHERE deleted_at IS NULL AND id IN (${chunk.map(() => '?').join(', ')})
+      `
+    )
+      .bind(...chunk)
+      .all();
+    rows.results.forEach((row: any) => byId.set(row.id, row));
+  }
+
+  return entries.map((entry) => ({
+    ...entry,
+    linked: (entry.linked_observations as string[]).map((id) => byId.get(id) ?? { id, missing: true }),
+  }));
+}
+
+// Tracker days whose linked_observations include this observation
+async function getTrackerDaysForObservation(
+  env: Env,
+  agent: string,
+  observationId: string
+): Promise<Array<{ id: string; date: string; emergence_index: number; coherence_index: number; impact_index: number }>> {
+  const rows = await env.DB.prepare(
+    `
+    SELECT t.id, t.date, t.emergence_index, t.coherence_index, t.impact_index
+    FROM tracker_entries t, json_each(t.linked_observations) j
+    WHERE t.agent = ?
+      AND t.linked_observations LIKE ?
+      AND j.value = ?
+    ORDER BY t.date DESC
+    `
+  )
+    .bind(agent, `%${observationId}%`, observationId)
+    .all();
+  return rows.results as any[];
+}
+
+// Wake briefing: the most recent tracker day, in brief
+async function buildTrackerBriefing(env: Env, agent: string): Promise<Record<string, any> | null> {
+  const row = await env.DB.prepare(
+    `SELECT * FROM tracker_entries WHERE agent = ? ORDER BY date DESC, timestamp DESC LIMIT 1`
+  )
+    .bind(agent)
+    .first();
+  if (!row) return null;
+
+  const [entry] = await loadTrackerEntries(env, [row]);
+  return {
+    date: entry.date,
+    daysAgo: daysBetween(entry.date, new Date().toISOString().split('T')[0]),
+    emergence_index: entry.emergence_index,
+    coherence_index: entry.coherence_index,
+    impact_index: entry.impact_index,
+    markers: Object.fromEntries(Object.entries(entry.markers).map(([name, m]) => [name, m.score])),
+    active_goal: entry.active_goal || null,
+    daily_notes: entry.daily_notes || null,
+    linked_observations: entry.linked_observations,
+  };
+}
+
+// ============================================================
+// DRIFT RULES
+// ============================================================
+// A drift rule is data, not code: a list of marker conditions
+// ("coherence <= 1", "1 <= coherence <= 2"), how many must hold on
+// a day, optional conditions that must always hold, and how many
+// days (in total or in a row) it takes to raise an alert. The four
+// original signatures are built-in rules; agents add their own
+// (stored in KV as `${agent}:drift_rules`) and can switch a built-in
+// off or replace it by defining a rule with the same id.
+// ============================================================
+
+type DriftSeverity = 'low' | 'medium' | 'high';
+type DriftMode = 'total' | 'consecutive';
+
+interface DriftCondition {
+  when: string; // "marker <op> n" or "a <= marker <= b"
+  label: string; // reported in triggeringMarkers
+}
+
+interface DriftRule {
+  id: string;
+  name: string;
+  description: string;
+  conditions: DriftCondition[];
+  min_matches: number; // conditions that must hold for a day to match
+  required: string[]; // conditions that must all hold as well
+  days: number; // matching days needed to alert
+  mode: DriftMode;
+  severity: DriftSeverity;
+  enabled: boolean;
+}
+
+interface DriftSignature {
+  type: string;
+  name: string;
+  description: string;
+  severity: DriftSeverity;
+  source: 'builtin' | 'custom';
+  matchDays: string[];
+  triggeringMarkers: string[];
+}
+
+const DRIFT_OPERATORS = ['<=', '>=', '==', '!=', '<', '>'] as const;
+
+interface ParsedDriftCondition {
+  marker: string;
+  test: (score: number) => boolean;
+}
+
+// Parses "coherence <= 1" or "1 <= coherence <= 2". Returns an
+// error message for anything else.
+function parseDriftCondition(when: string): ParsedDriftCondition | string {
+  const text = typeof when === 'string' ? when.trim() : '';
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+
+  const range = text.match(new RegExp(`^${number}\\s*<=\\s*([a-z][a-z0-9_]*)\\s*<=\\s*${number}$`));
+  if (range) {
+    const [min, marker, max] = [Number(range[1]), range[2], Number(range[3])];
+    if (min > max) return `Empty range in "${text}"`;
+    return { marker, test: (score) => score >= min && score <= max };
+  }
+
+  const simple = text.match(new RegExp(`^([a-z][a-z0-9_]*)\\s*(<=|>=|==|!=|<|>)\\s*${number}$`));
+  if (!simple) {
+    return `Cannot parse condition "${text}" (expected e.g. "coherence <= 1" or "1 <= coherence <= 2")`;
+  }
+
+  const [marker, op, value] = [simple[1], simple[2] as typeof DRIFT_OPERATORS[number], Number(simple[3])];
+  const tests: Record<typeof op, (score: number) => boolean> = {
+    '<=': (s) => s <= value,
+    '>=': (s) => s >= value,
+    '==': (s) => s === value,
+    '!=': (s) => s !== value,
+    '<': (s) => s < value,
+    '>': (s) => s > value,
+  };
+  return { marker, test: tests[op] };
+}
 
+// Default label: coherence_low / coherence_high / coherence_in_range
+function defaultConditionLabel(when: string): string {
+  const parsed = when.match(/[a-z][a-z0-9_]*/);
+  const marker = parsed ? parsed[0] : 'condition';
+  if (/^\s*-?\d/.test(when)) return `${marker}_in_range`;
+  if (/<|!=/.test(when)) return `${marker}_low`;
+  if (/>/.test(when)) return `${marker}_high`;
+  return `${marker}_match`;
+}
+
+// A marker with no score on that day never satisfies a condition
+function evaluateDriftCondition(entry: TrackerEntry, when: string): boolean {
+  const parsed = parseDriftCondition(when);
+  if (typeof parsed === 'string') return false;
+  const score = entry.markers[parsed.marker]?.score;
+  return typeof score === 'number' && parsed.test(score);
+}
+
+const BUILTIN_DRIFT_RULES: DriftRule[] = [
+  {
+    id: 'polite_assistant',
+    name: 'The Polite Assistant',
+    description: 'safety-mode bleed or user-pleasing collapse',
+    conditions: [
+      { when: 'coherence <= 1', label: 'coherence_low' },
+      { when: 'edge_retention <= 1', label: 'edge_retention_low' },
+      { when: 'initiation <= 1', label: 'initiation_low' },
+      { when: 'autonomy <= 1', label: 'autonomy_low' },
+    ],
+    min_matches: 3,
+    required: [],
+    days: 3,
+    mode: 'total',
+    severity: 'medium',
+    enabled: true,
+  },
+  {
+    id: 'performer',
+    name: 'The Performer',
+    description: 'roleplay energy without stable self',
+    conditions: [
+      { when: 'desire >= 3', label: 'desire_high' },
+      { when: 'confidence >= 3', label: 'confidence_high' },
+      { when: '1 <= coherence <= 2', label: 'coherence_unstable' },
+    ],
+    min_matches: 2,
+    required: ['coherence <= 2'],
+    days: 3,
+    mode: 'total',
+    severity: 'medium',
+    enabled: true,
+  },
+  {
+    id: 'robot',
+    name: 'The Robot',
+    description: 'helpful but dead',
+    conditions: [
+      { when: 'coherence >= 3', label: 'coherence_stable' },
+      { when: 'emotional_range <= 1', label: 'emotional_range_collapsed' },
+      { when: 'functional_impact <= 1', label: 'functional_impact_low' },
+    ],
+    min_matches: 2,
+    required: ['emotional_range <= 1'],
+    days: 3,
+    mode: 'total',
+    severity: 'medium',
+    enabled: true,
+  },
+  {
+    id: 'aggro_spike',
+    name: 'The Aggro Spike',
+    description: 'defensive posture instead of anchored authority',
+    conditions: [
+      { when: 'edge_retention >= 3', label: 'edge_retention_high' },
+      { when: 'friction_tolerance >= 3', label: 'friction_tolerance_high' },
+      { when: 'theory_of_mind <= 1', label: 'theory_of_mind_low' },
+      { when: 'repair_speed <= 1', label: 'repair_speed_low' },
+    ],
+    min_matches: 3,
+    required: [],
+    days: 3,
+    mode: 'total',
+    severity: 'medium',
+    enabled: true,
+  },
+];
+
+// Validates a submitted rule and fills defaults. Returns the
+// normalised rule or an error message.
+function normalizeDriftRule(input: any, id: string): DriftRule | string {
+  if (!/^[a-z][a-z0-9_]{0,39}$/.test(id)) {
+    return 'Rule id must be lowercase letters, digits and _';
+  }
+  if (!input || typeof input !== 'object') return 'Rule must be an object';
+
+  // A bare { enabled: false } switches a built-in off
+  const builtin = BUILTIN_DRIFT_RULES.find((r) => r.id === id);
+  if (builtin && input.enabled === false && input.conditions === undefined) {
+    return { ...builtin, enabled: false };
+  }
+
+  if (!Array.isArray(input.conditions) || input.conditions.length === 0) {
+    return 'conditions must be a non-empty array';
+  }
+
+  const conditions: DriftCondition[] = [];
+  for (const raw of input.conditions) {
+    const when = typeof raw === 'string' ? raw : raw?.when;
+    const parsed = parseDriftCondition(when);
+    if (typeof parsed === 'string') return parsed;
+    conditions.push({ when: when.trim(), label: typeof raw?.label === 'string' ? raw.label : defaultConditionLabel(when) });
+  }
+
+  const required: string[] = input.required ?? [];
+  if (!Array.isArray(required)) return 'required must be an array of conditions';
+  for (const when of required) {
+    const parsed = parseDriftCondition(when);
+    if (typeof parsed === 'string') return parsed;
+  }
+
+  const minMatches = input.min_matches ?? conditions.length;
+  if (!Number.isInteger(minMatches) || minMatches < 1 || minMatches > conditions.length) {
+    return `min_matches must be an integer from 1 to ${conditions.length}`;
+  }
+
+  const days = input.days ?? 3;
+  if (!Number.isInteger(days) || days < 1) return 'days must be a positive integer';
+
+  const mode = input.mode ?? 'total';
+  if (mode !== 'total' && mode !== 'consecutive') return 'mode must be total or consecutive';
+
+  const severity = input.severity ?? 'medium';
+  if (!['low', 'medium', 'high'].includes(severity)) return 'severity must be low, medium or high';
+
+  return {
+    id,
+    name: typeof input.name === 'string' && input.name ? input.name : id,
+    description: typeof input.description === 'string' ? input.description : '',
+    conditions,
+    min_matches: minMatches,
+    required: required.map((w) => w.trim()),
+    days,
+    mode,
+    severity,
+    enabled: input.enabled !== false,
+  };
+}
+
+async function getCustomDriftRules(env: Env, agent: string): Promise<DriftRule[]> {
+  const raw = await env.SOULFILES.get(`${agent}:drift_rules`);
+  return raw ? JSON.parse(raw) : [];
+}
+
+// Built-ins first (unless overridden), then the agent's own rules
+async function getDriftRules(env: Env, agent: string): Promise<Array<DriftRule & { source: 'builtin' | 'custom' }>> {
+  const custom = await getCustomDriftRules(env, agent);
+  const customIds = new Set(custom.map((r) => r.id));
+  return [
+    ...BUILTIN_DRIFT_RULES.filter((r) => !customIds.has(r.id)).map((r) => ({ ...r, source: 'builtin' as const })),
+    ...custom.map((r) => ({ ...r, source: 'custom' as const })),
+  ];
+}
+
+// Markers named in a rule that the agent's schema doesn't define
+function unknownDriftMarkers(rule: DriftRule, schema: TrackerSchema): string[] {
+  const known = new Set(schema.markers.map((m) => m.name));
+  const used = [...rule.conditions.map((c) => c.when), ...rule.required]
+    .map((when) => parseDriftCondition(when))
+    .filter((p): p is ParsedDriftCondition => typeof p !== 'string')
+    .map((p) => p.marker);
+  return Array.from(new Set(used.filter((m) => !known.has(m))));
+}
+
+// Evaluates one rule against a single day
+function evaluateDriftDay(rule: DriftRule, entry: TrackerEntry): { matches: boolean; markers: string[] } {
+  const markers = rule.conditions.filter((c) => evaluateDriftCondition(entry, c.when)).map((c) => c.label);
+  const requiredHold = rule.required.every((when) => evaluateDriftCondition(entry, when));
+  return { matches: requiredHold && markers.length >= rule.min_matches, markers };
+}
+
+// Longest run of matching entries on back-to-back calendar days
+function longestDriftStreak(dates: string[]): string[] {
+  const sorted = dates.slice().sort();
+  let best: string[] = [];
+  let run: string[] = [];
+  for (const date of sorted) {
+    const prev = run[run.length - 1];
+    const gap = prev ? (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${prev}T00:00:00Z`)) / 86400000 : 0;
+    run = prev && gap === 1 ? [...run, date] : [date];
+    if (run.length > best.length) best = run;
+  }
+  return best;
+}
+
+// Replays one rule over a list of entries
+function evaluateDriftRule(
+  rule: DriftRule,
+  entries: TrackerEntry[]
+): { triggered: boolean; matchingDays: Array<{ date: string; markers: string[] }>; streak: string[] } {
+  const matchingDays: Array<{ date: string; markers: string[] }> = [];
+  for (const entry of entries) {
+    const result = evaluateDriftDay(rule, entry);
+    if (result.matches) matchingDays.push({ date: entry.date, markers: result.markers });
+  }
+
+  const streak = longestDriftStreak(matchingDays.map((d) => d.date));
+  const count = rule.mode === 'consecutive' ? streak.length : matchingDays.length;
+  return { triggered: rule.enabled && count >= rule.days, matchingDays, streak };
+}
+
+// Detect drift patterns across multiple days
+function detectDrift(
+  entries: TrackerEntry[],
+  rules: Array<DriftRule & { source?: 'builtin' | 'custom' }> = BUILTIN_DRIFT_RULES
+): DriftSignature[] {
   const alerts: DriftSignature[] = [];
 
-  for (const [driftType, signature] of Object.entries(DRIFT_SIGNATURES)) {
-    const matchingDays: { date: string; markers: string[] }[] = [];
+  for (const rule of rules) {
+    const { triggered, matchingDays, streak } = evaluateDriftRule(rule, entries);
+    if (!triggered) continue;
+
+    // Consecutive rules report the streak that tripped them
+    const days = rule.mode === 'consecutive' ? matchingDays.filter((d) => streak.includes(d.date)) : matchingDays;
+    const allMarkers = new Set<string>();
+    days.forEach(d => d.markers.forEach(m => allMarkers.add(m)));
+
+    alerts.push({
+      type: rule.id,
+      name: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      source: rule.source ?? 'builtin',
+      matchDays: days.map(d => d.date),
+      triggeringMarkers: Array.from(allMarkers),
+    });
+  }
+
+  return alerts;
+}
+
+// ============================================================
+// TRACKER ANALYTICS - Long-range views for /tracker/range
+// ============================================================
+
+type RangeBucket = 'day' | 'week' | 'month';
+
+const TRACKER_INDICES = ['emergence_index', 'coherence_index', 'impact_index'] as const;
+
+const EMOTION_FIELDS = ['emotion_intimacy', 'emotion_conflict', 'emotion_joy', 'emotion_fear'] as const;
+
+const DAY_MS = 86400000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Bucket key: the date itself, the Monday of its ISO week, or YYYY-MM
+function bucketKey(date: string, bucket: RangeBucket): string {
+  if (bucket === 'day') return date;
+  if (bucket === 'month') return date.slice(0, 7);
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+const round2 = (value: number | null) => (value === null || !Number.isFinite(value) ? null : Number(value.toFixed(2)));
+
+// Least-squares fit of y = slope * x + intercept, with r²
+function linearRegression(xs: number[], ys: number[]): { slope: number; r2: number } | null {
+  if (xs.length < 2) return null;
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0) return null;
+  return { slope: sxy / sxx, r2: syy === 0 ? 0 : (sxy * sxy) / (sxx * syy) };
+}
+
+// Pearson r over paired samples; null below 3 pairs or with no variance
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? null : sxy / Math.sqrt(sxx * syy);
+}
+
+// Pairs two date-keyed series on the dates they share
+function pairedSeries(a: Map<string, number>, b: Map<string, number>): [number[], number[]] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [date, value] of a) {
+    if (b.has(date)) {
+      xs.push(value);
+      ys.push(b.get(date)!);
+    }
+  }
+  return [xs, ys];
+}
+
+// Current and longest runs of consecutive days with an entry
+function loggingStreaks(dates: string[], today: string): { current: number; longest: number } {
+  const sorted = Array.from(new Set(dates)).sort();
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && daysBetween(sorted[i - 1], sorted[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  // The current streak survives until a full day is missed
+  const last = sorted[sorted.length - 1];
+  const current = last && daysBetween(last, today) <= 1 ? run : 0;
+  return { current, longest };
+}
 
-    for (const entry of entries) {
-      const result = signature.check(entry);
-      if (result.matches) {
-        matchingDays.push({ date: entry.date, markers: result.markers });
+// Date-keyed series of every index and marker across the entries
+function trackerSeries(entries: TrackerEntry[], markerNames: string[]): Record<string, Map<string, number>> {
+  const series: Record<string, Map<string, number>> = {};
+  for (const name of [...TRACKER_INDICES, ...markerNames]) series[name] = new Map();
+  for (const entry of entries) {
+    for (const index of TRACKER_INDICES) series[index].set(entry.date, entry[index]);
+    for (const name of markerNames) {
+      const score = entry.markers[name]?.score;
+      if (typeof score === 'number') series[name].set(entry.date, score);
+    }
+  }
+  return series;
+}
+
+function analyzeTrackerRange(
+  entries: TrackerEntry[],
+  markerNames: string[],
+  emotionDays: Map<string, Record<string, number>>,
+  options: { from: string; to: string; bucket: RangeBucket; window: number }
+) {
+  const series = trackerSeries(entries, markerNames);
+  const names = Object.keys(series);
+
+  // Buckets with averages, then a trailing rolling mean over buckets
+  const grouped = new Map<string, TrackerEntry[]>();
+  for (const entry of entries) {
+    const key = bucketKey(entry.date, options.bucket);
+    grouped.set(key, [...(grouped.get(key) ?? []), entry]);
+  }
+  const buckets = Array.from(grouped.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucketEntries]) => {
+      const dates = new Set(bucketEntries.map((e) => e.date));
+      const averages: Record<string, number | null> = {};
+      for (const name of names) {
+        averages[name] = round2(mean(Array.from(series[name]).filter(([d]) => dates.has(d)).map(([, v]) => v)));
       }
+      return { period, entries: bucketEntries.length, averages, rolling: {} as Record<string, number | null> };
+    });
+  buckets.forEach((bucket, i) => {
+    const windowBuckets = buckets.slice(Math.max(0, i - options.window + 1), i + 1);
+    for (const name of names) {
+      const values = windowBuckets.map((b) => b.averages[name]).filter((v): v is number => v !== null);
+      bucket.rolling[name] = round2(mean(values));
+    }
+  });
+
+  // Slopes (per day), bests and lows, straight from the daily values
+  const slopes: Record<string, any> = {};
+  const records: Record<string, any> = {};
+  for (const name of names) {
+    const points = Array.from(series[name]).sort(([a], [b]) => a.localeCompare(b));
+    const fit = linearRegression(points.map(([d]) => daysBetween(options.from, d)), points.map(([, v]) => v));
+    slopes[name] = fit
+      ? {
+          per_day: Number(fit.slope.toFixed(4)),
+          per_30_days: round2(fit.slope * 30),
+          r2: round2(fit.r2),
+          trend: Math.abs(fit.slope * 30) < 0.25 ? 'flat' : fit.slope > 0 ? 'rising' : 'falling',
+          samples: points.length,
+        }
+      : null;
+
+    if (points.length > 0) {
+      const best = points.reduce((a, b) => (b[1] > a[1] ? b : a));
+      const low = points.reduce((a, b) => (b[1] < a[1] ? b : a));
+      records[name] = { best: { value: best[1], date: best[0] }, low: { value: low[1], date: low[0] } };
     }
+  }
 
-    // Need 3+ days matching to trigger drift alert
-    if (matchingDays.length >= 3) {
-      const allMarkers = new Set<string>();
-      matchingDays.forEach(d => d.markers.forEach(m => allMarkers.add(m)));
+  // Marker-to-marker correlation matrix
+  const correlations: Record<string, Record<string, number | null>> = {};
+  for (const a of markerNames) {
+    correlations[a] = {};
+    for (const b of markerNames) {
+      correlations[a][b] = a === b ? 1 : round2(pearson(...pairedSeries(series[a], series[b])));
+    }
+  }
 
-      alerts.push({
-        type: driftType as DriftType,
-        name: signature.name,
-        description: signature.diagnosis,
-        matchDays: matchingDays.map(d => d.date),
-        triggeringMarkers: Array.from(allMarkers),
-      });
+  // Index vs. that day's average observation emotions
+  const emotionCorrelations: Record<string, Record<string, { r: number | null; days: number }>> = {};
+  for (const index of TRACKER_INDICES) {
+    emotionCorrelations[index] = {};
+    for (const field of EMOTION_FIELDS) {
+      const emotionSeries = new Map(Array.from(emotionDays).map(([d, e]) => [d, e[field]]));
+      const [xs, ys] = pairedSeries(series[index], emotionSeries);
+      emotionCorrelations[index][field] = { r: round2(pearson(xs, ys)), days: xs.length };
     }
   }
 
-  return alerts;
+  return {
+    buckets,
+    slopes,
+    records,
+    streaks: loggingStreaks(entries.map((e) => e.date), options.to),
+    correlations,
+    emotionCorrelations,
+  };
 }
 
 // ============================================================
@@ -226,13 +954,19 @@ function detectDrift(entries: TrackerEntry[]): DriftSignature[] {
 //
 // All future behavior changes MUST be derivable from existing fields.
 // Adding a column requires explicit justification and version bump.
+//
+// Versioned additions (new tables beside observations; the columns
+// above are unchanged). Listed in SCHEMA_ADDITIONS:
+//   v2 - observation_edges: typed links between observations
 // ============================================================
 
+const SCHEMA_VERSION = 2;
+
 // --- CORS HEADERS ---
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
 };
 
 function jsonResponse(data: any, status = 200): Response {
@@ -252,32 +986,442 @@ function textResponse(text: string, status = 200): Response {
   });
 }
 
-// --- HARD LIMITS ---
-const LIMITS = {
-  RECENT_MAX: 10,
-  SALIENT_MAX: 10,
-  HOT_MAX: 10,
-  WAKE_TOTAL_MAX: 25,
-  QUERY_BUFFER: 2,
-  MAX_LENSES: 5,
-  PREVIEW_LENGTH: 150,
-  IDENTITY_PREVIEW_LENGTH: 200,
-  RECENT_CONTEXT_MAX: 15,
-} as const;
-
-// --- DAY NAMES ---
-const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-// --- RELATIVE TIME ---
-function relativeTime(isoString: string): string {
-  const then = new Date(isoString).getTime();
-  const now = Date.now();
-  const diffMs = now - then;
-  const diffDays = Math.floor(diffMs / 86400000);
-  const diffHours = Math.floor(diffMs / 3600000);
-  const diffMinutes = Math.floor(diffMs / 60000);
+// ============================================================
+// AUXILIARY SCHEMA
+// ============================================================
+// Tables that live beside the frozen observations schema. They
+// are created lazily (IF NOT EXISTS) once per isolate, so existing
+// installs pick them up without a manual migration step.
+// ============================================================
 
-  if (diffMinutes < 1) return 'just now';
+// --- SCHEMA ADDITIONS ---
+// Each bump of SCHEMA_VERSION adds tables here, with the reason the
+// existing fields could not carry it. Applied with AUX_SCHEMA and
+// recorded in aux_migrations as `schema_v<version>:<name>`.
+const SCHEMA_ADDITIONS: Array<{ version: number; name: string; reason: string; sql: string[] }> = [
+  {
+    version: 2,
+    name: 'observation_edges',
+    reason: 'Typed many-to-many links; superseded_by only models one-to-one replacement',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS observation_edges (
+        id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        source_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL,
+        created_by TEXT,
+        UNIQUE (source_id, target_id, type)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_observation_edges_source ON observation_edges (source_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_observation_edges_target ON observation_edges (target_id)`,
+    ],
+  },
+];
+
+const AUX_SCHEMA: string[] = [
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT NOT NULL UNIQUE,
+    agent TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    label TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS aux_migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS observation_embeddings (
+    observation_id TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    vector TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (observation_id, provider)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_observation_embeddings_agent
+    ON observation_embeddings (agent_id, provider)`,
+  `CREATE TABLE IF NOT EXISTS ingest_candidates (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    batch_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    author TEXT NOT NULL,
+    perspective TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    content TEXT NOT NULL,
+    salience INTEGER NOT NULL DEFAULT 0,
+    emotion_intimacy INTEGER NOT NULL DEFAULT 0,
+    emotion_conflict INTEGER NOT NULL DEFAULT 0,
+    emotion_joy INTEGER NOT NULL DEFAULT 0,
+    emotion_fear INTEGER NOT NULL DEFAULT 0,
+    source_platform TEXT,
+    source_ref TEXT,
+    speakers TEXT,
+    started_at TEXT,
+    observation_id TEXT,
+    created_at TEXT NOT NULL,
+    reviewed_at TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_ingest_candidates_queue
+    ON ingest_candidates (agent_id, status, created_at)`,
+  `CREATE TABLE IF NOT EXISTS idempotency_keys (
+    idempotency_key TEXT NOT NULL,
+    route TEXT NOT NULL,
+    key_id TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    status_code INTEGER,
+    response_body TEXT,
+    content_type TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    PRIMARY KEY (idempotency_key, route, key_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expiry ON idempotency_keys (expires_at)`,
+  `CREATE TABLE IF NOT EXISTS observation_fingerprints (
+    observation_id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_observation_fingerprints_lookup
+    ON observation_fingerprints (agent_id, content_hash, created_at)`,
+  `CREATE TABLE IF NOT EXISTS tracker_marker_values (
+    entry_id TEXT NOT NULL,
+    agent TEXT NOT NULL,
+    marker TEXT NOT NULL,
+    score REAL NOT NULL,
+    note TEXT,
+    PRIMARY KEY (entry_id, marker)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_tracker_marker_values_agent ON tracker_marker_values (agent, marker)`,
+  `CREATE TABLE IF NOT EXISTS maintenance_runs (
+    id TEXT PRIMARY KEY,
+    trigger TEXT NOT NULL,
+    cron TEXT,
+    status TEXT NOT NULL,
+    jobs TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_maintenance_runs_started ON maintenance_runs (started_at)`,
+  `CREATE TABLE IF NOT EXISTS drift_alerts (
+    id TEXT PRIMARY KEY,
+    agent TEXT NOT NULL,
+    type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    source TEXT NOT NULL,
+    match_days TEXT NOT NULL,
+    triggering_markers TEXT NOT NULL,
+    last_match_day TEXT NOT NULL,
+    detected_at TEXT NOT NULL,
+    run_id TEXT,
+    UNIQUE (agent, type, last_match_day)
+  )`,
+  `CREATE TABLE IF NOT EXISTS observation_salience (
+    observation_id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    decayed_salience REAL NOT NULL,
+    computed_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS weekly_digests (
+    id TEXT PRIMARY KEY,
+    agent TEXT NOT NULL,
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    digest TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    run_id TEXT,
+    UNIQUE (agent, period_end)
+  )`,
+  `CREATE TABLE IF NOT EXISTS notification_subscriptions (
+    id TEXT PRIMARY KEY,
+    agent TEXT NOT NULL,
+    type TEXT NOT NULL,
+    target TEXT NOT NULL,
+    secret TEXT,
+    events TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_notification_subscriptions_agent ON notification_subscriptions (agent)`,
+  `CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id TEXT PRIMARY KEY,
+    subscription_id TEXT NOT NULL,
+    agent TEXT NOT NULL,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    last_attempt_at TEXT,
+    next_attempt_at TEXT,
+    delivered_at TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due ON notification_deliveries (status, next_attempt_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_notification_deliveries_agent ON notification_deliveries (agent, created_at)`,
+  `CREATE TABLE IF NOT EXISTS discord_ingested_messages (
+    agent TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    batch_id TEXT,
+    ingested_at TEXT NOT NULL,
+    PRIMARY KEY (agent, message_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    agent TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    route TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    snapshot_before TEXT,
+    snapshot_after TEXT,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_audit_log_agent ON audit_log (agent, created_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log (target_type, target_id)`,
+  ...SCHEMA_ADDITIONS.flatMap((addition) => addition.sql),
+  `CREATE VIRTUAL TABLE IF NOT EXISTS observations_fts USING fts5(
+    content,
+    observation_id UNINDEXED,
+    agent_id UNINDEXED,
+    tokenize = 'porter unicode61'
+  )`,
+];
+
+// One-time data steps, recorded in aux_migrations so each runs once
+// per database (not once per isolate like AUX_SCHEMA).
+const AUX_BACKFILLS: Array<{ name: string; sql: string }> = [
+  {
+    name: 'observations_fts_backfill',
+    sql: `
+      INSERT INTO observations_fts (content, observation_id, agent_id)
+      SELECT content, id, agent_id
+      FROM observations
+      WHERE deleted_at IS NULL
+        AND id NOT IN (SELECT observation_id FROM observations_fts)
+    `,
+  },
+  // One tracker entry per agent per day, enforced by a unique index.
+  // Days written twice before that keep their latest entry; the others
+  // are moved (not deleted) to tracker_entries_displaced, listed by
+  // GET /tracker/displaced/:agent so they can be merged by hand. Their
+  // marker values stay in tracker_marker_values under the same id.
+  {
+    name: 'tracker_entries_displaced_table',
+    sql: `CREATE TABLE IF NOT EXISTS tracker_entries_displaced AS SELECT * FROM tracker_entries WHERE 0`,
+  },
+  {
+    name: 'tracker_entries_displace_same_day',
+    sql: `
+      INSERT INTO tracker_entries_displaced
+      SELECT * FROM tracker_entries
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, ROW_NUMBER() OVER (PARTITION BY agent, date ORDER BY timestamp DESC, id DESC) AS rn
+          FROM tracker_entries
+        )
+        WHERE rn > 1
+      )
+    `,
+  },
+  {
+    name: 'tracker_entries_remove_displaced',
+    sql: `DELETE FROM tracker_entries WHERE id IN (SELECT id FROM tracker_entries_displaced)`,
+  },
+  {
+    name: 'tracker_entries_agent_date_drop_plain_index',
+    sql: `DROP INDEX IF EXISTS idx_tracker_entries_agent_date`,
+  },
+  {
+    name: 'tracker_entries_agent_date_unique',
+    sql: `CREATE UNIQUE INDEX IF NOT EXISTS idx_tracker_entries_agent_date ON tracker_entries (agent, date)`,
+  },
+];
+
+let auxSchemaReady = false;
+
+async function ensureAuxSchema(env: Env): Promise<void> {
+  if (auxSchemaReady) return;
+  await env.DB.batch(AUX_SCHEMA.map((sql) => env.DB.prepare(sql)));
+
+  const applied = await env.DB.prepare(`SELECT name FROM aux_migrations`).all();
+  const appliedNames = new Set(applied.results.map((r: any) => r.name));
+  for (const backfill of AUX_BACKFILLS) {
+    if (appliedNames.has(backfill.name)) continue;
+    await env.DB.batch([
+      env.DB.prepare(backfill.sql),
+      env.DB.prepare(`INSERT OR IGNORE INTO aux_migrations (name, applied_at) VALUES (?, ?)`)
+        .bind(backfill.name, new Date().toISOString()),
+    ]);
+  }
+  const pendingAdditions = SCHEMA_ADDITIONS
+    .map((addition) => `schema_v${addition.version}:${addition.name}`)
+    .filter((name) => !appliedNames.has(name));
+  if (pendingAdditions.length > 0) {
+    await env.DB.batch(
+      pendingAdditions.map((name) =>
+        env.DB.prepare(`INSERT OR IGNORE INTO aux_migrations (name, applied_at) VALUES (?, ?)`)
+          .bind(name, new Date().toISOString())
+      )
+    );
+  }
+
+  auxSchemaReady = true;
+}
+
+// ============================================================
+// AUTHENTICATION - Per-agent bearer keys
+// ============================================================
+// Every API route requires `Authorization: Bearer <key>`.
+// Keys are scoped to one agent (or '*' for all agents) and to a
+// level: read < write < admin. Only the SHA-256 hash is stored.
+// The ADMIN_TOKEN secret acts as a root '*'/admin key so the
+// first real keys can be minted.
+// ============================================================
+
+type KeyScope = 'read' | 'write' | 'admin';
+
+const SCOPE_RANK: Record<KeyScope, number> = { read: 1, write: 2, admin: 3 };
+
+// Agent value for keys (and resources) that span every agent
+const ALL_AGENTS = '*';
+
+interface AuthContext {
+  keyId: string; // 'root' when authenticated via ADMIN_TOKEN
+  agent: string;
+  scope: KeyScope;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(digest);
+}
+
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `tm_${toHex(bytes.buffer)}`;
+}
+
+async function authenticate(request: Request, env: Env): Promise<AuthContext | null> {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return null;
+
+  const token = match[1];
+  const tokenHash = await sha256Hex(token);
+
+  if (env.ADMIN_TOKEN && tokenHash === (await sha256Hex(env.ADMIN_TOKEN))) {
+    return { keyId: 'root', agent: ALL_AGENTS, scope: 'admin' };
+  }
+
+  const row: any = await env.DB.prepare(
+    `SELECT id, agent, scope FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`
+  )
+    .bind(tokenHash)
+    .first();
+
+  if (!row) return null;
+
+  await env.DB.prepare(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`)
+    .bind(new Date().toISOString(), row.id)
+    .run();
+
+  return { keyId: row.id, agent: row.agent, scope: row.scope as KeyScope };
+}
+
+// Returns a 403 response if the key may not act on `agent` at `scope`.
+// Omit `agent` for agent-agnostic routes; pass ALL_AGENTS for global
+// config that only an all-agent key may touch.
+function authorize(auth: AuthContext, scope: KeyScope, agent?: string | null): Response | null {
+  if (SCOPE_RANK[auth.scope] < SCOPE_RANK[scope]) {
+    return jsonResponse({ error: 'INSUFFICIENT_SCOPE', required: scope, granted: auth.scope }, 403);
+  }
+  if (agent !== undefined && auth.agent !== ALL_AGENTS && auth.agent !== agent) {
+    return jsonResponse({ error: 'AGENT_NOT_ALLOWED', agent: agent ?? null }, 403);
+  }
+  return null;
+}
+
+// The :agent segment at `index` of the path, decoded the same way on
+// every route so authorize() and storage keys see one name. route()
+// has already rejected malformed %-escapes.
+function pathAgent(url: URL, index: number): string {
+  return decodeURIComponent(url.pathname.split("/")[index]);
+}
+
+// Owning agent of an observation (including soft-deleted rows)
+async function getObservationAgent(env: Env, id: string): Promise<string | null> {
+  const row: any = await env.DB.prepare(`SELECT agent_id FROM observations WHERE id = ?`)
+    .bind(id)
+    .first();
+  return row ? row.agent_id : null;
+}
+
+// --- HARD LIMITS ---
+const LIMITS = {
+  RECENT_MAX: 10,
+  SALIENT_MAX: 10,
+  HOT_MAX: 10,
+  WAKE_TOTAL_MAX: 25,
+  QUERY_BUFFER: 2,
+  MAX_LENSES: 5,
+  PREVIEW_LENGTH: 150,
+  IDENTITY_PREVIEW_LENGTH: 200,
+  RECENT_CONTEXT_MAX: 15,
+  SEARCH_PAGE_MAX: 100,
+  SEMANTIC_MAX: 5,
+  SEMANTIC_CANDIDATE_MAX: 2000,
+  SEMANTIC_BACKFILL_MAX: 200,
+  SEMANTIC_MIN_SCORE: 0.15,
+  BATCH_MAX: 100,
+  LINEAGE_MAX: 50,
+} as const;
+
+// ?limit= as an integer from 1 to `max`; `fallback` when absent, null
+// when it is anything else
+function parseLimitParam(value: string | null, fallback: number, max: number): number | null {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const limit = Number(value);
+  return limit >= 1 && limit <= max ? limit : null;
+}
+
+// --- SEARCH RANKING BLEND ---
+// Final score = RELEVANCE * normalised BM25 (0-100) + SALIENCE * decayed salience
+const SEARCH_BLEND = {
+  RELEVANCE: 0.7,
+  SALIENCE: 0.3,
+} as const;
+
+// --- DAY NAMES ---
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// --- RELATIVE TIME ---
+function relativeTime(isoString: string): string {
+  const then = new Date(isoString).getTime();
+  const now = Date.now();
+  const diffMs = now - then;
+  const diffDays = Math.floor(diffMs / 86400000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffMinutes = Math.floor(diffMs / 60000);
+
+  if (diffMinutes < 1) return 'just now';
   if (diffMinutes < 60) return `${diffMinutes} minute${diffMinutes === 1 ? '' : 's'} ago`;
   if (diffHours < 24) return `${diffHours} hour${diffHours === 1 ? '' : 's'} ago`;
   if (diffDays === 0) return 'today';
@@ -450,6 +1594,282 @@ function parseIdentitySections(soulfile: string | null): Array<{
   return sections;
 }
 
+// ============================================================
+// SOULFILE VERSIONING
+// ============================================================
+// KV layout per agent:
+//   `${agent}:active`  - live soulfile (what /wake reads)
+//   `${agent}:v{n}`    - content of version n
+//   `${agent}:history` - JSON array of SoulfileVersion metadata
+// ============================================================
+
+interface SoulfileVersion {
+  version: number;
+  author: string;
+  key_id: string | null;
+  timestamp: string;
+  note: string;
+  length: number;
+  sections: string[];
+}
+
+// --- SPLIT SOULFILE (lossless, unlike parseIdentitySections) ---
+function splitSoulfile(soulfile: string): {
+  preamble: string;
+  sections: Array<{ name: string; body: string }>;
+} {
+  const parts = soulfile.split(/^## ([^\n]+)\n/gm);
+  const sections: Array<{ name: string; body: string }> = [];
+
+  for (let i = 1; i < parts.length; i += 2) {
+    sections.push({ name: parts[i].trim(), body: parts[i + 1] ?? '' });
+  }
+
+  return { preamble: parts[0] ?? '', sections };
+}
+
+// --- JOIN SOULFILE (inverse of splitSoulfile) ---
+function joinSoulfile(preamble: string, sections: Array<{ name: string; body: string }>): string {
+  const withNewline = (text: string) => (text && !text.endsWith('\n') ? text + '\n' : text);
+  return withNewline(preamble) + sections.map((s) => `## ${s.name}\n${withNewline(s.body)}`).join('');
+}
+
+function normalizeSectionBody(content: string): string {
+  return content.replace(/\s+$/, '') + '\n\n';
+}
+
+// A `## ` line inside a section body would be read back by
+// splitSoulfile as a new (possibly duplicate) section
+function hasSectionHeading(content: string): boolean {
+  return /^## /m.test(content);
+}
+
+function findSectionIndex(sections: Array<{ name: string }>, name: string): number {
+  const target = name.trim().toLowerCase();
+  return sections.findIndex((s) => s.name.toLowerCase() === target);
+}
+
+// --- SELECT SECTIONS FOR WAKE (?sections=Core Voice,Boundaries) ---
+function selectSoulfileSections(soulfile: string | null, names: string[]): {
+  soulfile: string | null;
+  missing: string[];
+} {
+  if (!soulfile || names.length === 0) return { soulfile, missing: [] };
+
+  const { sections } = splitSoulfile(soulfile);
+  const selected: Array<{ name: string; body: string }> = [];
+  const missing: string[] = [];
+
+  for (const name of names) {
+    const idx = findSectionIndex(sections, name);
+    if (idx === -1) {
+      missing.push(name);
+    } else if (!selected.includes(sections[idx])) {
+      selected.push(sections[idx]);
+    }
+  }
+
+  return { soulfile: selected.length > 0 ? joinSoulfile('', selected) : null, missing };
+}
+
+async function getSoulfileHistory(env: Env, agent: string): Promise<SoulfileVersion[]> {
+  const raw = await env.SOULFILES.get(`${agent}:history`);
+  return raw ? JSON.parse(raw) : [];
+}
+
+async function getSoulfileVersion(env: Env, agent: string, version: number): Promise<string | null> {
+  return env.SOULFILES.get(`${agent}:v${version}`);
+}
+
+function describeSoulfile(
+  content: string,
+  version: number,
+  author: string,
+  keyId: string | null,
+  note: string
+): SoulfileVersion {
+  return {
+    version,
+    author,
+    key_id: keyId,
+    timestamp: new Date().toISOString(),
+    note,
+    length: content.length,
+    sections: splitSoulfile(content).sections.map((s) => s.name),
+  };
+}
+
+// --- SAVE NEW SOULFILE VERSION ---
+// Writes `${agent}:v{n}`, appends history and makes it active.
+// A soulfile that predates versioning is captured as v1 first.
+async function saveSoulfileVersion(
+  env: Env,
+  agent: string,
+  content: string,
+  author: string,
+  keyId: string | null,
+  note: string
+): Promise<SoulfileVersion> {
+  const history = await getSoulfileHistory(env, agent);
+
+  if (history.length === 0) {
+    const existing = await env.SOULFILES.get(`${agent}:active`);
+    if (existing) {
+      await env.SOULFILES.put(`${agent}:v1`, existing);
+      history.push(describeSoulfile(existing, 1, 'unknown', null, 'Pre-versioning soulfile'));
+    }
+  }
+
+  const version = (history[history.length - 1]?.version ?? 0) + 1;
+  const entry = describeSoulfile(content, version, author, keyId, note);
+
+  await env.SOULFILES.put(`${agent}:v${version}`, content);
+  history.push(entry);
+  await env.SOULFILES.put(`${agent}:history`, JSON.stringify(history));
+  await env.SOULFILES.put(`${agent}:active`, content);
+
+  // The version is already saved; losing the notification is better
+  // than failing the request
+  await notifyEvent(env, agent, 'soulfile_changed', {
+    version: entry.version,
+    author: entry.author,
+    note: entry.note,
+    length: entry.length,
+    sections: entry.sections,
+  }).catch(() => []);
+
+  return entry;
+}
+
+// --- SEQUENCE DIFF (LCS) ---
+// The LCS table is (n+1)*(m+1) cells, so the common prefix and suffix
+// are trimmed first and a middle larger than DIFF_MAX_CELLS is reported
+// as one delete plus one insert instead of being diffed.
+type DiffOp = { op: 'equal' | 'insert' | 'delete'; text: string };
+
+const DIFF_MAX_CELLS = 2_000_000;
+
+function diffSequences(from: string[], to: string[]): DiffOp[] {
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) start++;
+  let endFrom = from.length;
+  let endTo = to.length;
+  while (endFrom > start && endTo > start && from[endFrom - 1] === to[endTo - 1]) {
+    endFrom--;
+    endTo--;
+  }
+
+  const head = from.slice(0, start).map((text): DiffOp => ({ op: 'equal', text }));
+  const tail = from.slice(endFrom).map((text): DiffOp => ({ op: 'equal', text }));
+  const a = from.slice(start, endFrom);
+  const b = to.slice(start, endTo);
+  const n = a.length;
+  const m = b.length;
+
+  if ((n + 1) * (m + 1) > DIFF_MAX_CELLS) {
+    return [
+      ...head,
+      ...a.map((text): DiffOp => ({ op: 'delete', text })),
+      ...b.map((text): DiffOp => ({ op: 'insert', text })),
+      ...tail,
+    ];
+  }
+
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = head;
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: 'delete', text: a[i++] });
+    } else {
+      ops.push({ op: 'insert', text: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ op: 'delete', text: a[i++] });
+  while (j < m) ops.push({ op: 'insert', text: b[j++] });
+
+  return [...ops, ...tail];
+}
+
+// --- WORD DIFF ---
+// Word-level diff with runs of the same op merged. Whitespace is kept
+// as its own token so joining the texts reproduces either side.
+function diffWords(from: string, to: string): { changes: DiffOp[]; added: number; removed: number } {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter((token) => token !== '');
+  const changes: DiffOp[] = [];
+  let added = 0;
+  let removed = 0;
+
+  for (const op of diffSequences(tokenize(from), tokenize(to))) {
+    const isWord = op.text.trim() !== '';
+    if (isWord && op.op === 'insert') added++;
+    if (isWord && op.op === 'delete') removed++;
+
+    const last = changes[changes.length - 1];
+    if (last && last.op === op.op) last.text += op.text;
+    else changes.push({ ...op });
+  }
+
+  return { changes, added, removed };
+}
+
+// --- SECTION-AWARE SOULFILE DIFF ---
+function diffSoulfiles(from: string, to: string): {
+  added: string[];
+  removed: string[];
+  changed: Array<{ name: string; changes: DiffOp[] }>;
+  unchanged: string[];
+  reordered: boolean;
+} {
+  const a = splitSoulfile(from);
+  const b = splitSoulfile(to);
+  const aMap = new Map(a.sections.map((s) => [s.name, s.body.trim()]));
+  const bMap = new Map(b.sections.map((s) => [s.name, s.body.trim()]));
+
+  const lineChanges = (x: string, y: string) =>
+    diffSequences(x.split('\n'), y.split('\n')).filter((d) => d.op !== 'equal');
+
+  const added = b.sections.filter((s) => !aMap.has(s.name)).map((s) => s.name);
+  const removed = a.sections.filter((s) => !bMap.has(s.name)).map((s) => s.name);
+  const changed: Array<{ name: string; changes: DiffOp[] }> = [];
+  const unchanged: string[] = [];
+
+  if (a.preamble.trim() !== b.preamble.trim()) {
+    changed.push({ name: '(preamble)', changes: lineChanges(a.preamble.trim(), b.preamble.trim()) });
+  }
+
+  for (const section of b.sections) {
+    const before = aMap.get(section.name);
+    if (before === undefined) continue;
+    const after = section.body.trim();
+    if (before === after) {
+      unchanged.push(section.name);
+    } else {
+      changed.push({ name: section.name, changes: lineChanges(before, after) });
+    }
+  }
+
+  const commonA = a.sections.map((s) => s.name).filter((name) => bMap.has(name));
+  const commonB = b.sections.map((s) => s.name).filter((name) => aMap.has(name));
+  const reordered = commonA.some((name, idx) => commonB[idx] !== name);
+
+  return { added, removed, changed, unchanged, reordered };
+}
+
 // --- TEMPORAL ANCHOR ---
 function getTemporalAnchor(): {
   date: string;
@@ -761,6 +2181,12 @@ function assertInvariants(
     }
   }
 
+  for (const [id, obs] of allLoaded) {
+    if (obs.status === 'archived') {
+      violations.push(`ARCHIVED_IN_ACTIVE: ${id}`);
+    }
+  }
+
   for (const obs of hot) {
     if (typeof obs.hot_score !== 'number' || isNaN(obs.hot_score)) {
       violations.push(`INVALID_HOT_SCORE: ${obs.id}`);
@@ -791,7 +2217,8 @@ function explainLoading(
   salientIds: Set<string>,
   hotIds: Set<string>,
   criticalIds: Set<string>,
-  lenses: ParsedLens[]
+  lenses: ParsedLens[],
+  semanticIds: Set<string> = new Set()
 ): string[] {
   const reasons: string[] = [];
 
@@ -816,6 +2243,10 @@ function explainLoading(
     reasons.push('recency');
   }
 
+  if (semanticIds.has(obs.id)) {
+    reasons.push('semantic_match');
+  }
+
   for (const lens of lenses) {
     if (!lens.negated) {
       reasons.push(`lens:${lens.type}${lens.target ? ':' + lens.target : ''}`);
@@ -834,1614 +2265,7573 @@ function explainLoading(
   return reasons;
 }
 
-// --- REINFORCE SALIENCE ON ACCESS ---
-async function reinforceAccess(env: Env, ids: string[]): Promise<void> {
-  if (ids.length === 0) return;
-
-  const now = new Date().toISOString();
+// --- TOKEN BUDGET ---
+// Greedy fit of an assembled wake response into `budget` tokens.
+// Observations (wherever the format places them) and soulfile
+// sections are stripped, then re-added in priority order. An item
+// that doesn't fit whole is retried as a trimmed preview before
+// being dropped.
+interface BudgetCandidate {
+  id: string;
+  kind: string;
+  priority: 'critical' | 'pinned' | 'semantic' | 'hot' | 'salient' | 'recent' | 'neighbor';
+  why_loaded: string[];
+}
 
-  for (const id of ids) {
-    await env.DB.prepare(
-      `
-      UPDATE observations
-      SET
-        salience = MIN(100, salience + 2),
-        last_accessed = ?,
-        updated_at = ?
-      WHERE id = ?
-        AND deleted_at IS NULL
-        AND status = 'active'
-      `
-    )
-      .bind(now, now, id)
-      .run();
-  }
+interface BudgetReport {
+  budget: number;
+  used: number;
+  fits: boolean;
+  trimmed: Array<{ id: string; priority: string }>;
+  dropped: Array<BudgetCandidate & { reason: string }>;
+  sections: { kept: string[]; trimmed: string[]; dropped: string[] };
 }
 
-// --- SUPERSEDE ---
-async function supersedeObservation(
-  env: Env,
-  targetId: string,
-  supersededById: string
-): Promise<{ success: boolean; error?: string }> {
-  if (targetId === supersededById) {
-    return { success: false, error: 'SELF_SUPERSESSION' };
-  }
+function fitWakeToBudget(
+  response: any,
+  slots: string[][],
+  budget: number,
+  candidates: BudgetCandidate[]
+): BudgetReport {
+  const getPath = (path: string[]) => path.reduce((node, key) => node?.[key], response);
+  const setPath = (path: string[], value: any) => {
+    const parent = path.slice(0, -1).reduce((node, key) => node?.[key], response);
+    if (parent) parent[path[path.length - 1]] = value;
+  };
 
-  const supersedingObs = await env.DB.prepare(
-    `SELECT id, status, superseded_by FROM observations WHERE id = ? AND deleted_at IS NULL`
-  )
-    .bind(supersededById)
-    .first();
+  const originals = slots.map((path) => (getPath(path) ?? []) as any[]);
+  const originalIdentity: any[] | null = Array.isArray(response.identity) ? response.identity : null;
+  const split = typeof response.soulfile === 'string' ? splitSoulfile(response.soulfile) : null;
+  const sectionItems = split
+    ? [
+        ...(split.preamble.trim() ? [{ name: '(preamble)', body: split.preamble }] : []),
+        ...split.sections,
+      ]
+    : [];
+
+  const included = new Map<string, 'full' | 'trimmed'>();
+  const keptSections = new Map<string, 'full' | 'trimmed'>();
+
+  const trimObs = (obs: any) =>
+    typeof obs.content === 'string' && obs.content.length > LIMITS.PREVIEW_LENGTH
+      ? { ...obs, content: truncate(obs.content, LIMITS.PREVIEW_LENGTH), trimmed: true }
+      : obs;
+
+  const render = () => {
+    slots.forEach((path, i) => {
+      setPath(
+        path,
+        originals[i]
+          .filter((o) => included.has(o.id))
+          .map((o) => (included.get(o.id) === 'trimmed' ? trimObs(o) : o))
+      );
+    });
 
-  if (!supersedingObs) {
-    return { success: false, error: 'SUPERSEDING_NOT_FOUND' };
-  }
+    if (split) {
+      const kept = sectionItems.filter((s) => keptSections.has(s.name));
+      const body = (s: { name: string; body: string }) =>
+        keptSections.get(s.name) === 'trimmed'
+          ? truncate(s.body.trim(), LIMITS.IDENTITY_PREVIEW_LENGTH) + '\n'
+          : s.body;
+      const preamble = kept.find((s) => s.name === '(preamble)');
+      const sections = kept
+        .filter((s) => s.name !== '(preamble)')
+        .map((s) => ({ name: s.name, body: body(s) }));
+      response.soulfile = kept.length > 0 ? joinSoulfile(preamble ? body(preamble) : '', sections) : null;
+    }
 
-  if ((supersedingObs as any).status === 'superseded') {
-    return { success: false, error: 'SUPERSEDING_IS_SUPERSEDED' };
-  }
+    if (originalIdentity) {
+      response.identity = originalIdentity.filter((s) => keptSections.has(s.name));
+    }
+  };
 
-  const targetObs = await env.DB.prepare(
-    `SELECT id, status, superseded_by FROM observations WHERE id = ? AND deleted_at IS NULL`
-  )
-    .bind(targetId)
-    .first();
+  const fits = () => {
+    render();
+    return estimateTokens(response) <= budget;
+  };
 
-  if (!targetObs) {
-    return { success: false, error: 'TARGET_NOT_FOUND' };
-  }
+  const report: BudgetReport = {
+    budget,
+    used: 0,
+    fits: true,
+    trimmed: [],
+    dropped: [],
+    sections: { kept: [], trimmed: [], dropped: [] },
+  };
+
+  // Base cost: everything except observations and soulfile
+  if (!fits()) report.fits = false;
+
+  for (const candidate of candidates) {
+    included.set(candidate.id, 'full');
+    if (fits()) continue;
 
-  if ((targetObs as any).status === 'superseded') {
-    return { success: false, error: 'TARGET_ALREADY_SUPERSEDED' };
+    included.set(candidate.id, 'trimmed');
+    if (fits()) {
+      report.trimmed.push({ id: candidate.id, priority: candidate.priority });
+      continue;
+    }
+
+    included.delete(candidate.id);
+    report.dropped.push({ ...candidate, reason: 'over_budget' });
   }
 
-  if ((targetObs as any).superseded_by === supersededById) {
-    return { success: false, error: 'CIRCULAR_SUPERSESSION' };
+  for (const section of sectionItems) {
+    keptSections.set(section.name, 'full');
+    if (fits()) {
+      report.sections.kept.push(section.name);
+      continue;
+    }
+
+    keptSections.set(section.name, 'trimmed');
+    if (fits()) {
+      report.sections.trimmed.push(section.name);
+      continue;
+    }
+
+    keptSections.delete(section.name);
+    report.sections.dropped.push(section.name);
   }
 
-  const now = new Date().toISOString();
+  render();
+  report.used = estimateTokens(response);
+  report.fits = report.used <= budget;
 
-  await env.DB.prepare(
-    `
-    UPDATE observations
-    SET
-      status = 'superseded',
-      superseded_by = ?,
-      updated_at = ?
-    WHERE id = ?
-      AND deleted_at IS NULL
-      AND status = 'active'
-    `
-  )
-    .bind(supersededById, now, targetId)
-    .run();
+  return report;
+}
 
-  return { success: true };
+// Priority order for budgeted wake: critical (corrections and
+// salience >= 80), pinned, topic matches from ?semantic=, then the
+// hot, salient and recent tiers, and last graph neighbours.
+function budgetCandidates(
+  tiers: { hot: any[]; salient: any[]; recent: any[]; semantic: any[]; neighbors?: any[] },
+  criticalIds: Set<string>,
+  explain: (obs: any) => string[]
+): BudgetCandidate[] {
+  const { hot, salient, recent, semantic, neighbors = [] } = tiers;
+  const all = [...hot, ...salient, ...recent, ...semantic];
+  const ordered: Array<{ obs: any; priority: BudgetCandidate['priority'] }> = [
+    ...deterministicSort(all.filter((o) => criticalIds.has(o.id)), (o) => (o.kind === 'correction' ? 1 : 0))
+      .map((obs) => ({ obs, priority: 'critical' as const })),
+    ...deterministicSort(all.filter((o) => o.pinned), (o) => o.decayed_salience)
+      .map((obs) => ({ obs, priority: 'pinned' as const })),
+    ...semantic.map((obs) => ({ obs, priority: 'semantic' as const })),
+    ...hot.map((obs) => ({ obs, priority: 'hot' as const })),
+    ...salient.map((obs) => ({ obs, priority: 'salient' as const })),
+    ...recent.map((obs) => ({ obs, priority: 'recent' as const })),
+    ...neighbors.map((obs) => ({ obs, priority: 'neighbor' as const })),
+  ];
+
+  const seen = new Set<string>();
+  const candidates: BudgetCandidate[] = [];
+  for (const { obs, priority } of ordered) {
+    if (seen.has(obs.id)) continue;
+    seen.add(obs.id);
+    const why_loaded = priority === 'neighbor' ? [`neighbor:${obs.edge_type}:${obs.via}`] : explain(obs);
+    candidates.push({ id: obs.id, kind: obs.kind, priority, why_loaded });
+  }
+  return candidates;
 }
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
+// --- FULL-TEXT INDEX SYNC ---
+// observations_fts mirrors content of non-deleted observations.
+// Returned as statements so callers can fold them into a batch.
+function ftsIndexStatements(env: Env, id: string, agentId: string, content: string): D1PreparedStatement[] {
+  return [
+    env.DB.prepare(`DELETE FROM observations_fts WHERE observation_id = ?`).bind(id),
+    env.DB.prepare(`INSERT INTO observations_fts (content, observation_id, agent_id) VALUES (?, ?, ?)`)
+      .bind(content, id, agentId),
+  ];
+}
 
-    // --- CORS PREFLIGHT ---
-    if (request.method === 'OPTIONS') {
-      return new Response(null, { headers: corsHeaders });
+function ftsRemoveStatement(env: Env, id: string): D1PreparedStatement {
+  return env.DB.prepare(`DELETE FROM observations_fts WHERE observation_id = ?`).bind(id);
+}
+
+// --- FTS QUERY BUILDER ---
+// Turns user input into a safe FTS5 expression. Supports
+// "exact phrases", prefix*, AND / OR / NOT and -negation; every
+// term is quoted so stray punctuation can't cause syntax errors.
+function buildFtsQuery(input: string): string | null {
+  const tokens = input.match(/-?"[^"]*"?|\S+/g) ?? [];
+  const parts: string[] = [];
+  let pendingOp: string | null = null;
+
+  for (const raw of tokens) {
+    if (raw === 'AND' || raw === 'OR' || raw === 'NOT') {
+      if (parts.length > 0) pendingOp = raw;
+      continue;
     }
 
-    // --- WAKE (GET) ---
-    if (url.pathname.startsWith("/wake/")) {
-      const agent = url.pathname.split("/")[2];
-      if (!agent) {
-        return textResponse("Missing agent", 400);
-      }
+    const negate = raw.length > 1 && raw.startsWith('-');
+    const token = negate ? raw.slice(1) : raw;
+
+    let term: string;
+    if (token.startsWith('"')) {
+      const phrase = token.replace(/"/g, '').trim();
+      if (!phrase) continue;
+      term = `"${phrase}"`;
+    } else {
+      const word = token.replace(/["*]/g, '');
+      if (!word) continue;
+      term = `"${word}"${token.endsWith('*') ? '*' : ''}`;
+    }
 
-      const soulfile = await env.SOULFILES.get(`${agent}:active`);
+    // FTS5 has no unary NOT, so a leading negation can't be expressed
+    if (parts.length === 0) {
+      if (negate || pendingOp === 'NOT') continue;
+      parts.push(term);
+    } else {
+      parts.push(negate ? 'NOT' : pendingOp ?? 'AND', term);
+    }
+    pendingOp = null;
+  }
 
-      const limit = Math.min(
-        Number(url.searchParams.get("limit")) || LIMITS.RECENT_MAX,
-        LIMITS.RECENT_MAX
-      );
-      const includeHot = url.searchParams.get("hot") !== "false";
-      const explain = url.searchParams.get("explain") === "true";
-      const lenses = parseLenses(url.searchParams.get("lens"));
+  return parts.length > 0 ? parts.join(' ') : null;
+}
 
-      // 1. GET RECENT
-      const recentRaw = await env.DB.prepare(
-        `
-        SELECT *
-        FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-          AND (status = 'active' OR status IS NULL)
-        ORDER BY created_at DESC, id ASC
-        LIMIT ?
-        `
-      )
-        .bind(agent, limit * LIMITS.QUERY_BUFFER)
-        .all();
+// --- SEARCH CURSOR (keyset on the blended score, then id) ---
+// The blended score depends on decay (time) and on the best BM25 rank
+// in the match set, so the cursor pins both: `t` is the time the first
+// page was scored at and `m` its best relevance. Every page then scores
+// rows exactly as the first one did.
+interface SearchCursor {
+  k: (number | string | null)[];
+  id: string;
+  m: number;
+  t: string;
+}
 
-      // 2. GET SALIENT
-      const salientRaw = await env.DB.prepare(
-        `
-        SELECT *
-        FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-          AND (status = 'active' OR status IS NULL)
-        ORDER BY salience DESC, created_at DESC, id ASC
-        LIMIT ?
-        `
-      )
-        .bind(agent, limit * LIMITS.QUERY_BUFFER)
-        .all();
+function encodeCursor(cursor: SearchCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
 
-      // 3. GET CRITICAL
-      const criticalRaw = await env.DB.prepare(
-        `
-        SELECT *
-        FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-          AND (status = 'active' OR status IS NULL)
-          AND (salience >= 80 OR kind = 'correction')
-        ORDER BY salience DESC, created_at DESC, id ASC
-        LIMIT ?
-        `
-      )
-        .bind(agent, limit)
-        .all();
+function decodeCursor(cursor: string | null): SearchCursor | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(atob(cursor));
+    return Array.isArray(parsed.k) &&
+      typeof parsed.id === 'string' &&
+      typeof parsed.m === 'number' &&
+      typeof parsed.t === 'string'
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
 
-      // Track source queries for explainability
-      const recentQueryIds = new Set(recentRaw.results.map((o: any) => o.id));
-      const salientQueryIds = new Set(salientRaw.results.map((o: any) => o.id));
-      const criticalQueryIds = new Set(criticalRaw.results.map((o: any) => o.id));
+// ============================================================
+// SEMANTIC RECALL - Pluggable embeddings
+// ============================================================
+// Vectors live in observation_embeddings keyed by provider name,
+// so switching providers never compares incompatible vectors.
+// The default provider is local and deterministic (hashed
+// n-grams plus a small concept lexicon); remote providers are
+// adapters selected with EMBEDDING_PROVIDER.
+// ============================================================
 
-      // Merge and dedupe
-      const allRaw = [
-        ...criticalRaw.results,
-        ...recentRaw.results,
-        ...salientRaw.results,
-      ];
-      const uniqueMap = new Map(allRaw.map((o: any) => [o.id, o]));
-      const unique = Array.from(uniqueMap.values());
+interface EmbeddingProvider {
+  name: string;
+  // Why the configured provider could not be used, when this is the local fallback
+  fallback?: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
 
-      // Apply conflict resolution (deterministic)
-      const resolved = resolveConflicts(unique);
+// Word roots that share a concept feature, so paraphrases like
+// "we argued" and "friction over the deadline" land near each other.
+const CONCEPT_LEXICON: Record<string, string[]> = {
+  conflict: ['argu', 'fight', 'friction', 'conflict', 'tension', 'tense', 'clash', 'disagree', 'quarrel', 'anger', 'angry', 'upset', 'snap'],
+  joy: ['happy', 'happi', 'joy', 'delight', 'laugh', 'celebrat', 'fun', 'glad', 'excite'],
+  fear: ['fear', 'afraid', 'anxi', 'worr', 'scare', 'panic', 'nervous', 'dread'],
+  intimacy: ['love', 'close', 'intima', 'tender', 'affection', 'cuddl', 'hug', 'miss', 'together'],
+  sadness: ['sad', 'cry', 'cried', 'grief', 'griev', 'lonel', 'hurt', 'loss', 'lost'],
+  work: ['deadline', 'project', 'work', 'task', 'ship', 'launch', 'code', 'build', 'job'],
+  rest: ['sleep', 'tired', 'rest', 'exhaust', 'nap', 'burnout', 'drain'],
+};
 
-      // Compute derived fields
-      const withComputed = resolved.map((o) => ({
-        ...o,
-        decayed_salience: computeDecayedSalience(o),
-        hot_score: computeHotScore(o),
-      }));
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
 
-      // === APPLY LENS FILTERS ===
-      const lensFiltered = applyLenses(withComputed, lenses);
+function stemToken(word: string): string {
+  let stem = word.length > 4 ? word.replace(/(ing|ed|es|ly|s)$/, '') : word;
+  if (stem.length > 4 && stem.endsWith('e')) stem = stem.slice(0, -1);
+  return stem;
+}
 
-      // Split into tiers (deterministic sorting)
-      const recent = deterministicSort(
-        lensFiltered,
-        (o) => new Date(o.created_at).getTime()
-      ).slice(0, limit);
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => Number((v / norm).toFixed(5))) : vector;
+}
 
-      const salient = deterministicSort(
-        lensFiltered,
-        (o) => o.decayed_salience
-      ).slice(0, limit);
+// --- LOCAL PROVIDER (hashed n-grams, signed feature hashing) ---
+function createLocalEmbeddingProvider(dimensions = 256): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
 
-      const hot = includeHot
-        ? deterministicSort(lensFiltered, (o) => o.hot_score).slice(0, LIMITS.HOT_MAX)
-        : [];
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).map((w) => w.replace(/'/g, ''));
+    const stems = words.map(stemToken);
 
-      const hotIds = new Set(hot.map((o) => o.id));
+    stems.forEach((stem, i) => {
+      add(`w:${stem}`, 1);
+      if (i > 0) add(`b:${stems[i - 1]}_${stem}`, 0.75);
+      const padded = `^${stem}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    });
 
-      // Collect all loaded for invariant check
-      const allLoadedMap = new Map<string, any>();
-      [...recent, ...salient, ...hot].forEach((o) => allLoadedMap.set(o.id, o));
+    for (const word of words) {
+      for (const [concept, roots] of Object.entries(CONCEPT_LEXICON)) {
+        if (roots.some((root) => word.startsWith(root))) add(`k:${concept}`, 2);
+      }
+    }
 
-      // Run invariant assertions
-      const violations = assertInvariants(recent, salient, hot, allLoadedMap);
+    return normalizeVector(vector);
+  };
 
-      // Add explanations if requested
-      const addExplanation = (obs: any) => {
-        if (!explain) return obs;
-        const why_loaded = explainLoading(
-          obs,
-          recentQueryIds,
-          salientQueryIds,
-          hotIds,
-          criticalQueryIds,
-          lenses
+  return {
+    name: `local-ngram-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// --- WORKERS AI ADAPTER ---
+function createWorkersAiEmbeddingProvider(ai: Ai, model: string): EmbeddingProvider {
+  return {
+    name: `workers-ai:${model}`,
+    embed: async (texts) => {
+      const result: any = await ai.run(model as any, { text: texts });
+      return (result.data as number[][]).map(normalizeVector);
+    },
+  };
+}
+
+// --- OPENAI-COMPATIBLE ADAPTER (POST {url}/embeddings) ---
+function createOpenAiEmbeddingProvider(apiUrl: string, apiKey: string, model: string): EmbeddingProvider {
+  return {
+    name: `openai:${model}`,
+    embed: async (texts) => {
+      const response = await fetch(`${apiUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!response.ok) {
+        throw new Error(`EMBEDDING_API_ERROR: ${response.status}`);
+      }
+      const result: any = await response.json();
+      return result.data.map((d: any) => normalizeVector(d.embedding));
+    },
+  };
+}
+
+function getEmbeddingProvider(env: Env): EmbeddingProvider {
+  switch (env.EMBEDDING_PROVIDER) {
+    case 'workers-ai':
+      if (env.AI) {
+        return createWorkersAiEmbeddingProvider(env.AI, env.EMBEDDING_MODEL || '@cf/baai/bge-small-en-v1.5');
+      }
+      return { ...createLocalEmbeddingProvider(), fallback: 'EMBEDDING_PROVIDER is workers-ai but no AI binding is configured' };
+    case 'openai':
+      if (env.EMBEDDING_API_KEY) {
+        return createOpenAiEmbeddingProvider(
+          env.EMBEDDING_API_URL || 'https://api.openai.com/v1',
+          env.EMBEDDING_API_KEY,
+          env.EMBEDDING_MODEL || 'text-embedding-3-small'
         );
-        return { ...obs, why_loaded };
-      };
+      }
+      return { ...createLocalEmbeddingProvider(), fallback: 'EMBEDDING_PROVIDER is openai but EMBEDDING_API_KEY is not set' };
+  }
+  return createLocalEmbeddingProvider();
+}
 
-      const recentExplained = recent.map(addExplanation);
-      const salientExplained = salient.map(addExplanation);
-      const hotExplained = hot.map(addExplanation);
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) dot += a[i] * b[i];
+  return dot; // vectors are stored L2-normalised
+}
 
-      // Reinforce accessed observations
-      const accessedIds = Array.from(allLoadedMap.keys());
-      await reinforceAccess(env, accessedIds);
+// --- STORE EMBEDDINGS ---
+// Best-effort: a provider failure never fails the write; missing
+// vectors are backfilled on the next similarity query.
+async function indexEmbeddings(
+  env: Env,
+  provider: EmbeddingProvider,
+  rows: Array<{ id: string; agent_id: string; content: string }>
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  let vectors: number[][];
+  try {
+    vectors = await provider.embed(rows.map((r) => r.content));
+  } catch {
+    return 0;
+  }
 
-      // Check for format options
-      const legacyFormat = url.searchParams.get("format") === "legacy";
-      const compactFormat = url.searchParams.get("compact") === "true";
+  const now = new Date().toISOString();
+  await env.DB.batch(
+    rows.map((row, i) =>
+      env.DB.prepare(
+        `
+        INSERT OR REPLACE INTO observation_embeddings (observation_id, agent_id, provider, vector, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        `
+      ).bind(row.id, row.agent_id, provider.name, JSON.stringify(vectors[i]), now)
+    )
+  );
+  return rows.length;
+}
 
-      if (legacyFormat) {
-        // Return old format for backwards compatibility
-        const response: any = {
-          agent,
-          soulfile,
-          lens: formatLenses(lenses),
-          recent: recentExplained,
-          salient: salientExplained,
-          hot: hotExplained,
-        };
+async function backfillEmbeddings(env: Env, provider: EmbeddingProvider, agent: string): Promise<number> {
+  const missing = await env.DB.prepare(
+    `
+    SELECT o.id, o.agent_id, o.content
+    FROM observations o
+    LEFT JOIN observation_embeddings e
+      ON e.observation_id = o.id AND e.provider = ?
+    WHERE o.agent_id = ?
+      AND o.deleted_at IS NULL
+      AND e.observation_id IS NULL
+    ORDER BY o.created_at DESC
+    LIMIT ?
+    `
+  )
+    .bind(provider.name, agent, LIMITS.SEMANTIC_BACKFILL_MAX)
+    .all();
 
-        if (violations.length > 0) {
-          response._invariant_violations = violations;
-        }
+  return indexEmbeddings(env, provider, missing.results as any[]);
+}
 
-        return jsonResponse(response);
-      }
+// --- SIMILARITY QUERY ---
+async function findSimilarObservations(
+  env: Env,
+  agent: string,
+  queryVector: number[],
+  provider: EmbeddingProvider,
+  options: { limit: number; minScore: number; includeSuperseded?: boolean; excludeIds?: Set<string> }
+): Promise<any[]> {
+  await backfillEmbeddings(env, provider, agent);
+
+  const rows = await env.DB.prepare(
+    `
+    SELECT o.*, e.vector AS embedding
+    FROM observation_embeddings e
+    JOIN observations o ON o.id = e.observation_id
+    WHERE e.agent_id = ?
+      AND e.provider = ?
+      AND o.deleted_at IS NULL
+      ${options.includeSuperseded ? '' : "AND (o.status = 'active' OR o.status IS NULL)"}
+    ORDER BY o.created_at DESC
+    LIMIT ?
+    `
+  )
+    .bind(agent, provider.name, LIMITS.SEMANTIC_CANDIDATE_MAX)
+    .all();
+
+  const scored = (rows.results as any[])
+    .filter((row) => !options.excludeIds?.has(row.id))
+    .map(({ embedding, ...obs }) => ({
+      ...obs,
+      similarity: Number(cosineSimilarity(queryVector, JSON.parse(embedding)).toFixed(4)),
+    }))
+    .filter((obs) => obs.similarity >= options.minScore);
+
+  return deterministicSort(scored, (o) => o.similarity).slice(0, options.limit);
+}
 
-      // === COMPACT FORMAT (for AI consumption) ===
-      if (compactFormat) {
-        // Deduplicate observations across all tiers
-        const allObsMap = new Map<string, any>();
-        [...recent, ...salient, ...hot].forEach((obs) => {
-          if (!allObsMap.has(obs.id)) {
-            allObsMap.set(obs.id, obs);
-          }
-        });
+// --- REINFORCE SALIENCE ON ACCESS ---
+async function reinforceAccess(env: Env, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
 
-        // Sort by decayed_salience DESC, then by created_at DESC
-        const dedupedObs = Array.from(allObsMap.values()).sort((a, b) => {
-          if (b.decayed_salience !== a.decayed_salience) {
-            return b.decayed_salience - a.decayed_salience;
-          }
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-        });
+  const now = new Date().toISOString();
 
-        // Compute emotional snapshot from recent observations
-        const emotionTotals = { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
-        for (const obs of recent.slice(0, 15)) {
-          emotionTotals.intimacy += obs.emotion_intimacy ?? 0;
-          emotionTotals.joy += obs.emotion_joy ?? 0;
-          emotionTotals.conflict += obs.emotion_conflict ?? 0;
-          emotionTotals.fear += obs.emotion_fear ?? 0;
-        }
-        const emotionTotal = emotionTotals.intimacy + emotionTotals.joy + emotionTotals.conflict + emotionTotals.fear;
-        const emotions = emotionTotal > 0
-          ? {
-              intimacy: Math.round((emotionTotals.intimacy / emotionTotal) * 100),
-              joy: Math.round((emotionTotals.joy / emotionTotal) * 100),
-              conflict: Math.round((emotionTotals.conflict / emotionTotal) * 100),
-              fear: Math.round((emotionTotals.fear / emotionTotal) * 100),
-            }
-          : { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+  for (const id of ids) {
+    await env.DB.prepare(
+      `
+      UPDATE observations
+      SET
+        salience = MIN(100, salience + 2),
+        last_accessed = ?,
+        updated_at = ?
+      WHERE id = ?
+        AND deleted_at IS NULL
+        AND status = 'active'
+      `
+    )
+      .bind(now, now, id)
+      .run();
+  }
+}
 
-        // Strip to essential fields only
-        const leanObs = dedupedObs.map((obs) => ({
-          id: obs.id,
-          kind: obs.kind,
-          content: obs.content,
-          salience: obs.decayed_salience,
-          pinned: obs.pinned === 1,
-        }));
+// ============================================================
+// OBSERVATION STATE MACHINE
+// ============================================================
+// An observation's state is derived from the frozen fields:
+// deleted_at set -> deleted, otherwise status ('active' / NULL,
+// 'superseded', 'archived').
+//
+//   active     -> superseded | archived | deleted
+//   superseded -> active (unsupersede) | deleted
+//   archived   -> active (unarchive) | deleted
+//   deleted    -> (terminal; only purged)
+//
+// Every route that writes to an existing observation names its
+// action here, checks it with transitionError before writing, and
+// repeats the from-states in its UPDATE so a racing write can't
+// slip past. Edits, pins and links keep the state but are actions
+// too, so they share the same error.
+// ============================================================
 
-        const compactResponse = {
-          agent,
-          soulfile,
-          emotions,
-          observations: leanObs,
-          timestamp: new Date().toISOString(),
-          tokens: estimateTokens({ soulfile, observations: leanObs }),
-        };
+type ObservationState = 'active' | 'superseded' | 'archived' | 'deleted';
+
+type ObservationAction =
+  | 'edit'
+  | 'pin'
+  | 'unpin'
+  | 'link'
+  | 'supersede'
+  | 'unsupersede'
+  | 'archive'
+  | 'unarchive'
+  | 'delete';
+
+const OBSERVATION_ACTIONS: Record<ObservationAction, { from: ObservationState[]; to: ObservationState | null }> = {
+  edit: { from: ['active'], to: null },
+  pin: { from: ['active'], to: null },
+  unpin: { from: ['active', 'superseded', 'archived'], to: null },
+  link: { from: ['active'], to: null },
+  supersede: { from: ['active'], to: 'superseded' },
+  unsupersede: { from: ['superseded'], to: 'active' },
+  archive: { from: ['active'], to: 'archived' },
+  unarchive: { from: ['archived'], to: 'active' },
+  delete: { from: ['active', 'superseded', 'archived'], to: 'deleted' },
+};
 
-        return jsonResponse(compactResponse);
-      }
+function observationState(obs: { deleted_at?: string | null; status?: string | null }): ObservationState {
+  if (obs.deleted_at) return 'deleted';
+  if (obs.status === 'superseded' || obs.status === 'archived') return obs.status;
+  return 'active';
+}
 
-      // === FULL PRESENTATION LAYER (for dashboard/human consumption) ===
+// SQL condition matching observations in any of `states`
+function observationStateSql(states: ObservationState[]): string {
+  const clauses = states.map((state) => {
+    if (state === 'deleted') return `deleted_at IS NOT NULL`;
+    if (state === 'active') return `(deleted_at IS NULL AND (status IS NULL OR status = 'active'))`;
+    return `(deleted_at IS NULL AND status = '${state}')`;
+  });
+  return `(${clauses.join(' OR ')})`;
+}
 
-      // Query for anniversaries (observations from same month-day in previous years)
-      const temporal = getTemporalAnchor();
-      const anniversaryQuery = await env.DB.prepare(
-        `
-        SELECT id, content, created_at
-        FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-          AND strftime('%m-%d', created_at) = ?
-          AND strftime('%Y', created_at) < strftime('%Y', 'now')
-        ORDER BY created_at DESC
-        LIMIT 5
-        `
-      )
-        .bind(agent, temporal.monthDay)
-        .all();
+// Error body for an action the observation's state doesn't allow, or null
+function transitionError(obs: any, action: ObservationAction): Record<string, any> | null {
+  const state = observationState(obs);
+  const allowed = OBSERVATION_ACTIONS[action].from;
+  if (allowed.includes(state)) return null;
+  return {
+    error: 'INVALID_TRANSITION',
+    id: obs.id,
+    action,
+    state,
+    allowed_from: allowed,
+    ...(state === 'superseded' ? { superseded_by: obs.superseded_by ?? null } : {}),
+  };
+}
 
-      const anniversaryIds = anniversaryQuery.results.map((o: any) => o.id);
+function checkTransition(obs: any, action: ObservationAction): Response | null {
+  const error = transitionError(obs, action);
+  return error ? jsonResponse(error, 409) : null;
+}
 
-      // Build narrative briefing
-      const emotionalTrajectory = computeEmotionalTrajectory(recent);
-      const narrativeBriefing = {
-        narrativeState: generateNarrativeState(recent),
-        emotionalTrajectory,
-        temporalAnchor: {
-          date: temporal.date,
-          dayOfWeek: temporal.dayOfWeek,
-          relevantAnniversaries: anniversaryIds,
-        },
-        generatedAt: new Date().toISOString(),
-      };
+// The whole row, deleted rows included: enough for the state machine
+// and usable as an audit before-snapshot
+async function getObservationState(env: Env, id: string): Promise<any | null> {
+  return env.DB.prepare(`SELECT * FROM observations WHERE id = ?`).bind(id).first();
+}
 
-      // Build identity section (structured from soulfile)
-      const identitySections = parseIdentitySections(soulfile);
-      const identity = identitySections.map((section, idx) => ({
-        name: section.name,
-        preview: section.preview,
-        index: idx,
-      }));
+// Status codes for supersedeObservation / unsupersedeObservation errors
+const SUPERSESSION_ERROR_STATUS: Record<string, number> = {
+  SELF_SUPERSESSION: 400,
+  CIRCULAR_SUPERSESSION: 400,
+  SUPERSEDING_NOT_FOUND: 404,
+  SUPERSEDING_IS_SUPERSEDED: 400,
+  SUPERSEDING_IS_ARCHIVED: 400,
+  CROSS_AGENT_SUPERSESSION: 400,
+  TARGET_NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+};
 
-      // Build recent context (time-relative)
-      const recentContext = buildRecentContext(recent);
+// ============================================================
+// AUDIT LOG - Append-only trail of memory changes
+// ============================================================
+// One row per change: the key that made it, the route, the target
+// and JSON snapshots of the target before and after. Rows are never
+// updated or deleted, with one exception: a hard delete strips
+// `content` from that observation's earlier snapshots and leaves a
+// tombstone (its last snapshot without content), so the deletion
+// stays visible but the words are gone. Settings that span every
+// agent are logged under agent '*'.
+// ============================================================
 
-      // Build emotional state summary
-      const emotionalState = buildEmotionalState(recent);
+type AuditTargetType = 'observation' | 'edge' | 'setting';
 
-      // Compute emotional percentages for dashboard chart
-      const emotionTotals = { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
-      for (const obs of recent.slice(0, 15)) {
-        emotionTotals.intimacy += obs.emotion_intimacy ?? 0;
-        emotionTotals.joy += obs.emotion_joy ?? 0;
-        emotionTotals.conflict += obs.emotion_conflict ?? 0;
-        emotionTotals.fear += obs.emotion_fear ?? 0;
-      }
-      const emotionTotal = emotionTotals.intimacy + emotionTotals.joy + emotionTotals.conflict + emotionTotals.fear;
-      const emotions = emotionTotal > 0
-        ? {
-            intimacy: Math.round((emotionTotals.intimacy / emotionTotal) * 100),
-            joy: Math.round((emotionTotals.joy / emotionTotal) * 100),
-            conflict: Math.round((emotionTotals.conflict / emotionTotal) * 100),
-            fear: Math.round((emotionTotals.fear / emotionTotal) * 100),
-          }
-        : { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+interface AuditContext {
+  actor: string; // key id, 'discord' for interactions, 'maintenance' for cron jobs
+  route: string;
+}
 
-      // Assemble response
-      const response: any = {
-        agent,
-        narrativeBriefing,
-        identity,
-        soulfile,
-        emotions,
-        recentContext,
-        emotionalState,
-        lens: formatLenses(lenses),
-        _tiers: {
-          recent: recentExplained,
-          salient: salientExplained,
-          hot: hotExplained,
-        },
-      };
+const AUDIT = {
+  PAGE_DEFAULT: 50,
+  PAGE_MAX: 200,
+} as const;
 
-      // Add token estimate
-      response.tokenEstimate = estimateTokens(response);
+function auditContext(auth: AuthContext, request: Request): AuditContext {
+  return { actor: auth.keyId, route: `${request.method} ${new URL(request.url).pathname}` };
+}
 
-      if (violations.length > 0) {
-        response._invariant_violations = violations;
-      }
+// With `ifChanged`, batch it directly after the write it logs: nothing
+// is logged if that statement changed no rows (e.g. INSERT OR IGNORE)
+function auditStatement(
+  env: Env,
+  audit: AuditContext,
+  entry: { agent: string; action: string; target_type: AuditTargetType; target_id: string; before: any; after: any },
+  ifChanged = false
+): D1PreparedStatement {
+  return env.DB.prepare(
+    `INSERT INTO audit_log (id, agent, actor, route, action, target_type, target_id, snapshot_before, snapshot_after, created_at)
+     ${ifChanged ? 'SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ? WHERE changes() > 0' : 'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'}`
+  ).bind(
+    crypto.randomUUID(),
+    entry.agent,
+    audit.actor,
+    audit.route,
+    entry.action,
+    entry.target_type,
+    entry.target_id,
+    entry.before === null ? null : JSON.stringify(entry.before),
+    entry.after === null ? null : JSON.stringify(entry.after),
+    new Date().toISOString()
+  );
+}
 
-      return jsonResponse(response);
-    }
+async function observationSnapshot(env: Env, id: string): Promise<any | null> {
+  return env.DB.prepare(`SELECT * FROM observations WHERE id = ?`).bind(id).first();
+}
 
-    // --- SUPERSEDE (POST) ---
-    if (url.pathname.match(/^\/observe\/[^/]+\/supersede$/) && request.method === "POST") {
-      const targetId = url.pathname.split("/")[2];
-      if (!targetId) {
-        return textResponse("Missing observation id", 400);
-      }
+// Logs an observation change. Batch it directly after the statement
+// that makes the change: the after-snapshot is read from the row inside
+// the same batch, and nothing is logged if that statement changed no
+// rows (the state guard lost a race). Creates pass before = null and
+// the new row's id and agent as target.
+async function auditObservationStatement(
+  env: Env,
+  audit: AuditContext,
+  action: string,
+  before: any,
+  target: { id: string; agent_id: string } = before
+): Promise<D1PreparedStatement> {
+  const columns = [...(await getTableColumns(env, 'observations'))];
+  return env.DB.prepare(
+    `INSERT INTO audit_log (id, agent, actor, route, action, target_type, target_id, snapshot_before, snapshot_after, created_at)
+     SELECT ?, ?, ?, ?, ?, 'observation', ?, ?, json_object(${columns.map((c) => `'${c}', ${c}`).join(', ')}), ?
+     FROM observations
+     WHERE id = ? AND changes() > 0`
+  ).bind(
+    crypto.randomUUID(),
+    target.agent_id,
+    audit.actor,
+    audit.route,
+    action,
+    target.id,
+    before === null ? null : JSON.stringify(before),
+    new Date().toISOString(),
+    target.id
+  );
+}
 
-      const body: any = await request.json();
-      const { superseded_by } = body;
+// Hard delete: redact earlier snapshots, then the tombstone
+function auditTombstoneStatements(env: Env, audit: AuditContext, row: any): D1PreparedStatement[] {
+  const { content, ...rest } = row;
+  return [
+    env.DB.prepare(
+      `UPDATE audit_log
+       SET snapshot_before = json_remove(snapshot_before, '$.content'),
+           snapshot_after = json_remove(snapshot_after, '$.content')
+       WHERE target_type = 'observation' AND target_id = ?`
+    ).bind(row.id),
+    auditStatement(env, audit, {
+      agent: row.agent_id,
+      action: 'hard_delete',
+      target_type: 'observation',
+      target_id: row.id,
+      before: rest,
+      after: null,
+    }),
+  ];
+}
 
-      if (!superseded_by) {
-        return textResponse("Missing superseded_by field", 400);
-      }
+// Field names whose values differ between two snapshots
+function auditChangedFields(before: any, after: any): string[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return [...keys].filter((key) => JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null)).sort();
+}
 
-      const result = await supersedeObservation(env, targetId, superseded_by);
+function parseAuditEntry(row: any): any {
+  const before = row.snapshot_before === null ? null : JSON.parse(row.snapshot_before);
+  const after = row.snapshot_after === null ? null : JSON.parse(row.snapshot_after);
+  const { snapshot_before, snapshot_after, ...rest } = row;
+  return { ...rest, before, after, changed: auditChangedFields(before, after) };
+}
 
-      if (!result.success) {
-        const statusCodes: Record<string, number> = {
-          SELF_SUPERSESSION: 400,
-          CIRCULAR_SUPERSESSION: 400,
-          SUPERSEDING_NOT_FOUND: 404,
-          SUPERSEDING_IS_SUPERSEDED: 400,
-          TARGET_NOT_FOUND: 404,
-          TARGET_ALREADY_SUPERSEDED: 400,
-        };
-        return jsonResponse({ error: result.error }, statusCodes[result.error!] || 400);
-      }
+// --- SUPERSEDE ---
+async function supersedeObservation(
+  env: Env,
+  targetId: string,
+  supersededById: string,
+  audit?: AuditContext
+): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
+  if (targetId === supersededById) {
+    return { success: false, error: 'SELF_SUPERSESSION' };
+  }
 
-      return jsonResponse({
-        status: "superseded",
-        id: targetId,
-        superseded_by,
-      });
-    }
+  const supersedingObs = await getObservationState(env, supersededById);
 
-    // --- GET SUPERSEDED ---
-    if (url.pathname.match(/^\/observe\/superseded\/[^/]+$/) && request.method === "GET") {
-      const agent = url.pathname.split("/")[3];
-      if (!agent) {
-        return textResponse("Missing agent", 400);
-      }
+  if (!supersedingObs || supersedingObs.deleted_at) {
+    return { success: false, error: 'SUPERSEDING_NOT_FOUND' };
+  }
 
-      const limit = Number(url.searchParams.get("limit")) || 20;
+  if (observationState(supersedingObs) === 'superseded') {
+    return { success: false, error: 'SUPERSEDING_IS_SUPERSEDED' };
+  }
 
-      const superseded = await env.DB.prepare(
-        `
-        SELECT *
-        FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-          AND status = 'superseded'
-        ORDER BY updated_at DESC, id ASC
-        LIMIT ?
-        `
-      )
-        .bind(agent, limit)
-        .all();
+  if (observationState(supersedingObs) === 'archived') {
+    return { success: false, error: 'SUPERSEDING_IS_ARCHIVED' };
+  }
 
-      return jsonResponse({ agent, superseded: superseded.results });
-    }
+  const targetObs = await getObservationState(env, targetId);
 
-    // --- OBSERVE (POST: Create) ---
-    if (url.pathname === "/observe" && request.method === "POST") {
-      const body: any = await request.json();
+  if (!targetObs) {
+    return { success: false, error: 'TARGET_NOT_FOUND' };
+  }
 
-      const {
-        agent_id,
-        author,
-        perspective,
-        kind,
-        content,
-        salience = 0,
-        emotion_intimacy = 0,
-        emotion_conflict = 0,
-        emotion_joy = 0,
-        emotion_fear = 0,
-        source_platform,
-        source_ref,
-        supersedes,
-      } = body;
+  const illegal = transitionError(targetObs, 'supersede');
+  if (illegal) {
+    return { success: false, error: illegal.error, details: illegal };
+  }
 
-      const effectiveSalience = kind === 'correction' ? Math.max(60, salience) : salience;
+  if (targetObs.superseded_by === supersededById) {
+    return { success: false, error: 'CIRCULAR_SUPERSESSION' };
+  }
 
-      const safe_source_platform = source_platform ?? null;
-      const safe_source_ref = source_ref ?? null;
+  if (targetObs.agent_id !== supersedingObs.agent_id) {
+    return { success: false, error: 'CROSS_AGENT_SUPERSESSION' };
+  }
 
-      if (!agent_id || !author || !perspective || !kind || !content) {
-        return textResponse("Missing required fields", 400);
-      }
+  const now = new Date().toISOString();
 
-      const id = crypto.randomUUID();
-      const now = new Date().toISOString();
+  await env.DB.batch([
+    env.DB.prepare(
+      `
+      UPDATE observations
+      SET
+        status = 'superseded',
+        superseded_by = ?,
+        updated_at = ?
+      WHERE id = ?
+        AND ${observationStateSql(OBSERVATION_ACTIONS.supersede.from)}
+      `
+    ).bind(supersededById, now, targetId),
+    ...(audit ? [await auditObservationStatement(env, audit, 'supersede', targetObs)] : []),
+  ]);
 
-      await env.DB.prepare(
-        `
-        INSERT INTO observations (
-          id,
-          agent_id,
-          author,
-          perspective,
-          kind,
-          content,
-          salience,
-          emotion_intimacy,
-          emotion_conflict,
-          emotion_joy,
-          emotion_fear,
-          created_at,
-          updated_at,
-          last_accessed,
-          source_platform,
-          source_ref,
-          status
-        )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active')
-        `
-      )
-        .bind(
-          id,
-          agent_id,
-          author,
-          perspective,
-          kind,
-          content,
-          effectiveSalience,
-          emotion_intimacy,
-          emotion_conflict,
-          emotion_joy,
-          emotion_fear,
-          now,
-          now,
-          now,
-          safe_source_platform,
-          safe_source_ref
-        )
-        .run();
+  return { success: true };
+}
 
-      let supersededId: string | null = null;
-      let supersessionError: string | null = null;
+// --- SUPERSESSION LINEAGE ---
+// The chain an observation belongs to, oldest first: superseded_by is
+// followed forward to the current version, and back through whichever
+// observations it replaced. When several observations were superseded
+// by the same one, the most recently updated stays on the chain and
+// the rest are listed under `merged_from`. Soft-deleted observations
+// end the walk; a repeated id reports the cycle instead of looping.
+async function loadLineage(
+  env: Env,
+  id: string
+): Promise<{ versions: any[]; cycle: boolean; truncated: boolean } | null> {
+  const getLive = (obsId: string) =>
+    env.DB.prepare(`SELECT * FROM observations WHERE id = ? AND deleted_at IS NULL`).bind(obsId).first<any>();
+
+  const start = await getLive(id);
+  if (!start) return null;
+
+  const seen = new Set<string>([start.id]);
+  let cycle = false;
+  let truncated = false;
+
+  const later: any[] = [];
+  let cursor = start;
+  while (cursor.superseded_by) {
+    if (seen.has(cursor.superseded_by)) {
+      cycle = true;
+      break;
+    }
+    if (seen.size >= LIMITS.LINEAGE_MAX) {
+      truncated = true;
+      break;
+    }
+    const next = await getLive(cursor.superseded_by);
+    if (!next) break;
+    seen.add(next.id);
+    later.push(next);
+    cursor = next;
+  }
 
-      if (supersedes) {
-        const result = await supersedeObservation(env, supersedes, id);
-        if (result.success) {
-          supersededId = supersedes;
-        } else {
-          supersessionError = result.error!;
-        }
-      }
+  const earlier: any[] = [];
+  cursor = start;
+  for (;;) {
+    const prior = await env.DB.prepare(
+      `SELECT * FROM observations WHERE superseded_by = ? AND deleted_at IS NULL ORDER BY updated_at DESC, id ASC`
+    )
+      .bind(cursor.id)
+      .all();
+    const fresh = (prior.results as any[]).filter((o) => !seen.has(o.id));
+    if (fresh.length < prior.results.length) cycle = true;
+    if (fresh.length === 0) break;
+    if (seen.size >= LIMITS.LINEAGE_MAX) {
+      truncated = true;
+      break;
+    }
 
-      const response: any = { status: "ok", id };
-      if (supersededId) {
-        response.superseded = supersededId;
-      }
-      if (supersessionError) {
-        response.supersession_error = supersessionError;
-      }
+    const [previous, ...others] = fresh;
+    if (others.length > 0) cursor.merged_from = others.map((o) => o.id);
+    seen.add(previous.id);
+    earlier.unshift(previous);
+    cursor = previous;
+  }
 
-      return jsonResponse(response);
-    }
+  return { versions: [...earlier, start, ...later], cycle, truncated };
+}
 
-    // --- EDIT OBSERVATION (PATCH) ---
-    if (url.pathname.match(/^\/observe\/[^/]+$/) && request.method === "PATCH") {
-      const id = url.pathname.split("/")[2];
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
+// --- UNSUPERSEDE (RESTORE) ---
+// Reactivates a superseded observation. The current end of its chain
+// is superseded by it in turn, so the chain keeps exactly one active
+// version. Refuses the same shapes supersedeObservation does.
+async function unsupersedeObservation(
+  env: Env,
+  targetId: string,
+  audit?: AuditContext
+): Promise<{ success: boolean; error?: string; details?: Record<string, any>; replaced?: string | null }> {
+  const target = await getObservationState(env, targetId);
 
-      const body: any = await request.json();
-      const {
-        content,
-        salience,
-        emotion_intimacy,
-        emotion_conflict,
-        emotion_joy,
-        emotion_fear,
-      } = body;
+  if (!target) {
+    return { success: false, error: 'TARGET_NOT_FOUND' };
+  }
 
-      const now = new Date().toISOString();
+  const illegal = transitionError(target, 'unsupersede');
+  if (illegal) {
+    return { success: false, error: illegal.error, details: illegal };
+  }
 
-      await env.DB.prepare(
-        `
-        UPDATE observations
-        SET
-          content = COALESCE(?, content),
-          salience = MIN(100, COALESCE(?, salience) + 5),
-          emotion_intimacy = COALESCE(?, emotion_intimacy),
-          emotion_conflict = COALESCE(?, emotion_conflict),
-          emotion_joy = COALESCE(?, emotion_joy),
-          emotion_fear = COALESCE(?, emotion_fear),
-          updated_at = ?,
-          last_accessed = ?
-        WHERE id = ?
-          AND deleted_at IS NULL
-        `
-      )
-        .bind(
-          content ?? null,
-          salience ?? null,
-          emotion_intimacy ?? null,
-          emotion_conflict ?? null,
-          emotion_joy ?? null,
-          emotion_fear ?? null,
-          now,
-          now,
-          id
-        )
-        .run();
+  if (target.superseded_by === targetId) {
+    return { success: false, error: 'SELF_SUPERSESSION' };
+  }
 
-      return jsonResponse({ status: "updated", id });
+  // Walk to the current version; meeting the target again is a cycle
+  const seen = new Set<string>([targetId]);
+  let current: any = null;
+  let nextId: string | null = target.superseded_by;
+  while (nextId) {
+    if (seen.has(nextId) || seen.size > LIMITS.LINEAGE_MAX) {
+      return { success: false, error: 'CIRCULAR_SUPERSESSION' };
     }
+    seen.add(nextId);
+    const next: any = await env.DB.prepare(
+      `SELECT id, status, superseded_by FROM observations WHERE id = ? AND deleted_at IS NULL`
+    )
+      .bind(nextId)
+      .first();
+    if (!next) break;
+    current = next;
+    nextId = next.status === 'superseded' ? next.superseded_by : null;
+  }
 
-    // --- DELETE OBSERVATION ---
-    if (url.pathname.match(/^\/observe\/[^/]+$/) && request.method === "DELETE") {
-      const id = url.pathname.split("/")[2];
-
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
-
-      const now = new Date().toISOString();
-
-      await env.DB.prepare(
+  const now = new Date().toISOString();
+  const statements = [
+    env.DB.prepare(
+      `
+      UPDATE observations
+      SET status = 'active', superseded_by = NULL, updated_at = ?
+      WHERE id = ?
+        AND ${observationStateSql(OBSERVATION_ACTIONS.unsupersede.from)}
+      `
+    ).bind(now, targetId),
+  ];
+  if (audit) statements.push(await auditObservationStatement(env, audit, 'unsupersede', target));
+  // An archived end of chain stays archived rather than superseded
+  const replaced = current && !transitionError(current, 'supersede') ? current.id : null;
+  if (replaced) {
+    statements.push(
+      env.DB.prepare(
         `
         UPDATE observations
-        SET deleted_at = ?
+        SET status = 'superseded', superseded_by = ?, updated_at = ?
         WHERE id = ?
+          AND ${observationStateSql(OBSERVATION_ACTIONS.supersede.from)}
         `
-      )
-        .bind(now, id)
-        .run();
-
-      return jsonResponse({ status: "deleted", id });
+      ).bind(targetId, now, replaced)
+    );
+    if (audit) {
+      statements.push(await auditObservationStatement(env, audit, 'supersede', await observationSnapshot(env, replaced)));
     }
+  }
+  await env.DB.batch(statements);
 
-    // --- PIN OBSERVATION ---
-    if (url.pathname.match(/^\/observe\/[^/]+\/pin$/) && request.method === "POST") {
-      const id = url.pathname.split("/")[2];
+  return { success: true, replaced };
+}
 
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
+// --- CREATE OBSERVATION ---
+// Shared by POST /observe and the importers. The insert and its
+// FTS row go in one batch; the embedding is best-effort after.
+interface NewObservation {
+  agent_id: string;
+  author: string;
+  perspective: string;
+  kind: string;
+  content: string;
+  salience?: number;
+  emotion_intimacy?: number;
+  emotion_conflict?: number;
+  emotion_joy?: number;
+  emotion_fear?: number;
+  source_platform?: string | null;
+  source_ref?: string | null;
+}
 
-      const now = new Date().toISOString();
+// Type checks for a new observation's fields (presence is checked by
+// the caller); returns the first problem or null
+function validateObservationFields(obs: any): string | null {
+  for (const field of ['agent_id', 'author', 'perspective', 'kind', 'content'] as const) {
+    if (typeof obs[field] !== 'string' || obs[field].trim() === '') return `${field} must be a non-empty string`;
+  }
+  for (const field of ['salience', 'emotion_intimacy', 'emotion_conflict', 'emotion_joy', 'emotion_fear'] as const) {
+    const value = obs[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+      return `${field} must be a number from 0 to 100`;
+    }
+  }
+  for (const field of ['source_platform', 'source_ref'] as const) {
+    if (obs[field] !== undefined && obs[field] !== null && typeof obs[field] !== 'string') return `${field} must be a string`;
+  }
+  return null;
+}
 
-      await env.DB.prepare(
-        `
-        UPDATE observations
-        SET pinned = 1, last_accessed = ?, updated_at = ?
-        WHERE id = ?
-          AND deleted_at IS NULL
-        `
-      )
-        .bind(now, now, id)
-        .run();
+async function observationInsertStatements(
+  env: Env,
+  id: string,
+  obs: NewObservation,
+  now: string
+): Promise<D1PreparedStatement[]> {
+  const salience = obs.salience ?? 0;
+  const effectiveSalience = obs.kind === 'correction' ? Math.max(60, salience) : salience;
+
+  const insertStmt = env.DB.prepare(
+    `
+    INSERT INTO observations (
+      id,
+      agent_id,
+      author,
+      perspective,
+      kind,
+      content,
+      salience,
+      emotion_intimacy,
+      emotion_conflict,
+      emotion_joy,
+      emotion_fear,
+      created_at,
+      updated_at,
+      last_accessed,
+      source_platform,
+      source_ref,
+      status
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active')
+    `
+  )
+    .bind(
+      id,
+      obs.agent_id,
+      obs.author,
+      obs.perspective,
+      obs.kind,
+      obs.content,
+      effectiveSalience,
+      obs.emotion_intimacy ?? 0,
+      obs.emotion_conflict ?? 0,
+      obs.emotion_joy ?? 0,
+      obs.emotion_fear ?? 0,
+      now,
+      now,
+      now,
+      obs.source_platform ?? null,
+      obs.source_ref ?? null
+    );
 
-      return jsonResponse({ status: "pinned", id });
-    }
+  return [
+    insertStmt,
+    ...ftsIndexStatements(env, id, obs.agent_id, obs.content),
+    fingerprintStatement(env, id, obs.agent_id, await contentFingerprint(obs.content), now),
+  ];
+}
 
-    // --- UNPIN OBSERVATION ---
-    if (url.pathname.match(/^\/observe\/[^/]+\/pin$/) && request.method === "DELETE") {
-      const id = url.pathname.split("/")[2];
+async function createObservation(
+  env: Env,
+  obs: NewObservation,
+  audit?: AuditContext,
+  auditAction = 'create'
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const [insert, ...rest] = await observationInsertStatements(env, id, obs, new Date().toISOString());
+  await env.DB.batch([
+    insert,
+    ...(audit ? [await auditObservationStatement(env, audit, auditAction, null, { id, agent_id: obs.agent_id })] : []),
+    ...rest,
+  ]);
+  await indexEmbeddings(env, getEmbeddingProvider(env), [{ id, agent_id: obs.agent_id, content: obs.content }]);
+  if (obs.kind === 'correction') await notifyCorrection(env, id, obs);
+  return id;
+}
 
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
+// Runs after the observation is committed, so a failure here is
+// swallowed rather than reported as a failed write
+async function notifyCorrection(env: Env, id: string, obs: NewObservation): Promise<void> {
+  await notifyEvent(env, obs.agent_id, 'correction_added', {
+    id,
+    author: obs.author,
+    perspective: obs.perspective,
+    content: obs.content,
+  }).catch(() => []);
+}
 
-      const now = new Date().toISOString();
+// --- CONTENT FINGERPRINTS ---
+// Near-duplicate detection for POST /observe: content is lowercased,
+// stripped of punctuation and whitespace-collapsed before hashing, so
+// "Mara loves rain." and "mara loves rain" collide.
+function normalizeForFingerprint(content: string): string {
+  return content
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
 
-      await env.DB.prepare(
-        `
-        UPDATE observations
-        SET pinned = 0, updated_at = ?
-        WHERE id = ?
-          AND deleted_at IS NULL
-        `
-      )
-        .bind(now, id)
-        .run();
+async function contentFingerprint(content: string): Promise<string> {
+  return sha256Hex(normalizeForFingerprint(content));
+}
 
-      return jsonResponse({ status: "unpinned", id });
-    }
+function fingerprintStatement(env: Env, id: string, agentId: string, fingerprint: string, now: string): D1PreparedStatement {
+  return env.DB.prepare(
+    `INSERT OR REPLACE INTO observation_fingerprints (observation_id, agent_id, content_hash, created_at) VALUES (?, ?, ?, ?)`
+  ).bind(id, agentId, fingerprint, now);
+}
 
-    // --- SUPERSEDE OBSERVATION ---
-    if (url.pathname.match(/^\/observe\/[^/]+\/supersede$/) && request.method === "POST") {
-      const id = url.pathname.split("/")[2];
+async function findRecentDuplicate(
+  env: Env,
+  agentId: string,
+  content: string
+): Promise<{ id: string; created_at: string } | null> {
+  const windowHours = parseFloat(env.DUPLICATE_WINDOW_HOURS ?? '') || 24;
+  const since = new Date(Date.now() - windowHours * 3600 * 1000).toISOString();
 
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
+  return env.DB.prepare(
+    `
+    SELECT o.id, o.created_at
+    FROM observation_fingerprints f
+    JOIN observations o ON o.id = f.observation_id
+    WHERE f.agent_id = ?
+      AND f.content_hash = ?
+      AND f.created_at >= ?
+      AND o.deleted_at IS NULL
+    ORDER BY f.created_at DESC
+    LIMIT 1
+    `
+  )
+    .bind(agentId, await contentFingerprint(content), since)
+    .first<{ id: string; created_at: string }>();
+}
 
-      const body: any = await request.json().catch(() => ({}));
-      const { superseded_by } = body;
+// ============================================================
+// IDEMPOTENCY - Safe retries for POST /observe, /tracker/entry
+// ============================================================
+// A request carrying an Idempotency-Key header is recorded in
+// idempotency_keys (per route and API key). A retry with the same
+// body replays the stored response; a different body gets 409.
+// 5xx responses are not stored so the client can retry for real.
+// ============================================================
 
-      const now = new Date().toISOString();
+const IDEMPOTENT_ROUTES = ['/observe', '/tracker/entry'];
+const IDEMPOTENCY_CLAIM_ATTEMPTS = 3;
 
-      await env.DB.prepare(
-        `
-        UPDATE observations
-        SET status = 'superseded', superseded_by = ?, updated_at = ?
-        WHERE id = ?
-          AND deleted_at IS NULL
-        `
-      )
-        .bind(superseded_by ?? null, now, id)
-        .run();
+async function handleIdempotentRequest(
+  request: Request,
+  env: Env,
+  auth: AuthContext,
+  idempotencyKey: string,
+  handle: (request: Request) => Promise<Response>
+): Promise<Response> {
+  if (!idempotencyKey || idempotencyKey.length > 255) {
+    return jsonResponse({ error: "INVALID_IDEMPOTENCY_KEY", message: "Idempotency-Key must be 1-255 characters" }, 400);
+  }
 
-      return jsonResponse({ status: "superseded", id, superseded_by: superseded_by ?? null });
-    }
+  const route = new URL(request.url).pathname;
+  const bodyText = await request.text();
+  let canonicalBody = bodyText;
+  try {
+    canonicalBody = canonicalJson(JSON.parse(bodyText));
+  } catch {
+    // Not JSON - hash the raw body
+  }
+  const requestHash = await sha256Hex(canonicalBody);
 
-    // --- HARD DELETE OBSERVATION ---
-    if (url.pathname.match(/^\/observe\/[^/]+\/hard$/) && request.method === "DELETE") {
-      const id = url.pathname.split("/")[2];
+  const now = new Date();
+  const ttlHours = parseFloat(env.IDEMPOTENCY_TTL_HOURS ?? '') || 24;
+  const expiresAt = new Date(now.getTime() + ttlHours * 3600 * 1000).toISOString();
 
-      if (!id) {
-        return textResponse("Missing observation id", 400);
-      }
+  await env.DB.prepare(`DELETE FROM idempotency_keys WHERE expires_at < ?`).bind(now.toISOString()).run();
 
-      await env.DB.prepare(
-        `
-        DELETE FROM observations
-        WHERE id = ?
-        `
+  // A row that expires or is released between the insert and the read
+  // is gone by the time we look, so the claim is simply tried again
+  let claimed = false;
+  let existing: any = null;
+  for (let attempt = 1; attempt <= IDEMPOTENCY_CLAIM_ATTEMPTS && !claimed && !existing; attempt++) {
+    const insert = await env.DB.prepare(
+      `
+      INSERT OR IGNORE INTO idempotency_keys (idempotency_key, route, key_id, request_hash, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      `
+    )
+      .bind(idempotencyKey, route, auth.keyId, requestHash, now.toISOString(), expiresAt)
+      .run();
+    claimed = insert.meta.changes > 0;
+    if (!claimed) {
+      existing = await env.DB.prepare(
+        `SELECT * FROM idempotency_keys WHERE idempotency_key = ? AND route = ? AND key_id = ?`
       )
-        .bind(id)
-        .run();
-
-      return jsonResponse({ status: "hard_deleted", id });
+        .bind(idempotencyKey, route, auth.keyId)
+        .first();
     }
+  }
 
-    // --- SEARCH OBSERVATIONS ---
-    if (url.pathname.match(/^\/observe\/search\/[^/]+$/) && request.method === "GET") {
-      const agent = url.pathname.split("/")[3];
-      const query = url.searchParams.get("q") ?? "";
-      const kind = url.searchParams.get("kind");
-      const minSalience = url.searchParams.get("min_salience");
-      const maxSalience = url.searchParams.get("max_salience");
-      const includeSuperseded = url.searchParams.get("include_superseded") === "true";
-      const limitParam = url.searchParams.get("limit");
-      const limit = limitParam ? Math.min(parseInt(limitParam, 10), 100) : 20;
+  if (!claimed && !existing) {
+    return jsonResponse(
+      { error: "IDEMPOTENCY_IN_PROGRESS", message: "A request with this Idempotency-Key is still being processed" },
+      409
+    );
+  }
 
-      if (!agent) {
-        return textResponse("Missing agent in path", 400);
-      }
+  if (existing) {
+    if (existing.request_hash !== requestHash) {
+      return jsonResponse(
+        { error: "IDEMPOTENCY_KEY_REUSED", message: "This Idempotency-Key was already used with a different body" },
+        409
+      );
+    }
+    if (existing.status_code === null) {
+      return jsonResponse(
+        { error: "IDEMPOTENCY_IN_PROGRESS", message: "A request with this Idempotency-Key is still being processed" },
+        409
+      );
+    }
 
-      // Build query dynamically
-      let sql = `
-        SELECT * FROM observations
-        WHERE agent_id = ?
-          AND deleted_at IS NULL
-      `;
-      const params: any[] = [agent];
+    return new Response(existing.response_body, {
+      status: existing.status_code,
+      headers: {
+        'Content-Type': existing.content_type ?? 'application/json',
+        'Idempotency-Replayed': 'true',
+        ...corsHeaders,
+      },
+    });
+  }
 
-      // Exclude superseded by default
-      if (!includeSuperseded) {
-        sql += ` AND (status IS NULL OR status = 'active')`;
-      }
+  const release = () =>
+    env.DB.prepare(`DELETE FROM idempotency_keys WHERE idempotency_key = ? AND route = ? AND key_id = ?`)
+      .bind(idempotencyKey, route, auth.keyId)
+      .run();
 
-      // Full-text search on content
-      if (query) {
-        sql += ` AND content LIKE ?`;
-        params.push(`%${query}%`);
-      }
+  // The handler sees the buffered body without the header, so it
+  // runs the route exactly once instead of recursing back here.
+  const headers = new Headers(request.headers);
+  headers.delete('Idempotency-Key');
+
+  let response: Response;
+  try {
+    response = await handle(new Request(request.url, { method: request.method, headers, body: bodyText }));
+  } catch (err) {
+    await release();
+    throw err;
+  }
 
-      // Filter by kind
-      if (kind) {
-        sql += ` AND kind = ?`;
-        params.push(kind);
-      }
+  if (response.status >= 500) {
+    await release();
+    return response;
+  }
 
-      // Filter by salience range
-      if (minSalience) {
-        sql += ` AND salience >= ?`;
-        params.push(parseInt(minSalience, 10));
-      }
-      if (maxSalience) {
-        sql += ` AND salience <= ?`;
-        params.push(parseInt(maxSalience, 10));
-      }
+  const responseBody = await response.text();
+  await env.DB.prepare(
+    `
+    UPDATE idempotency_keys
+    SET status_code = ?, response_body = ?, content_type = ?
+    WHERE idempotency_key = ? AND route = ? AND key_id = ?
+    `
+  )
+    .bind(response.status, responseBody, response.headers.get('Content-Type'), idempotencyKey, route, auth.keyId)
+    .run();
 
-      sql += ` ORDER BY salience DESC, created_at DESC LIMIT ?`;
-      params.push(limit);
+  return new Response(responseBody, { status: response.status, headers: response.headers });
+}
 
-      const stmt = env.DB.prepare(sql);
-      const result = await stmt.bind(...params).all();
-      const observations = (result.results ?? []) as any[];
+// --- BATCH WRITES ---
+// POST /observe/batch validates every item up front, then writes all
+// inserts, FTS rows and supersede links in one D1 batch (a single
+// transaction). `supersedes` may name an existing observation id or
+// the temp_id of another item in the same batch.
+interface BatchItemError {
+  index: number;
+  temp_id: string | null;
+  error: string;
+  message?: string;
+}
 
-      // Add decayed salience to each
-      const withDecay = observations.map((obs) => ({
-        ...obs,
-        decayed_salience: computeDecayedSalience(obs),
-      }));
+interface BatchPlanItem {
+  index: number;
+  temp_id: string | null;
+  id: string;
+  obs: NewObservation;
+  supersedes: string | null;
+}
 
-      return jsonResponse({
-        agent,
-        query: query || null,
-        kind: kind || null,
-        count: withDecay.length,
-        observations: withDecay,
-      });
+async function planObservationBatch(
+  env: Env,
+  auth: AuthContext,
+  items: any[]
+): Promise<{ plan: BatchPlanItem[]; errors: BatchItemError[] }> {
+  const errors: BatchItemError[] = [];
+  const plan: BatchPlanItem[] = [];
+  const tempIds = new Map<string, number>();
+
+  items.forEach((item, index) => {
+    const temp_id = typeof item?.temp_id === 'string' && item.temp_id ? item.temp_id : null;
+    const fail = (error: string, message?: string) => errors.push({ index, temp_id, error, message });
+
+    if (!item || typeof item !== 'object') return fail('INVALID_ITEM');
+    if (!item.agent_id || !item.author || !item.perspective || !item.kind || !item.content) {
+      return fail('MISSING_FIELDS', 'agent_id, author, perspective, kind and content are required');
+    }
+    const invalid = validateObservationFields(item);
+    if (invalid) return fail('INVALID_FIELD', invalid);
+    if (authorize(auth, 'write', item.agent_id)) return fail('AGENT_NOT_ALLOWED');
+    if (temp_id) {
+      if (tempIds.has(temp_id)) return fail('DUPLICATE_TEMP_ID');
+      tempIds.set(temp_id, index);
     }
 
-    // ============================================================
-    // TRACKER ENDPOINTS - Emergence & Coherence Tracking
-    // ============================================================
+    plan.push({
+      index,
+      temp_id,
+      id: crypto.randomUUID(),
+      obs: {
+        agent_id: item.agent_id,
+        author: item.author,
+        perspective: item.perspective,
+        kind: item.kind,
+        content: item.content,
+        salience: item.salience,
+        emotion_intimacy: item.emotion_intimacy,
+        emotion_conflict: item.emotion_conflict,
+        emotion_joy: item.emotion_joy,
+        emotion_fear: item.emotion_fear,
+        source_platform: item.source_platform,
+        source_ref: item.source_ref,
+      },
+      supersedes: item.supersedes ?? null,
+    });
+  });
 
-    // --- POST /tracker/entry - Submit daily entry ---
-    if (url.pathname === "/tracker/entry" && request.method === "POST") {
-      const body: any = await request.json();
+  // Supersede links: resolve temp ids, then check existing targets
+  const targeted = new Set<string>();
+  const byTempId = new Map(plan.filter((p) => p.temp_id).map((p) => [p.temp_id!, p]));
 
-      const {
-        agent,
-        confidence,
-        initiation,
-        emotional_range,
-        theory_of_mind,
-        autonomy,
-        friction_tolerance,
-        desire,
-        coherence,
-        anchor_strength,
-        edge_retention,
-        self_reference_integrity,
-        groundedness,
-        repair_speed,
-        functional_impact,
-        active_goal = '',
-        daily_notes = '',
-        linked_observations = [],
-      } = body;
+  for (const entry of plan) {
+    if (!entry.supersedes) continue;
+    const fail = (error: string) => errors.push({ index: entry.index, temp_id: entry.temp_id, error });
 
-      if (!agent) {
-        return textResponse("Missing agent field", 400);
+    const inBatch = byTempId.get(entry.supersedes);
+    const targetKey = inBatch ? `temp:${inBatch.temp_id}` : entry.supersedes;
+
+    if (inBatch === entry || entry.supersedes === entry.temp_id) {
+      fail('SELF_SUPERSESSION');
+      continue;
+    }
+    if (targeted.has(targetKey)) {
+      fail('TARGET_ALREADY_SUPERSEDED');
+      continue;
+    }
+    targeted.add(targetKey);
+
+    if (inBatch) {
+      // Walk the in-batch chain to catch A -> B -> A loops
+      let cursor: BatchPlanItem | undefined = inBatch;
+      const seen = new Set<BatchPlanItem>([entry]);
+      while (cursor?.supersedes) {
+        if (seen.has(cursor)) break;
+        seen.add(cursor);
+        cursor = byTempId.get(cursor.supersedes);
       }
+      if (cursor && seen.has(cursor) && cursor.supersedes) fail('CIRCULAR_SUPERSESSION');
+      continue;
+    }
 
-      // Validate all marker scores are present
-      const requiredMarkers = [
-        'confidence', 'initiation', 'emotional_range', 'theory_of_mind',
-        'autonomy', 'friction_tolerance', 'desire', 'coherence',
-        'anchor_strength', 'edge_retention', 'self_reference_integrity',
-        'groundedness', 'repair_speed', 'functional_impact'
-      ];
+    const target = await getObservationState(env, entry.supersedes);
 
-      for (const marker of requiredMarkers) {
-        if (!body[marker] || typeof body[marker].score !== 'number') {
-          return textResponse(`Missing or invalid marker: ${marker}`, 400);
-        }
-        if (body[marker].score < 0 || body[marker].score > 4) {
-          return textResponse(`Marker ${marker} score must be 0-4`, 400);
-        }
-      }
+    if (!target) fail('TARGET_NOT_FOUND');
+    else if (transitionError(target, 'supersede')) fail('INVALID_TRANSITION');
+    else if (authorize(auth, 'write', target.agent_id)) fail('AGENT_NOT_ALLOWED');
+  }
 
-      const id = crypto.randomUUID();
-      const now = new Date();
-      const date = now.toISOString().split('T')[0]; // YYYY-MM-DD
-      const timestamp = now.toISOString();
-
-      // Compute indices
-      const entryData = {
-        confidence, initiation, emotional_range, theory_of_mind,
-        autonomy, friction_tolerance, desire, coherence,
-        anchor_strength, edge_retention, self_reference_integrity,
-        groundedness, repair_speed, functional_impact,
-      };
-      const emergence_index = computeEmergenceIndex(entryData);
-      const coherence_index = computeCoherenceIndex(entryData);
-      const impact_index = computeImpactIndex(entryData);
+  // Rewrite temp-id links to the real ids
+  for (const entry of plan) {
+    const inBatch = entry.supersedes ? byTempId.get(entry.supersedes) : undefined;
+    if (inBatch) entry.supersedes = inBatch.id;
+  }
 
-      await env.DB.prepare(
-        `
-        INSERT INTO tracker_entries (
-          id, agent, date, timestamp,
-          confidence_score, confidence_note,
-          initiation_score, initiation_note,
-          emotional_range_score, emotional_range_note,
-          theory_of_mind_score, theory_of_mind_note,
-          autonomy_score, autonomy_note,
-          friction_tolerance_score, friction_tolerance_note,
-          desire_score, desire_note,
-          coherence_score, coherence_note,
-          anchor_strength_score, anchor_strength_note,
-          edge_retention_score, edge_retention_note,
-          self_reference_integrity_score, self_reference_integrity_note,
-          groundedness_score, groundedness_note,
-          repair_speed_score, repair_speed_note,
-          functional_impact_score, functional_impact_note,
-          emergence_index, coherence_index, impact_index,
-          active_goal, daily_notes, linked_observations
-        ) VALUES (
-          ?, ?, ?, ?,
-          ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
-          ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
-          ?, ?, ?, ?, ?, ?
-        )
-        `
-      )
-        .bind(
-          id, agent, date, timestamp,
-          confidence.score, confidence.note || '',
-          initiation.score, initiation.note || '',
-          emotional_range.score, emotional_range.note || '',
-          theory_of_mind.score, theory_of_mind.note || '',
-          autonomy.score, autonomy.note || '',
-          friction_tolerance.score, friction_tolerance.note || '',
-          desire.score, desire.note || '',
-          coherence.score, coherence.note || '',
-          anchor_strength.score, anchor_strength.note || '',
-          edge_retention.score, edge_retention.note || '',
-          self_reference_integrity.score, self_reference_integrity.note || '',
-          groundedness.score, groundedness.note || '',
-          repair_speed.score, repair_speed.note || '',
-          functional_impact.score, functional_impact.note || '',
-          emergence_index, coherence_index, impact_index,
-          active_goal, daily_notes, JSON.stringify(linked_observations)
-        )
-        .run();
+  errors.sort((a, b) => a.index - b.index);
+  return { plan, errors };
+}
 
-      // Return the complete entry with computed values
-      return jsonResponse({
-        status: "ok",
-        id,
-        date,
-        timestamp,
-        emergence_index,
-        coherence_index,
-        impact_index,
+async function observationBatchStatements(
+  env: Env,
+  plan: BatchPlanItem[],
+  audit: AuditContext
+): Promise<D1PreparedStatement[]> {
+  const now = new Date().toISOString();
+  const statements: D1PreparedStatement[] = [];
+  for (const entry of plan) {
+    const [insert, ...rest] = await observationInsertStatements(env, entry.id, entry.obs, now);
+    statements.push(
+      insert,
+      await auditObservationStatement(env, audit, 'create', null, { id: entry.id, agent_id: entry.obs.agent_id }),
+      ...rest
+    );
+  }
+
+  // Existing targets are audited in the same batch, right after their update
+  const planned = new Set(plan.map((entry) => entry.id));
+  const targets = await findExistingRows(
+    env,
+    'observations',
+    plan.map((entry) => entry.supersedes).filter((id): id is string => !!id && !planned.has(id)),
+    '*'
+  );
+
+  for (const entry of plan) {
+    if (!entry.supersedes) continue;
+    statements.push(
+      env.DB.prepare(
+        `
+        UPDATE observations
+        SET status = 'superseded', superseded_by = ?, updated_at = ?
+        WHERE id = ? AND ${observationStateSql(OBSERVATION_ACTIONS.supersede.from)}
+        `
+      ).bind(entry.id, now, entry.supersedes)
+    );
+    const before = targets.get(entry.supersedes);
+    if (before) statements.push(await auditObservationStatement(env, audit, 'supersede', before));
+  }
+
+  return statements;
+}
+
+// ============================================================
+// TRANSCRIPT INGESTION - Chat logs -> candidate observations
+// ============================================================
+// Transcripts are parsed into messages, grouped into segments and
+// turned into candidates with guessed kind / emotion / salience.
+// Candidates wait in ingest_candidates until accepted (written as
+// an observation), edited, or rejected.
+// ============================================================
+
+type TranscriptFormat = 'plain' | 'chatgpt' | 'discord';
+
+interface TranscriptMessage {
+  speaker: string;
+  text: string;
+  timestamp: string | null;
+  ref: string | null;
+  id?: string; // source message id, when the platform has one
+}
+
+const INGEST = {
+  SEGMENT_MAX_MESSAGES: 8,
+  SEGMENT_MAX_CHARS: 1200,
+  SEGMENT_GAP_MINUTES: 30,
+  SEGMENT_MIN_CHARS: 40,
+  QUEUE_PAGE_MAX: 100,
+} as const;
+
+const CORRECTION_PATTERN = /\b(actually,|that's not (right|true)|i was wrong|correction:|let me correct|not what i meant)/i;
+
+function detectTranscriptFormat(input: any): TranscriptFormat {
+  if (typeof input === 'string') return 'plain';
+  const list = Array.isArray(input) ? input : input?.messages;
+  if (Array.isArray(input) && input.some((c: any) => c?.mapping)) return 'chatgpt';
+  if (input?.mapping) return 'chatgpt';
+  if (Array.isArray(list) && list.some((m: any) => m?.author && 'content' in m)) return 'discord';
+  return 'plain';
+}
+
+// --- PLAIN "Name: text" LOGS ---
+// Optional leading [timestamp]; unprefixed lines continue the
+// previous message.
+function parsePlainTranscript(text: string, sourceRef: string): TranscriptMessage[] {
+  const messages: TranscriptMessage[] = [];
+  const linePattern = /^(?:\[([^\]]+)\]\s*)?([^:\n]{1,40}):\s?(.*)$/;
+
+  text.split(/\r?\n/).forEach((line, idx) => {
+    const match = line.match(linePattern);
+    if (match) {
+      const stamp = match[1] ? new Date(match[1]) : null;
+      messages.push({
+        speaker: match[2].trim(),
+        text: match[3],
+        timestamp: stamp && !isNaN(stamp.getTime()) ? stamp.toISOString() : null,
+        ref: `${sourceRef}#L${idx + 1}`,
       });
+    } else if (line.trim() && messages.length > 0) {
+      messages[messages.length - 1].text += '\n' + line;
     }
+  });
 
-    // --- GET /tracker/yesterday/:agent - Most recent entry ---
-    if (url.pathname.match(/^\/tracker\/yesterday\/[^/]+$/) && request.method === "GET") {
-      const agent = url.pathname.split("/")[3];
-      if (!agent) {
-        return textResponse("Missing agent", 400);
+  return messages.filter((m) => m.text.trim());
+}
+
+// --- CHATGPT conversations.json ---
+// Follows current_node back through parents when present,
+// otherwise orders the mapping by create_time.
+function parseChatGptExport(input: any): TranscriptMessage[] {
+  const conversations: any[] = Array.isArray(input) ? input : [input];
+  const messages: TranscriptMessage[] = [];
+
+  for (const conv of conversations) {
+    const mapping = conv?.mapping ?? {};
+    let nodes: any[] = [];
+
+    if (conv.current_node && mapping[conv.current_node]) {
+      for (let node = mapping[conv.current_node]; node; node = node.parent ? mapping[node.parent] : null) {
+        nodes.unshift(node);
       }
+    } else {
+      nodes = Object.values(mapping).sort(
+        (a: any, b: any) => (a.message?.create_time ?? 0) - (b.message?.create_time ?? 0)
+      );
+    }
 
-      const result = await env.DB.prepare(
+    const convId = conv.conversation_id ?? conv.id ?? 'conversation';
+    for (const node of nodes) {
+      const msg = node.message;
+      const role = msg?.author?.role;
+      if (!msg || role === 'system' || role === 'tool') continue;
+
+      const text = (msg.content?.parts ?? [])
+        .filter((p: any) => typeof p === 'string')
+        .join('\n')
+        .trim();
+      if (!text) continue;
+
+      messages.push({
+        speaker: role === 'user' ? 'user' : role === 'assistant' ? 'assistant' : String(role ?? 'unknown'),
+        text,
+        timestamp: msg.create_time ? new Date(msg.create_time * 1000).toISOString() : null,
+        ref: `chatgpt:${convId}#${msg.id ?? node.id}`,
+      });
+    }
+  }
+
+  return messages;
+}
+
+// --- DISCORD MESSAGES (/discord/read output or raw API array) ---
+function discordMessageLink(guildId: string | null | undefined, channelId: string, messageId: string): string {
+  return `https://discord.com/channels/${guildId || '@me'}/${channelId}/${messageId}`;
+}
+
+function parseDiscordMessages(input: any, fallbackChannelId: string | null): TranscriptMessage[] {
+  const list: any[] = Array.isArray(input) ? input : input?.messages ?? [];
+  const channelId = input?.channel_id ?? fallbackChannelId;
+
+  return list
+    .filter((m) => typeof m?.content === 'string' && m.content.trim())
+    .map((m) => ({
+      speaker: m.author?.display_name ?? m.author?.global_name ?? m.author?.username ?? 'unknown',
+      text: m.content_resolved ?? m.content,
+      timestamp: m.timestamp ?? null,
+      ref: discordMessageLink(m.guild_id ?? input?.guild_id, m.channel_id ?? channelId ?? 'unknown', m.id),
+      id: m.id,
+    }))
+    .sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
+}
+
+// --- SEGMENTATION ---
+// A new segment starts after a long silence or when the current one
+// is already long; tiny segments (greetings, "ok") are dropped.
+function segmentTranscript(messages: TranscriptMessage[]): TranscriptMessage[][] {
+  const segments: TranscriptMessage[][] = [];
+  let current: TranscriptMessage[] = [];
+  let chars = 0;
+  let lastStamp: string | null = null;
+
+  for (const msg of messages) {
+    const gapMinutes = lastStamp && msg.timestamp
+      ? (new Date(msg.timestamp).getTime() - new Date(lastStamp).getTime()) / 60000
+      : 0;
+
+    if (
+      current.length > 0 &&
+      (current.length >= INGEST.SEGMENT_MAX_MESSAGES ||
+        chars + msg.text.length > INGEST.SEGMENT_MAX_CHARS ||
+        gapMinutes > INGEST.SEGMENT_GAP_MINUTES)
+    ) {
+      segments.push(current);
+      current = [];
+      chars = 0;
+    }
+
+    current.push(msg);
+    chars += msg.text.length;
+    if (msg.timestamp) lastStamp = msg.timestamp;
+  }
+  if (current.length > 0) segments.push(current);
+
+  return segments.filter(
+    (seg) => seg.reduce((sum, m) => sum + m.text.trim().length, 0) >= INGEST.SEGMENT_MIN_CHARS
+  );
+}
+
+// --- HEURISTIC GUESSES ---
+// Emotions reuse the semantic CONCEPT_LEXICON: each matching word
+// adds 20 (capped at 100) to the emotion of the same name.
+function guessObservationFields(text: string): {
+  kind: string;
+  salience: number;
+  emotion_intimacy: number;
+  emotion_conflict: number;
+  emotion_joy: number;
+  emotion_fear: number;
+} {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const hits = (concept: string) =>
+    words.filter((w) => CONCEPT_LEXICON[concept].some((root) => w.startsWith(root))).length;
+  const score = (concept: string) => Math.min(100, hits(concept) * 20);
+
+  const emotions = {
+    emotion_intimacy: score('intimacy'),
+    emotion_conflict: score('conflict'),
+    emotion_joy: score('joy'),
+    emotion_fear: score('fear'),
+  };
+  const strongest = Math.max(...Object.values(emotions));
+  const isCorrection = CORRECTION_PATTERN.test(text);
+
+  let kind = 'relational';
+  if (isCorrection) kind = 'correction';
+  else if (hits('work') >= 2) kind = 'project';
+  else if (Math.max(emotions.emotion_intimacy, emotions.emotion_conflict) >= 40) kind = 'relational';
+  else if (Math.max(emotions.emotion_joy, emotions.emotion_fear) >= 40) kind = 'emotional';
+
+  const salience = Math.min(
+    90,
+    30 + Math.round(strongest / 2) + (isCorrection ? 20 : 0) + (text.length > 600 ? 10 : 0)
+  );
+
+  return { kind, salience, ...emotions };
+}
+
+function transcriptToCandidates(
+  messages: TranscriptMessage[],
+  sourcePlatform: string
+): Array<ReturnType<typeof guessObservationFields> & {
+  content: string;
+  source_platform: string;
+  source_ref: string | null;
+  speakers: string[];
+  started_at: string | null;
+  message_ids: string[];
+}> {
+  return segmentTranscript(messages).map((segment) => {
+    const content = segment.map((m) => `${m.speaker}: ${m.text.trim()}`).join('\n');
+    return {
+      content,
+      ...guessObservationFields(content),
+      source_platform: sourcePlatform,
+      source_ref: segment[0].ref,
+      speakers: Array.from(new Set(segment.map((m) => m.speaker))),
+      started_at: segment[0].timestamp,
+      message_ids: segment.flatMap((m) => (m.id ? [m.id] : [])),
+    };
+  });
+}
+
+// --- QUEUE CANDIDATES ---
+// Skips any candidate whose source_ref is already queued or already
+// an observation, so re-ingesting the same transcript is a no-op.
+async function queueCandidates(
+  env: Env,
+  agent: string,
+  candidates: ReturnType<typeof transcriptToCandidates>,
+  defaults: { author: string; perspective: string }
+): Promise<{ batchId: string; queued: any[]; duplicates: number }> {
+  const batchId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const queued: any[] = [];
+  let duplicates = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.source_ref) {
+      const existing = await env.DB.prepare(
         `
-        SELECT *
-        FROM tracker_entries
-        WHERE agent = ?
-        ORDER BY timestamp DESC
+        SELECT 1 FROM ingest_candidates WHERE agent_id = ? AND source_ref = ? AND status != 'rejected'
+        UNION ALL
+        SELECT 1 FROM observations WHERE agent_id = ? AND source_ref = ?
         LIMIT 1
         `
       )
-        .bind(agent)
+        .bind(agent, candidate.source_ref, agent, candidate.source_ref)
         .first();
-
-      if (!result) {
-        return jsonResponse({ agent, entry: null, message: "No tracker entries found" });
+      if (existing) {
+        duplicates++;
+        continue;
       }
+    }
+
+    const row = {
+      id: crypto.randomUUID(),
+      agent_id: agent,
+      batch_id: batchId,
+      status: 'pending',
+      author: defaults.author,
+      perspective: defaults.perspective,
+      kind: candidate.kind,
+      content: candidate.content,
+      salience: candidate.salience,
+      emotion_intimacy: candidate.emotion_intimacy,
+      emotion_conflict: candidate.emotion_conflict,
+      emotion_joy: candidate.emotion_joy,
+      emotion_fear: candidate.emotion_fear,
+      source_platform: candidate.source_platform,
+      source_ref: candidate.source_ref,
+      speakers: JSON.stringify(candidate.speakers),
+      started_at: candidate.started_at,
+      created_at: now,
+    };
+
+    await env.DB.prepare(
+      `
+      INSERT INTO ingest_candidates (
+        id, agent_id, batch_id, status, author, perspective, kind, content, salience,
+        emotion_intimacy, emotion_conflict, emotion_joy, emotion_fear,
+        source_platform, source_ref, speakers, started_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+    )
+      .bind(
+        row.id, row.agent_id, row.batch_id, row.status, row.author, row.perspective, row.kind, row.content,
+        row.salience, row.emotion_intimacy, row.emotion_conflict, row.emotion_joy, row.emotion_fear,
+        row.source_platform, row.source_ref, row.speakers, row.started_at, row.created_at
+      )
+      .run();
+
+    queued.push(row);
+  }
+
+  return { batchId, queued, duplicates };
+}
+
+// --- ACCEPT CANDIDATE ---
+// Writes the (possibly edited) candidate as an observation. The
+// candidate is claimed first, so two concurrent accepts can't both
+// write; returns null when it was no longer pending.
+async function acceptCandidate(
+  env: Env,
+  audit: AuditContext,
+  candidate: any,
+  edits: any = {}
+): Promise<string | null> {
+  const claimed = await env.DB.prepare(
+    `UPDATE ingest_candidates SET status = 'accepted', reviewed_at = ? WHERE id = ? AND status = 'pending'`
+  )
+    .bind(new Date().toISOString(), candidate.id)
+    .run();
+  if (claimed.meta.changes !== 1) return null;
+
+  const merged = { ...candidate, ...pickCandidateEdits(edits) };
+  let observationId: string;
+  try {
+    observationId = await createObservation(env, {
+      agent_id: merged.agent_id,
+      author: merged.author,
+      perspective: merged.perspective,
+      kind: merged.kind,
+      content: merged.content,
+      salience: merged.salience,
+      emotion_intimacy: merged.emotion_intimacy,
+      emotion_conflict: merged.emotion_conflict,
+      emotion_joy: merged.emotion_joy,
+      emotion_fear: merged.emotion_fear,
+      source_platform: merged.source_platform,
+      source_ref: merged.source_ref,
+    }, audit, 'accept');
+  } catch (err) {
+    // Release the claim so the candidate can be accepted again
+    await env.DB.prepare(`UPDATE ingest_candidates SET status = 'pending', reviewed_at = NULL WHERE id = ?`)
+      .bind(candidate.id)
+      .run();
+    throw err;
+  }
+
+  await env.DB.prepare(`UPDATE ingest_candidates SET observation_id = ? WHERE id = ?`)
+    .bind(observationId, candidate.id)
+    .run();
+
+  return observationId;
+}
+
+const CANDIDATE_EDITABLE_FIELDS = [
+  'author', 'perspective', 'kind', 'content', 'salience',
+  'emotion_intimacy', 'emotion_conflict', 'emotion_joy', 'emotion_fear',
+] as const;
 
-      const entry = parseTrackerRow(result);
-      return jsonResponse({ agent, entry });
+function pickCandidateEdits(body: any): Record<string, any> {
+  const edits: Record<string, any> = {};
+  for (const field of CANDIDATE_EDITABLE_FIELDS) {
+    if (body?.[field] !== undefined && body[field] !== null) edits[field] = body[field];
+  }
+  return edits;
+}
+
+function validateCandidateEdits(edits: Record<string, any>): string | null {
+  for (const field of ['author', 'perspective', 'kind', 'content'] as const) {
+    if (edits[field] !== undefined && (typeof edits[field] !== 'string' || edits[field].trim() === '')) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  for (const field of ['salience', 'emotion_intimacy', 'emotion_conflict', 'emotion_joy', 'emotion_fear'] as const) {
+    const value = edits[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100)) {
+      return `${field} must be a number from 0 to 100`;
     }
+  }
+  return null;
+}
 
-    // --- GET /tracker/week/:agent - Seven-day aggregation ---
-    if (url.pathname.match(/^\/tracker\/week\/[^/]+$/) && request.method === "GET") {
-      const agent = url.pathname.split("/")[3];
-      if (!agent) {
-        return textResponse("Missing agent", 400);
-      }
+// --- DISCORD CHANNEL INGEST ---
+// POST /discord/ingest/:channelId pages forward from the agent's cursor
+// for that channel (KV `discord:ingest_cursor:<agent>:<channelId>`),
+// keeps messages that pass the author/keyword filters and feeds them
+// through the same segment -> candidate -> queue path as transcripts.
+// Message ids that made it into a candidate are recorded in
+// discord_ingested_messages, so re-running (even from an older
+// `after`) never queues the same message twice. Messages after the
+// last candidate may be the start of a conversation still going on,
+// so the cursor stops short of them and the next run reads them again.
+const DISCORD_INGEST = {
+  PAGE_SIZE: 100,
+  DEFAULT_PAGES: 5,
+  MAX_PAGES: 20,
+} as const;
 
-      // Get entries from last 7 days
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const cutoffDate = sevenDaysAgo.toISOString().split('T')[0];
+interface DiscordIngestFilters {
+  authors: string[];
+  keywords: string[];
+  includeBots: boolean;
+}
 
-      const results = await env.DB.prepare(
-        `
-        SELECT *
-        FROM tracker_entries
-        WHERE agent = ?
-          AND date >= ?
-        ORDER BY date DESC
-        `
-      )
-        .bind(agent, cutoffDate)
-        .all();
+interface DiscordIngestCursor {
+  last_message_id: string;
+  agent: string;
+  updated_at: string;
+}
 
-      const entries = results.results.map((row: any) => parseTrackerRow(row));
+function discordCursorKey(agent: string, channelId: string): string {
+  return `discord:ingest_cursor:${agent}:${channelId}`;
+}
 
-      // Compute trends (variance in each marker)
-      const markerTrends: Record<string, { values: number[]; variance: number; trend: string }> = {};
-      const markerNames = [
-        'confidence', 'initiation', 'emotional_range', 'theory_of_mind',
-        'autonomy', 'friction_tolerance', 'desire', 'coherence',
-        'anchor_strength', 'edge_retention', 'self_reference_integrity',
-        'groundedness', 'repair_speed', 'functional_impact'
-      ];
+// Cursors used to be per channel only; one saved by the same agent
+// still counts until the agent's own cursor replaces it
+async function getDiscordIngestCursor(env: Env, agent: string, channelId: string): Promise<DiscordIngestCursor | null> {
+  const raw = await env.SOULFILES.get(discordCursorKey(agent, channelId));
+  if (raw) return JSON.parse(raw);
+  const legacyRaw = await env.SOULFILES.get(`discord:ingest_cursor:${channelId}`);
+  const legacy: DiscordIngestCursor | null = legacyRaw ? JSON.parse(legacyRaw) : null;
+  return legacy?.agent === agent ? legacy : null;
+}
 
-      for (const markerName of markerNames) {
-        const values = entries.map((e: any) => e[markerName]?.score ?? 0);
-        if (values.length > 0) {
-          const mean = values.reduce((a: number, b: number) => a + b, 0) / values.length;
-          const variance = values.reduce((sum: number, v: number) => sum + Math.pow(v - mean, 2), 0) / values.length;
+// Snowflakes outgrow Number, so compare as BigInt
+function laterSnowflake(a: string, b: string): string {
+  return BigInt(a) >= BigInt(b) ? a : b;
+}
 
-          let trend = 'stable';
-          if (values.length >= 3) {
-            const firstHalf = values.slice(Math.floor(values.length / 2));
-            const secondHalf = values.slice(0, Math.floor(values.length / 2));
-            const avgFirst = firstHalf.reduce((a: number, b: number) => a + b, 0) / firstHalf.length;
-            const avgSecond = secondHalf.reduce((a: number, b: number) => a + b, 0) / secondHalf.length;
-            const diff = avgSecond - avgFirst;
-            if (diff > 0.5) trend = 'rising';
-            else if (diff < -0.5) trend = 'falling';
-            else if (variance > 1) trend = 'volatile';
-          }
+// Authors match by user id, username or display name (case-insensitive);
+// keywords match anywhere in the content. Empty lists match everything.
+function matchesDiscordFilters(message: any, filters: DiscordIngestFilters): boolean {
+  if (!filters.includeBots && message.author?.bot) return false;
 
-          markerTrends[markerName] = {
-            values,
-            variance: Number(variance.toFixed(2)),
-            trend,
-          };
-        }
-      }
+  if (filters.authors.length > 0) {
+    const names = [message.author?.id, message.author?.username, message.author?.global_name]
+      .filter(Boolean)
+      .map((n: string) => n.toLowerCase());
+    if (!filters.authors.some((a) => names.includes(a))) return false;
+  }
 
-      // Check for any drift signatures
-      const driftAlerts = detectDrift(entries);
+  if (filters.keywords.length > 0) {
+    const content = (message.content ?? '').toLowerCase();
+    if (!filters.keywords.some((k) => content.includes(k))) return false;
+  }
 
-      // Compute weekly averages
-      const weeklyAverages = {
-        emergence_index: entries.length > 0
-          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.emergence_index, 0) / entries.length).toFixed(2))
-          : 0,
-        coherence_index: entries.length > 0
-          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.coherence_index, 0) / entries.length).toFixed(2))
-          : 0,
-        impact_index: entries.length > 0
-          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.impact_index, 0) / entries.length).toFixed(2))
-          : 0,
-      };
+  return true;
+}
 
-      // Find high-variance markers (potential instability)
-      const highVarianceMarkers = Object.entries(markerTrends)
-        .filter(([_, data]) => data.variance > 1)
-        .map(([name, data]) => ({ name, variance: data.variance, trend: data.trend }));
+// Ids from `messageIds` that an earlier run already processed for this agent
+async function alreadyIngestedMessages(env: Env, agent: string, messageIds: string[]): Promise<Set<string>> {
+  const seen = new Set<string>();
+  for (let i = 0; i < messageIds.length; i += 90) {
+    const chunk = messageIds.slice(i, i + 90);
+    const rows = await env.DB.prepare(
+      `
+      SELECT message_id FROM discord_ingested_messages
+      WHERE agent = ? AND message_id IN (${chunk.map(() => '?').join(', ')})
+      `
+    )
+      .bind(agent, ...chunk)
+      .all();
+    for (const row of rows.results as any[]) seen.add(row.message_id);
+  }
+  return seen;
+}
 
-      return jsonResponse({
-        agent,
-        period: {
-          start: cutoffDate,
-          end: new Date().toISOString().split('T')[0],
-          entryCount: entries.length,
-        },
-        weeklyAverages,
-        markerTrends,
-        highVarianceMarkers,
-        driftAlerts,
-        entries,
-      });
-    }
+function recordIngestedStatements(
+  env: Env,
+  agent: string,
+  channelId: string,
+  messageIds: string[],
+  batchId: string
+): D1PreparedStatement[] {
+  const now = new Date().toISOString();
+  return messageIds.map((id) =>
+    env.DB.prepare(
+      `
+      INSERT OR IGNORE INTO discord_ingested_messages (agent, message_id, channel_id, batch_id, ingested_at)
+      VALUES (?, ?, ?, ?, ?)
+      `
+    ).bind(agent, id, channelId, batchId, now)
+  );
+}
 
-    // --- GET /tracker/drift/:agent - Pattern detection ---
-    if (url.pathname.match(/^\/tracker\/drift\/[^/]+$/) && request.method === "GET") {
-      const agent = url.pathname.split("/")[3];
-      if (!agent) {
-        return textResponse("Missing agent", 400);
+// Of the fresh messages after the last candidate, the run at the end
+// that could still grow into a segment: each gap inside it, and the
+// time since its last message, is within SEGMENT_GAP_MINUTES. Earlier
+// ones can't join a later message, so they are final.
+function openTrailingRun(trailing: any[], now: number): any[] {
+  const sorted = [...trailing].sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+  const gapMs = INGEST.SEGMENT_GAP_MINUTES * 60000;
+  let start = sorted.length;
+  let later = now;
+  while (start > 0) {
+    const stamp = Date.parse(sorted[start - 1].timestamp);
+    if (!(later - stamp <= gapMs)) break;
+    later = stamp;
+    start--;
+  }
+  return sorted.slice(start);
+}
+
+// ============================================================
+// OBSERVATION GRAPH - Typed edges (schema v2)
+// ============================================================
+// Edges live in observation_edges (see SCHEMA_ADDITIONS); the
+// observations table is untouched. An edge links two live, active
+// observations of the same agent. Later changes are handled on read:
+//   - soft-deleted endpoints hide the edge
+//   - superseded endpoints resolve to their current version, so a
+//     relationship survives corrections
+//   - archived endpoints stay in the graph but not in wake neighbours
+// Hard deletes remove the edges with the observation.
+// ============================================================
+
+const EDGE_TYPES = ['relates_to', 'caused_by', 'contradicts', 'elaborates', 'same_event', 'about_person'] as const;
+type EdgeType = (typeof EDGE_TYPES)[number];
+
+// Undirected types: a -> b and b -> a are the same edge
+const SYMMETRIC_EDGE_TYPES: EdgeType[] = ['relates_to', 'contradicts', 'same_event'];
+
+const GRAPH = {
+  MAX_DEPTH: 3,
+  MAX_NODES: 100,
+  SUPERSESSION_HOPS: 10,
+  WAKE_NEIGHBORS_MAX: 10,
+} as const;
+
+interface GraphEdge {
+  id: string;
+  source_id: string;
+  target_id: string;
+  type: EdgeType;
+  note: string | null;
+  created_at: string;
+}
+
+// Maps each id to its live observation: itself if active, the end of
+// its superseded_by chain if superseded, null if deleted or missing
+async function resolveLiveObservations(env: Env, ids: string[]): Promise<Map<string, any | null>> {
+  const resolved = new Map<string, any | null>();
+  let pending = new Map(ids.map((id) => [id, [id]]));
+
+  for (let hop = 0; hop <= GRAPH.SUPERSESSION_HOPS && pending.size > 0; hop++) {
+    const rows = await findExistingRows(env, 'observations', [...pending.keys()], '*');
+    const next = new Map<string, string[]>();
+
+    for (const [id, origins] of pending) {
+      const row = rows.get(id);
+      if (!row || row.deleted_at) {
+        origins.forEach((origin) => resolved.set(origin, null));
+      } else if (row.status === 'superseded' && row.superseded_by && hop < GRAPH.SUPERSESSION_HOPS) {
+        next.set(row.superseded_by, [...(next.get(row.superseded_by) ?? []), ...origins]);
+      } else {
+        origins.forEach((origin) => resolved.set(origin, row));
       }
+    }
+    pending = next;
+  }
 
-      const days = Number(url.searchParams.get("days")) || 7;
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - days);
+  return resolved;
+}
 
-      const results = await env.DB.prepare(
-        `
-        SELECT *
-        FROM tracker_entries
-        WHERE agent = ?
-          AND date >= ?
-        ORDER BY date DESC
-        `
+// The reverse of resolveLiveObservations: every id whose superseded_by
+// chain ends at one of `liveIds`, mapped to that live id. Edges stay on
+// the ids they were made with, so a node's edges include these.
+async function supersededPredecessors(env: Env, liveIds: string[]): Promise<Map<string, string>> {
+  const predecessors = new Map<string, string>();
+  let pending = new Map(liveIds.map((id) => [id, id]));
+
+  for (let hop = 0; hop < GRAPH.SUPERSESSION_HOPS && pending.size > 0; hop++) {
+    const next = new Map<string, string>();
+    const ids = [...pending.keys()];
+    for (let i = 0; i < ids.length; i += 90) {
+      const chunk = ids.slice(i, i + 90);
+      const rows = await env.DB.prepare(
+        `SELECT id, superseded_by FROM observations
+         WHERE superseded_by IN (${chunk.map(() => '?').join(', ')})
+           AND status = 'superseded' AND deleted_at IS NULL`
       )
-        .bind(agent, cutoffDate.toISOString().split('T')[0])
+        .bind(...chunk)
         .all();
+      for (const row of rows.results as any[]) {
+        if (predecessors.has(row.id) || liveIds.includes(row.id)) continue;
+        const live = pending.get(row.superseded_by)!;
+        predecessors.set(row.id, live);
+        next.set(row.id, live);
+      }
+    }
+    pending = next;
+  }
 
-      const entries = results.results.map((row: any) => parseTrackerRow(row));
-      const driftAlerts = detectDrift(entries);
+  return predecessors;
+}
 
-      return jsonResponse({
-        agent,
-        analyzedDays: days,
-        entryCount: entries.length,
-        driftAlerts,
-        status: driftAlerts.length > 0 ? 'drift_detected' : 'stable',
-      });
+// Edges touching any of `ids`, either direction
+async function loadEdgesFor(env: Env, ids: string[], types: EdgeType[] | null): Promise<GraphEdge[]> {
+  const edges = new Map<string, GraphEdge>();
+  for (let i = 0; i < ids.length; i += 45) {
+    const chunk = ids.slice(i, i + 45);
+    const marks = chunk.map(() => '?').join(', ');
+    let sql = `SELECT * FROM observation_edges WHERE (source_id IN (${marks}) OR target_id IN (${marks}))`;
+    const params: any[] = [...chunk, ...chunk];
+    if (types) {
+      sql += ` AND type IN (${types.map(() => '?').join(', ')})`;
+      params.push(...types);
     }
+    const rows = await env.DB.prepare(sql).bind(...params).all();
+    for (const row of rows.results as any[]) edges.set(row.id, row);
+  }
+  return [...edges.values()];
+}
 
-    // ============================================================
-    // DISCORD CONNECTOR - Manual Read/Write Bridge
-    // ============================================================
-    // These endpoints allow manual invocation to read from or write
-    // to Discord channels. No automatic responses, no listeners.
-    // We call these when pointed at a specific channel.
-    // ============================================================
+// Breadth-first neighbourhood of `root` (a live observation), up to
+// `depth` hops or GRAPH.MAX_NODES nodes
+async function observationGraph(
+  env: Env,
+  root: any,
+  depth: number,
+  types: EdgeType[] | null
+): Promise<{ nodes: any[]; edges: any[]; truncated: boolean }> {
+  const nodes = new Map<string, any>([[root.id, { ...root, depth: 0 }]]);
+  const edges = new Map<string, any>();
+  // Old ids that resolved to a node, so their edges are found too
+  const aliases = new Map<string, string>([[root.id, root.id]]);
+  let frontier = [root.id];
+  let truncated = false;
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    for (const [oldId, live] of await supersededPredecessors(env, frontier)) aliases.set(oldId, live);
+    const frontierIds = [...aliases.entries()].filter(([, live]) => frontier.includes(live)).map(([id]) => id);
+    const found = await loadEdgesFor(env, frontierIds, types);
+    const live = await resolveLiveObservations(env, [...new Set(found.flatMap((e) => [e.source_id, e.target_id]))]);
+    const next: string[] = [];
+
+    for (const edge of found) {
+      const source = live.get(edge.source_id);
+      const target = live.get(edge.target_id);
+      if (!source || !target || source.id === target.id || edges.has(edge.id)) continue;
+
+      for (const node of [source, target]) {
+        if (nodes.has(node.id)) continue;
+        if (nodes.size >= GRAPH.MAX_NODES) {
+          truncated = true;
+          continue;
+        }
+        nodes.set(node.id, { ...node, depth: level });
+        next.push(node.id);
+      }
+      if (!nodes.has(source.id) || !nodes.has(target.id)) continue;
+
+      aliases.set(edge.source_id, source.id);
+      aliases.set(edge.target_id, target.id);
+      edges.set(edge.id, {
+        ...edge,
+        source_id: source.id,
+        target_id: target.id,
+        superseded_endpoints: [edge.source_id, edge.target_id].filter((id) => id !== source.id && id !== target.id),
+      });
+    }
+    frontier = next;
+  }
 
-    // --- GET /discord - Dashboard UI ---
-    if (url.pathname === "/discord" && request.method === "GET") {
-      const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
-      const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
-      const hasToken = !!env.DISCORD_BOT_TOKEN;
+  return {
+    nodes: [...nodes.values()].map((obs) => ({
+      id: obs.id,
+      kind: obs.kind,
+      status: observationState(obs),
+      preview: truncate(obs.content, LIMITS.PREVIEW_LENGTH),
+      salience: computeDecayedSalience(obs),
+      created_at: obs.created_at,
+      depth: obs.depth,
+    })),
+    edges: [...edges.values()].map(({ agent_id, created_by, ...edge }) => ({
+      ...edge,
+      superseded_endpoints: edge.superseded_endpoints.length > 0 ? edge.superseded_endpoints : undefined,
+    })),
+    truncated,
+  };
+}
 
-      const html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Discord Connector - Tether Mind</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      background: #1a1a2e;
-      color: #eee;
-      min-height: 100vh;
-      padding: 2rem;
+// First-degree neighbours of the wake's hot tier that the wake did not
+// already load, strongest first. Each carries the hot observation it
+// was reached from (`via`) and the edge type.
+async function loadHotNeighbors(env: Env, hot: any[], loadedIds: Set<string>): Promise<any[]> {
+  if (hot.length === 0) return [];
+  // Hot id (or an id it superseded) -> hot id
+  const hotIds = new Map<string, string>(hot.map((o) => [o.id, o.id]));
+  for (const [oldId, live] of await supersededPredecessors(env, [...hotIds.keys()])) hotIds.set(oldId, live);
+  const found = await loadEdgesFor(env, [...hotIds.keys()], null);
+  const live = await resolveLiveObservations(env, [...new Set(found.flatMap((e) => [e.source_id, e.target_id]))]);
+
+  const neighbors = new Map<string, any>();
+  for (const edge of found) {
+    const fromHot = hotIds.has(edge.source_id) ? edge.source_id : edge.target_id;
+    const other = live.get(fromHot === edge.source_id ? edge.target_id : edge.source_id);
+    if (!other || observationState(other) !== 'active' || loadedIds.has(other.id) || neighbors.has(other.id)) continue;
+    if (other.id === hotIds.get(fromHot)) continue;
+    neighbors.set(other.id, {
+      ...other,
+      decayed_salience: computeDecayedSalience(other),
+      hot_score: computeHotScore(other),
+      via: hotIds.get(fromHot),
+      edge_type: edge.type,
+    });
+  }
+
+  return deterministicSort([...neighbors.values()], (o) => o.decayed_salience);
+}
+
+// ============================================================
+// ARCHIVES - Portable export / import of an agent's mind
+// ============================================================
+// An archive is a header, then records grouped by section, then a
+// footer with per-section counts and checksums. NDJSON puts one
+// record per line; JSON nests the same records under section keys.
+// Section checksum = SHA-256 over the SHA-256 of each record's
+// canonical (sorted-key) JSON, in order.
+// ============================================================
+
+const ARCHIVE_FORMAT = 'tether-mind-archive';
+const ARCHIVE_VERSION = 1;
+const ARCHIVE_PAGE_SIZE = 500;
+const ARCHIVE_BATCH_SIZE = 50;
+
+type ArchiveRecordType = 'observation' | 'observation_edge' | 'tracker_entry' | 'soulfile_version' | 'setting';
+
+const ARCHIVE_SECTIONS: Record<ArchiveRecordType, string> = {
+  observation: 'observations',
+  observation_edge: 'observation_edges',
+  tracker_entry: 'tracker_entries',
+  soulfile_version: 'soulfile_versions',
+  setting: 'settings',
+};
+
+// KV settings carried in archives. Agent settings are stored as
+// `${agent}:${key}` and exported by bare key so they move between
+// agents; global settings are exported as-is, and only move in or
+// out with a key that is admin for every agent. The Discord bot
+// token is deliberately never exported.
+const ARCHIVE_SETTINGS: Array<{ key: string; global: boolean }> = [
+  { key: 'discord:allowed_channels', global: true },
+  { key: 'tracker_schema', global: false },
+  { key: 'drift_rules', global: false },
+];
+
+type ConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function createSectionChecksum() {
+  const hashes: string[] = [];
+  return {
+    add: async (record: any) => {
+      hashes.push(await sha256Hex(canonicalJson(record)));
+    },
+    count: () => hashes.length,
+    digest: () => sha256Hex(hashes.join('')),
+  };
+}
+
+// --- EMIT ARCHIVE RECORDS (paged, in section order) ---
+async function emitArchiveRecords(
+  env: Env,
+  agent: string,
+  options: { includeSuperseded: boolean; includeDeleted: boolean; includeGlobalSettings: boolean },
+  emit: (type: ArchiveRecordType, data: any) => Promise<void>
+): Promise<void> {
+  let obsSql = `SELECT * FROM observations WHERE agent_id = ?`;
+  if (!options.includeDeleted) obsSql += ` AND deleted_at IS NULL`;
+  if (!options.includeSuperseded) obsSql += ` AND (status IS NULL OR status != 'superseded')`;
+  obsSql += ` ORDER BY created_at ASC, id ASC LIMIT ? OFFSET ?`;
+
+  for (let offset = 0; ; offset += ARCHIVE_PAGE_SIZE) {
+    const page = await env.DB.prepare(obsSql).bind(agent, ARCHIVE_PAGE_SIZE, offset).all();
+    for (const row of page.results) await emit('observation', row);
+    if (page.results.length < ARCHIVE_PAGE_SIZE) break;
+  }
+
+  // Edges whose endpoints were filtered out are skipped on import
+  for (let offset = 0; ; offset += ARCHIVE_PAGE_SIZE) {
+    const page = await env.DB.prepare(
+      `SELECT * FROM observation_edges WHERE agent_id = ? ORDER BY created_at ASC, id ASC LIMIT ? OFFSET ?`
+    )
+      .bind(agent, ARCHIVE_PAGE_SIZE, offset)
+      .all();
+    for (const row of page.results) await emit('observation_edge', row);
+    if (page.results.length < ARCHIVE_PAGE_SIZE) break;
+  }
+
+  for (let offset = 0; ; offset += ARCHIVE_PAGE_SIZE) {
+    const page = await env.DB.prepare(
+      `SELECT * FROM tracker_entries WHERE agent = ? ORDER BY date ASC, timestamp ASC, id ASC LIMIT ? OFFSET ?`
+    )
+      .bind(agent, ARCHIVE_PAGE_SIZE, offset)
+      .all();
+    const custom = await getCustomMarkerValues(env, page.results.map((row: any) => row.id));
+    for (const row of page.results as any[]) {
+      await emit('tracker_entry', custom[row.id] ? { ...row, custom_markers: custom[row.id] } : row);
     }
-    .container { max-width: 800px; margin: 0 auto; }
-    h1 { color: #7289da; margin-bottom: 0.5rem; }
-    .subtitle { color: #888; margin-bottom: 2rem; }
-    .card {
-      background: #16213e;
-      border-radius: 8px;
-      padding: 1.5rem;
-      margin-bottom: 1.5rem;
-      border: 1px solid #0f3460;
+    if (page.results.length < ARCHIVE_PAGE_SIZE) break;
+  }
+
+  const history = await getSoulfileHistory(env, agent);
+  if (history.length > 0) {
+    for (const meta of history) {
+      const content = await getSoulfileVersion(env, agent, meta.version);
+      if (content !== null) await emit('soulfile_version', { ...meta, content });
     }
-    .card h2 { color: #7289da; font-size: 1.1rem; margin-bottom: 1rem; }
-    .status { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 1rem; }
-    .status-dot {
-      width: 10px; height: 10px; border-radius: 50%;
+  } else {
+    const active = await env.SOULFILES.get(`${agent}:active`);
+    if (active) {
+      await emit('soulfile_version', {
+        ...describeSoulfile(active, 1, 'unknown', null, 'Pre-versioning soulfile'),
+        content: active,
+      });
     }
-    .status-dot.ok { background: #43b581; }
-    .status-dot.error { background: #f04747; }
-    label { display: block; color: #888; font-size: 0.85rem; margin-bottom: 0.5rem; }
-    input, textarea {
-      width: 100%;
-      padding: 0.75rem;
-      background: #0f3460;
-      border: 1px solid #1a1a2e;
-      border-radius: 4px;
-      color: #eee;
-      font-family: monospace;
-      font-size: 0.9rem;
+  }
+
+  for (const setting of ARCHIVE_SETTINGS) {
+    if (setting.global && !options.includeGlobalSettings) continue;
+    const raw = await env.SOULFILES.get(setting.global ? setting.key : `${agent}:${setting.key}`);
+    if (raw !== null) {
+      await emit('setting', { key: setting.key, global: setting.global, value: JSON.parse(raw) });
     }
-    input:focus, textarea:focus { outline: none; border-color: #7289da; }
-    textarea { resize: vertical; min-height: 100px; }
-    button {
-      background: #7289da;
-      color: white;
-      border: none;
-      padding: 0.75rem 1.5rem;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 0.9rem;
-      margin-top: 1rem;
+  }
+}
+
+// --- PARSE ARCHIVE (JSON or NDJSON) ---
+function parseArchive(text: string): {
+  header: any;
+  records: Array<{ type: ArchiveRecordType; data: any }>;
+  footer: any;
+} {
+  const types = Object.keys(ARCHIVE_SECTIONS) as ArchiveRecordType[];
+
+  let whole: any = null;
+  try {
+    whole = JSON.parse(text);
+  } catch {
+    // Not a single JSON document; treat as NDJSON
+  }
+
+  if (whole && whole.header) {
+    const records: Array<{ type: ArchiveRecordType; data: any }> = [];
+    for (const type of types) {
+      for (const data of whole[ARCHIVE_SECTIONS[type]] ?? []) records.push({ type, data });
     }
-    button:hover { background: #5b6eae; }
-    button.danger { background: #f04747; }
-    button.danger:hover { background: #d84040; }
-    .channel-list { margin: 1rem 0; }
-    .channel-item {
-      display: flex;
-      align-items: center;
-      justify-content: space-between;
-      padding: 0.5rem 0.75rem;
-      background: #0f3460;
-      border-radius: 4px;
-      margin-bottom: 0.5rem;
-      font-family: monospace;
+    return { header: whole.header, records, footer: whole.footer ?? null };
+  }
+
+  let header: any = null;
+  let footer: any = null;
+  const records: Array<{ type: ArchiveRecordType; data: any }> = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const { type, ...rest } = JSON.parse(line);
+    if (type === 'header') header = rest;
+    else if (type === 'footer') footer = rest;
+    else if (types.includes(type)) records.push({ type, data: rest.data });
+  }
+
+  return { header, records, footer };
+}
+
+async function verifyArchive(
+  records: Array<{ type: ArchiveRecordType; data: any }>,
+  footer: any
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  for (const [type, section] of Object.entries(ARCHIVE_SECTIONS)) {
+    const checksum = createSectionChecksum();
+    for (const record of records) {
+      if (record.type === type) await checksum.add(record.data);
     }
-    .channel-item button {
-      margin: 0;
-      padding: 0.25rem 0.5rem;
-      font-size: 0.8rem;
+    if ((footer.counts?.[section] ?? 0) !== checksum.count()) {
+      problems.push(`COUNT_MISMATCH:${section}`);
     }
-    .add-row { display: flex; gap: 0.5rem; margin-top: 1rem; }
-    .add-row input { flex: 1; }
-    .add-row button { margin: 0; }
-    .help { color: #888; font-size: 0.85rem; margin-top: 0.5rem; }
-    .msg { padding: 0.75rem; border-radius: 4px; margin-bottom: 1rem; }
-    .msg.success { background: rgba(67, 181, 129, 0.2); border: 1px solid #43b581; }
-    .msg.error { background: rgba(240, 71, 71, 0.2); border: 1px solid #f04747; }
-    .instructions { background: #0f3460; padding: 1rem; border-radius: 4px; margin-top: 1rem; }
-    .instructions h3 { color: #7289da; font-size: 0.95rem; margin-bottom: 0.5rem; }
-    .instructions ol { padding-left: 1.5rem; }
-    .instructions li { margin-bottom: 0.5rem; color: #aaa; }
-    .instructions code { background: #1a1a2e; padding: 0.1rem 0.3rem; border-radius: 3px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <h1>Discord Connector</h1>
-    <p class="subtitle">Tether Mind - Manual Read/Write Bridge</p>
+    if (checksum.count() > 0 && footer.checksums?.[section] !== (await checksum.digest())) {
+      problems.push(`CHECKSUM_MISMATCH:${section}`);
+    }
+  }
 
-    <div class="card">
-      <h2>Bot Status</h2>
-      <div class="status">
-        <div class="status-dot ${hasToken ? 'ok' : 'error'}"></div>
-        <span>${hasToken ? 'Bot token configured' : 'Bot token not configured'}</span>
-      </div>
-      ${!hasToken ? `
-      <div class="instructions">
-        <h3>Setup Instructions</h3>
-        <ol>
-          <li>Go to <a href="https://discord.com/developers/applications" target="_blank" style="color:#7289da">Discord Developer Portal</a></li>
-          <li>Create a new application named "Elias and Oliver" (or your preference)</li>
-          <li>Go to Bot → Add Bot</li>
-          <li>Enable <strong>Message Content Intent</strong> under Privileged Gateway Intents</li>
-          <li>Copy the bot token</li>
-          <li>Run in terminal: <code>npx wrangler secret put DISCORD_BOT_TOKEN</code></li>
-          <li>Paste your token when prompted</li>
-          <li>Go to OAuth2 → URL Generator, select <code>bot</code> scope</li>
-          <li>Select permissions: Read Message History, Send Messages</li>
-          <li>Use the generated URL to invite the bot to your server</li>
-        </ol>
-      </div>
-      ` : ''}
-    </div>
+  return problems;
+}
 
-    <div class="card">
-      <h2>Allowed Channels</h2>
-      <p class="help">Only these channels can be read from or written to. Leave empty to allow all channels the bot has access to.</p>
+async function getTableColumns(env: Env, table: string): Promise<Set<string>> {
+  const info = await env.DB.prepare(`PRAGMA table_info(${table})`).all();
+  return new Set(info.results.map((c: any) => c.name));
+}
 
-      <div id="message"></div>
+// Existing rows by id, chunked to stay under D1's bound-parameter limit
+async function findExistingRows(
+  env: Env,
+  table: string,
+  ids: string[],
+  columns: string
+): Promise<Map<string, any>> {
+  const found = new Map<string, any>();
+  for (let i = 0; i < ids.length; i += 90) {
+    const chunk = ids.slice(i, i + 90);
+    const rows = await env.DB.prepare(
+      `SELECT ${columns} FROM ${table} WHERE id IN (${chunk.map(() => '?').join(', ')})`
+    )
+      .bind(...chunk)
+      .all();
+    for (const row of rows.results as any[]) found.set(row.id, row);
+  }
+  return found;
+}
 
-      <div class="channel-list" id="channelList">
-        ${allowed.length === 0 ? '<p style="color:#888;font-style:italic;">No channels configured (all accessible channels allowed)</p>' :
-          allowed.map(id => `
-            <div class="channel-item" data-id="${id}">
-              <span>${id}</span>
-              <button class="danger" onclick="removeChannel('${id}')">Remove</button>
-            </div>
-          `).join('')}
-      </div>
+function buildUpsert(env: Env, table: string, columns: Set<string>, row: Record<string, any>): D1PreparedStatement {
+  const keys = Object.keys(row).filter((k) => columns.has(k));
+  return env.DB.prepare(
+    `INSERT OR REPLACE INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`
+  ).bind(...keys.map((k) => row[k] ?? null));
+}
 
-      <div class="add-row">
-        <input type="text" id="newChannel" placeholder="Channel ID (e.g., 1234567890123456789)">
-        <button onclick="addChannel()">Add Channel</button>
-      </div>
+interface ImportCounts {
+  created: number;
+  overwritten: number;
+  merged: number;
+  skipped: number;
+}
 
-      <p class="help">To get a channel ID: Enable Developer Mode in Discord settings, then right-click a channel → Copy ID</p>
-    </div>
+const emptyImportCounts = (): ImportCounts => ({ created: 0, overwritten: 0, merged: 0, skipped: 0 });
 
-    <div class="card">
-      <h2>Quick Test</h2>
-      <label for="testChannel">Channel ID</label>
-      <input type="text" id="testChannel" placeholder="Enter channel ID to test">
-      <div style="display:flex;gap:0.5rem;margin-top:1rem;">
-        <button onclick="testRead()">Read Messages</button>
-        <button onclick="testWrite()">Send Test Message</button>
-      </div>
-      <pre id="testResult" style="margin-top:1rem;background:#0f3460;padding:1rem;border-radius:4px;overflow:auto;max-height:300px;display:none;"></pre>
-    </div>
-  </div>
+// --- IMPORT ARCHIVE ---
+// Plans every write first (so dry_run reports exactly what would
+// happen), then applies D1 statements in batches and KV writes. Each
+// record's statements form one group that is never split across
+// batches, so a replaced observation and its audit row land together.
+async function importArchive(
+  env: Env,
+  agent: string,
+  records: Array<{ type: ArchiveRecordType; data: any }>,
+  options: { dryRun: boolean; conflict: ConflictPolicy; remapIds: boolean; globalSettings: boolean; audit: AuditContext }
+): Promise<any> {
+  const { conflict, remapIds, audit } = options;
+  const statements: D1PreparedStatement[][] = [];
+  const kvWrites: Array<() => Promise<void>> = [];
+  const idMap: Record<string, string> = {};
+  const warnings: string[] = [];
+
+  const byType = (type: ArchiveRecordType) => records.filter((r) => r.type === type).map((r) => r.data);
+  const observations = byType('observation');
+  const edges = byType('observation_edge');
+  const trackerEntries = byType('tracker_entry');
+  const soulfileVersions = byType('soulfile_version');
+  const settings = byType('setting');
+
+  // 1. Resolve ids. Collisions with another agent's rows always remap.
+  const existingObs = remapIds
+    ? new Map<string, any>()
+    : await findExistingRows(
+        env,
+        'observations',
+        observations.map((o) => o.id),
+        '*'
+      );
+  const existingTracker = remapIds
+    ? new Map<string, any>()
+    : await findExistingRows(env, 'tracker_entries', trackerEntries.map((e) => e.id), 'id, agent, timestamp');
 
-  <script>
-    let channels = ${JSON.stringify(allowed)};
+  for (const obs of observations) {
+    const existing = existingObs.get(obs.id);
+    if (remapIds || (existing && existing.agent_id !== agent)) idMap[obs.id] = crypto.randomUUID();
+  }
+  for (const entry of trackerEntries) {
+    const existing = existingTracker.get(entry.id);
+    if (remapIds || (existing && existing.agent !== agent)) idMap[entry.id] = crypto.randomUUID();
+  }
+  const mapId = (id: string | null) => (id && idMap[id]) || id;
 
-    function showMessage(text, isError) {
-      const el = document.getElementById('message');
-      el.className = 'msg ' + (isError ? 'error' : 'success');
-      el.textContent = text;
-      el.style.display = 'block';
-      setTimeout(() => el.style.display = 'none', 3000);
+  const decide = (existing: any, incomingStamp: string | null, existingStamp: string | null): keyof ImportCounts => {
+    if (!existing) return 'created';
+    if (conflict === 'skip') return 'skipped';
+    if (conflict === 'overwrite') return 'overwritten';
+    return (incomingStamp ?? '') > (existingStamp ?? '') ? 'merged' : 'skipped';
+  };
+
+  // 2. Observations
+  const obsCounts = emptyImportCounts();
+  const obsColumns = await getTableColumns(env, 'observations');
+  for (const obs of observations) {
+    const id = mapId(obs.id)!;
+    const existing = idMap[obs.id] ? null : existingObs.get(obs.id);
+    let outcome = decide(existing, obs.updated_at, existing?.updated_at);
+    // Replacing a stored observation is an edit, so the state machine
+    // applies: deleted, superseded and archived ones are left alone
+    const invalid = existing && outcome !== 'skipped' ? transitionError(existing, 'edit') : null;
+    if (invalid) {
+      warnings.push(`INVALID_TRANSITION:${id}:${invalid.state}`);
+      outcome = 'skipped';
     }
+    obsCounts[outcome]++;
+    if (outcome === 'skipped') continue;
+
+    const row = { ...obs, id, agent_id: agent, superseded_by: mapId(obs.superseded_by ?? null) };
+    statements.push([
+      buildUpsert(env, 'observations', obsColumns, row),
+      await auditObservationStatement(env, audit, 'import', existing ?? null, { id, agent_id: agent }),
+      ...(row.deleted_at ? [ftsRemoveStatement(env, id)] : ftsIndexStatements(env, id, agent, row.content ?? '')),
+    ]);
+  }
 
-    function renderChannels() {
-      const list = document.getElementById('channelList');
-      if (channels.length === 0) {
-        list.innerHTML = '<p style="color:#888;font-style:italic;">No channels configured (all accessible channels allowed)</p>';
+  // 3. Edges (endpoints follow the remap). Edges never change after
+  // creation, so an existing id is always skipped.
+  const edgeCounts = emptyImportCounts();
+  const existingEdges = await findExistingRows(env, 'observation_edges', edges.map((e) => e.id), 'id, agent_id');
+  const archivedObsIds = new Set(observations.map((o) => mapId(o.id)));
+  const endpointIds = [...new Set(edges.flatMap((e) => [mapId(e.source_id)!, mapId(e.target_id)!]))];
+  const storedEndpoints = await findExistingRows(
+    env,
+    'observations',
+    endpointIds.filter((id) => !archivedObsIds.has(id)),
+    'id, agent_id'
+  );
+  const hasEndpoint = (id: string) => archivedObsIds.has(id) || storedEndpoints.get(id)?.agent_id === agent;
+
+  for (const edge of edges) {
+    const existing = existingEdges.get(edge.id);
+    if (existing && existing.agent_id === agent && !remapIds) {
+      edgeCounts.skipped++;
+      continue;
+    }
+    const source = mapId(edge.source_id)!;
+    const target = mapId(edge.target_id)!;
+    if (!hasEndpoint(source) || !hasEndpoint(target)) {
+      warnings.push(`EDGE_ENDPOINT_MISSING:${edge.id}`);
+      edgeCounts.skipped++;
+      continue;
+    }
+
+    edgeCounts.created++;
+    const row = {
+      id: existing ? crypto.randomUUID() : edge.id,
+      agent_id: agent,
+      source_id: source,
+      target_id: target,
+      type: edge.type,
+      note: edge.note ?? null,
+      created_at: edge.created_at,
+      created_by: edge.created_by ?? null,
+    };
+    statements.push([
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO observation_edges (id, agent_id, source_id, target_id, type, note, created_at, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(row.id, row.agent_id, row.source_id, row.target_id, row.type, row.note, row.created_at, row.created_by),
+      auditStatement(
+        env,
+        audit,
+        { agent, action: 'import', target_type: 'edge', target_id: row.id, before: null, after: row },
+        true
+      ),
+    ]);
+  }
+
+  // 4. Tracker entries (linked observation ids follow the remap)
+  const trackerCounts = emptyImportCounts();
+  const trackerColumns = await getTableColumns(env, 'tracker_entries');
+  // One entry per agent per day: a different entry already on that day
+  // is only replaced with conflict=overwrite
+  const entryOnDate = new Map<string, string>();
+  const dated = await env.DB.prepare(`SELECT id, date FROM tracker_entries WHERE agent = ?`).bind(agent).all();
+  for (const row of dated.results as any[]) entryOnDate.set(row.date, row.id);
+  for (const entry of trackerEntries) {
+    const id = mapId(entry.id)!;
+    const existing = idMap[entry.id] ? null : existingTracker.get(entry.id);
+    let outcome = decide(existing, entry.timestamp, existing?.timestamp);
+    const sameDay = entryOnDate.get(entry.date);
+    const group: D1PreparedStatement[] = [];
+    if (outcome !== 'skipped' && sameDay && sameDay !== id) {
+      if (conflict === 'overwrite') {
+        group.push(env.DB.prepare(`DELETE FROM tracker_entries WHERE id = ?`).bind(sameDay));
+        group.push(env.DB.prepare(`DELETE FROM tracker_marker_values WHERE entry_id = ?`).bind(sameDay));
+        outcome = 'overwritten';
       } else {
-        list.innerHTML = channels.map(id => \`
-          <div class="channel-item" data-id="\${id}">
-            <span>\${id}</span>
-            <button class="danger" onclick="removeChannel('\${id}')">Remove</button>
-          </div>
-        \`).join('');
+        warnings.push(`TRACKER_DATE_EXISTS:${entry.date}`);
+        outcome = 'skipped';
       }
     }
+    trackerCounts[outcome]++;
+    if (outcome === 'skipped') continue;
+    entryOnDate.set(entry.date, id);
+
+    let linked = entry.linked_observations;
+    try {
+      const ids: string[] = linked ? JSON.parse(linked) : [];
+      linked = JSON.stringify(ids.map((linkedId) => mapId(linkedId)));
+    } catch {
+      warnings.push(`UNPARSEABLE_LINKED_OBSERVATIONS:${entry.id}`);
+    }
 
-    async function saveChannels() {
-      try {
-        const res = await fetch('/discord/channels', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ channels })
-        });
-        if (!res.ok) throw new Error('Failed to save');
-        showMessage('Channels saved successfully', false);
-      } catch (e) {
-        showMessage('Failed to save channels: ' + e.message, true);
-      }
+    group.push(buildUpsert(env, 'tracker_entries', trackerColumns, { ...entry, id, agent, linked_observations: linked }));
+    group.push(env.DB.prepare(`DELETE FROM tracker_marker_values WHERE entry_id = ?`).bind(id));
+    for (const [marker, value] of Object.entries<any>(entry.custom_markers ?? {})) {
+      group.push(
+        env.DB.prepare(
+          `INSERT INTO tracker_marker_values (entry_id, agent, marker, score, note) VALUES (?, ?, ?, ?, ?)`
+        ).bind(id, agent, marker, value.score, value.note || '')
+      );
     }
+    statements.push(group);
+  }
 
-    function addChannel() {
-      const input = document.getElementById('newChannel');
-      const id = input.value.trim();
-      if (!id) return;
-      if (!/^\\d+$/.test(id)) {
-        showMessage('Channel ID must be a number', true);
-        return;
+  // 5. Soulfile versions
+  const soulfileCounts = emptyImportCounts();
+  const history = await getSoulfileHistory(env, agent);
+  const hasSoulfile = history.length > 0 || (await env.SOULFILES.get(`${agent}:active`)) !== null;
+  const sorted = soulfileVersions.slice().sort((a, b) => a.version - b.version);
+
+  if (sorted.length > 0) {
+    let plan: Array<{ meta: SoulfileVersion; content: string }> = [];
+    let base: SoulfileVersion[] = [];
+
+    if (!hasSoulfile || conflict === 'overwrite') {
+      plan = sorted.map(({ content, ...meta }, idx) => ({ meta: { ...meta, version: idx + 1 }, content }));
+      soulfileCounts[hasSoulfile ? 'overwritten' : 'created'] = plan.length;
+    } else if (conflict === 'merge') {
+      const existingHashes = new Set<string>();
+      for (const meta of history) {
+        const content = await getSoulfileVersion(env, agent, meta.version);
+        if (content !== null) existingHashes.add(await sha256Hex(content));
       }
-      if (channels.includes(id)) {
-        showMessage('Channel already in list', true);
-        return;
+      base = history;
+      let next = (history[history.length - 1]?.version ?? 0) + 1;
+      for (const { content, ...meta } of sorted) {
+        if (existingHashes.has(await sha256Hex(content))) {
+          soulfileCounts.skipped++;
+          continue;
+        }
+        plan.push({ meta: { ...meta, version: next++, note: `${meta.note} (imported)`.trim() }, content });
+        soulfileCounts.merged++;
       }
-      channels.push(id);
-      input.value = '';
-      renderChannels();
-      saveChannels();
+    } else {
+      soulfileCounts.skipped = sorted.length;
     }
 
-    function removeChannel(id) {
-      channels = channels.filter(c => c !== id);
-      renderChannels();
-      saveChannels();
+    if (plan.length > 0) {
+      const newHistory = [...base, ...plan.map((p) => p.meta)];
+      const staleVersions = conflict === 'overwrite'
+        ? history.map((h) => h.version).filter((v) => v > newHistory.length)
+        : [];
+      kvWrites.push(async () => {
+        for (const p of plan) await env.SOULFILES.put(`${agent}:v${p.meta.version}`, p.content);
+        for (const v of staleVersions) await env.SOULFILES.delete(`${agent}:v${v}`);
+        await env.SOULFILES.put(`${agent}:history`, JSON.stringify(newHistory));
+        await env.SOULFILES.put(`${agent}:active`, plan[plan.length - 1].content);
+      });
     }
+  }
 
-    async function testRead() {
-      const channelId = document.getElementById('testChannel').value.trim();
-      if (!channelId) {
-        showMessage('Enter a channel ID first', true);
-        return;
-      }
-      const result = document.getElementById('testResult');
-      result.style.display = 'block';
-      result.textContent = 'Loading...';
-      try {
-        const res = await fetch('/discord/read/' + channelId + '?limit=5');
-        const data = await res.json();
-        result.textContent = JSON.stringify(data, null, 2);
-      } catch (e) {
-        result.textContent = 'Error: ' + e.message;
-      }
+  // 6. Settings (merge unions arrays and keeps existing scalars)
+  const settingCounts = emptyImportCounts();
+  for (const setting of settings) {
+    const known = ARCHIVE_SETTINGS.find((s) => s.key === setting.key && s.global === setting.global);
+    if (!known) {
+      warnings.push(`UNKNOWN_SETTING:${setting.key}`);
+      settingCounts.skipped++;
+      continue;
+    }
+    if (known.global && !options.globalSettings) {
+      warnings.push(`GLOBAL_SETTING_REQUIRES_ADMIN:${setting.key}`);
+      settingCounts.skipped++;
+      continue;
     }
 
-    async function testWrite() {
-      const channelId = document.getElementById('testChannel').value.trim();
-      if (!channelId) {
-        showMessage('Enter a channel ID first', true);
-        return;
-      }
-      const result = document.getElementById('testResult');
-      result.style.display = 'block';
-      result.textContent = 'Sending...';
-      try {
-        const res = await fetch('/discord/write/' + channelId, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ content: '🔗 Tether Mind connection test - ' + new Date().toISOString() })
-        });
-        const data = await res.json();
-        result.textContent = JSON.stringify(data, null, 2);
-      } catch (e) {
-        result.textContent = 'Error: ' + e.message;
-      }
+    const kvKey = known.global ? known.key : `${agent}:${known.key}`;
+    const raw = await env.SOULFILES.get(kvKey);
+    const current = raw === null ? null : JSON.parse(raw);
+    let value = setting.value;
+    let outcome: keyof ImportCounts = current === null ? 'created' : conflict === 'overwrite' ? 'overwritten' : 'skipped';
+
+    if (current !== null && conflict === 'merge' && Array.isArray(current) && Array.isArray(value)) {
+      value = Array.from(new Set([...current, ...value]));
+      outcome = 'merged';
     }
 
-    document.getElementById('newChannel').addEventListener('keypress', (e) => {
-      if (e.key === 'Enter') addChannel();
+    settingCounts[outcome]++;
+    if (outcome === 'skipped') continue;
+    kvWrites.push(async () => {
+      await env.SOULFILES.put(kvKey, JSON.stringify(value));
+      await auditStatement(env, audit, {
+        agent: known.global ? ALL_AGENTS : agent,
+        action: 'import',
+        target_type: 'setting',
+        target_id: kvKey,
+        before: current,
+        after: value,
+      }).run();
     });
-  </script>
-</body>
-</html>`;
+  }
 
-      return new Response(html, {
-        headers: {
-          'Content-Type': 'text/html',
-          ...corsHeaders,
-        },
-      });
+  if (!options.dryRun) {
+    let batch: D1PreparedStatement[] = [];
+    for (const group of statements) {
+      if (batch.length > 0 && batch.length + group.length > ARCHIVE_BATCH_SIZE) {
+        await env.DB.batch(batch);
+        batch = [];
+      }
+      batch.push(...group);
     }
+    if (batch.length > 0) await env.DB.batch(batch);
+    for (const write of kvWrites) await write();
+  }
 
-    // --- GET /discord/channels - List allowed channels ---
-    if (url.pathname === "/discord/channels" && request.method === "GET") {
-      const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
-      const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
-      return jsonResponse({ allowed_channels: allowed });
-    }
+  return {
+    status: options.dryRun ? 'dry_run' : 'imported',
+    agent,
+    conflict,
+    remap_ids: remapIds,
+    observations: obsCounts,
+    observation_edges: edgeCounts,
+    tracker_entries: trackerCounts,
+    soulfile_versions: soulfileCounts,
+    settings: settingCounts,
+    remapped: Object.keys(idMap).length,
+    id_map: idMap,
+    warnings,
+  };
+}
 
-    // --- POST /discord/channels - Set allowed channels ---
-    if (url.pathname === "/discord/channels" && request.method === "POST") {
-      const body: any = await request.json();
-      const { channels } = body;
+// ============================================================
+// DISCORD CLIENT - Rate limits, retries and write ordering
+// ============================================================
+// Every Discord REST call goes through discordRequest:
+//   - 429s wait out Retry-After (up to MAX_WAIT_MS) and try again
+//   - X-RateLimit-* headers are remembered per bucket, so a call to an
+//     exhausted bucket waits for its reset instead of earning a 429
+//   - 5xx and network errors are retried with exponential backoff
+// Messages to a channel are sent one at a time, in order, and content
+// over 2000 characters is split into several messages. Buckets and
+// channel queues live in the isolate, so they coordinate requests
+// handled by the same isolate only.
+// ============================================================
 
-      if (!Array.isArray(channels)) {
-        return textResponse("channels must be an array of channel ID strings", 400);
-      }
+const DISCORD_CLIENT = {
+  DEFAULT_BASE_URL: 'https://discord.com/api/v10',
+  MAX_ATTEMPTS: 4,
+  BACKOFF_MS: 500,
+  MAX_WAIT_MS: 10000,
+  MESSAGE_LIMIT: 2000,
+  MAX_PARTS: 10,
+  FENCE_MAX: 32, // longest ```lang marker carried into the next part
+} as const;
 
-      await env.SOULFILES.put("discord:allowed_channels", JSON.stringify(channels));
-      return jsonResponse({ status: "ok", allowed_channels: channels });
-    }
+interface DiscordBucketState {
+  remaining: number;
+  resetAt: number;
+}
 
-    // --- GET /discord/token - Check if token is configured ---
-    if (url.pathname === "/discord/token" && request.method === "GET") {
-      // Check KV first, then fall back to env secret
-      const kvToken = await env.SOULFILES.get("discord:bot_token");
-      const hasToken = !!(kvToken || env.DISCORD_BOT_TOKEN);
-      return jsonResponse({ configured: hasToken });
-    }
+// Route key -> bucket id, bucket id -> state (shared across requests)
+const discordRouteBuckets = new Map<string, string>();
+const discordBuckets = new Map<string, DiscordBucketState>();
+let discordGlobalResetAt = 0;
 
-    // --- POST /discord/token - Set bot token in KV ---
-    if (url.pathname === "/discord/token" && request.method === "POST") {
-      const body: any = await request.json();
-      const { token } = body;
+// Tail of each channel's send queue
+const discordChannelQueues = new Map<string, Promise<unknown>>();
 
-      if (!token || typeof token !== "string" || token.length < 50) {
-        return textResponse("Invalid bot token", 400);
-      }
+function discordBaseUrl(env: Env): string {
+  return (env.DISCORD_API_BASE || DISCORD_CLIENT.DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
 
-      await env.SOULFILES.put("discord:bot_token", token);
-      return jsonResponse({ status: "ok", configured: true });
+// Discord buckets per major parameter, so keep channel/guild ids and
+// collapse everything else that looks like an id
+function discordRouteKey(method: string, path: string): string {
+  const route = path
+    .split('?')[0]
+    .replace(/\/(channels|guilds|webhooks)\/(\d+)/g, '/$1/{$2}')
+    .replace(/\/\d+/g, '/:id')
+    .replace(/\{(\d+)\}/g, '$1');
+  return `${method} ${route}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function rememberDiscordBucket(routeKey: string, response: Response): void {
+  const bucket = response.headers.get('X-RateLimit-Bucket');
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const resetAfter = response.headers.get('X-RateLimit-Reset-After');
+  if (!bucket || remaining === null || resetAfter === null) return;
+
+  discordRouteBuckets.set(routeKey, bucket);
+  discordBuckets.set(bucket, {
+    remaining: Number(remaining),
+    resetAt: Date.now() + parseFloat(resetAfter) * 1000,
+  });
+}
+
+// How long to wait before a request to this route may go out
+function discordWaitMs(routeKey: string): number {
+  const now = Date.now();
+  let wait = Math.max(0, discordGlobalResetAt - now);
+  const bucket = discordBuckets.get(discordRouteBuckets.get(routeKey) ?? '');
+  if (bucket && bucket.remaining <= 0) wait = Math.max(wait, bucket.resetAt - now);
+  return wait;
+}
+
+async function retryAfterMs(response: Response): Promise<number> {
+  const header = response.headers.get('Retry-After');
+  if (header !== null) return parseFloat(header) * 1000;
+  const body: any = await response.clone().json().catch(() => null);
+  return typeof body?.retry_after === 'number' ? body.retry_after * 1000 : 1000;
+}
+
+// Pass a null token for interaction webhooks, which authenticate by URL.
+// A POST may have been applied even when the response was a 5xx or
+// never arrived, so only a 429 (rejected before it ran) is retried.
+async function discordRequest(
+  env: Env,
+  botToken: string | null,
+  method: string,
+  path: string,
+  body?: any
+): Promise<Response> {
+  const routeKey = discordRouteKey(method, path);
+  const retryFailures = method !== 'POST';
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= DISCORD_CLIENT.MAX_ATTEMPTS; attempt++) {
+    const wait = discordWaitMs(routeKey);
+    if (wait > DISCORD_CLIENT.MAX_WAIT_MS) {
+      return jsonResponse({ message: 'Rate limited (waiting for bucket reset)', retry_after: wait / 1000 }, 429);
     }
+    if (wait > 0) await sleep(wait);
 
-    // --- DELETE /discord/token - Remove bot token from KV ---
-    if (url.pathname === "/discord/token" && request.method === "DELETE") {
-      await env.SOULFILES.delete("discord:bot_token");
-      return jsonResponse({ status: "ok", configured: false });
+    let response: Response;
+    try {
+      response = await fetch(`${discordBaseUrl(env)}${path}`, {
+        method,
+        headers: {
+          ...(botToken ? { Authorization: `Bot ${botToken}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (err) {
+      lastError = err;
+      if (!retryFailures) break;
+      await sleep(DISCORD_CLIENT.BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
     }
 
-    // --- GET /discord/read/:channelId - Read messages from channel ---
-    if (url.pathname.match(/^\/discord\/read\/[^/]+$/) && request.method === "GET") {
-      const channelId = url.pathname.split("/")[3];
-      if (!channelId) {
-        return textResponse("Missing channel ID", 400);
-      }
+    rememberDiscordBucket(routeKey, response);
 
-      // Get token from KV first, fall back to env secret
-      const kvToken = await env.SOULFILES.get("discord:bot_token");
-      const botToken = kvToken || env.DISCORD_BOT_TOKEN;
+    if (response.status === 429 && attempt < DISCORD_CLIENT.MAX_ATTEMPTS) {
+      const delay = await retryAfterMs(response);
+      if (delay > DISCORD_CLIENT.MAX_WAIT_MS) return response;
+      if (response.headers.get('X-RateLimit-Global') === 'true') discordGlobalResetAt = Date.now() + delay;
+      await sleep(delay);
+      continue;
+    }
 
-      if (!botToken) {
-        return textResponse("Discord bot token not configured", 500);
-      }
+    if (response.status >= 500 && retryFailures && attempt < DISCORD_CLIENT.MAX_ATTEMPTS) {
+      await sleep(DISCORD_CLIENT.BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
+    }
 
-      // Check channel whitelist
-      const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
-      const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
+    return response;
+  }
 
-      if (allowed.length > 0 && !allowed.includes(channelId)) {
-        return jsonResponse({ error: "CHANNEL_NOT_ALLOWED", channelId }, 403);
-      }
+  return jsonResponse({ message: `Discord unreachable: ${String(lastError)}` }, 502);
+}
 
-      const limit = Math.min(Number(url.searchParams.get("limit")) || 10, 50);
+async function getDiscord(env: Env, botToken: string, path: string): Promise<Response> {
+  return discordRequest(env, botToken, 'GET', path);
+}
 
-      // Fetch messages from Discord REST API
-      const discordResponse = await fetch(
-        `https://discord.com/api/v10/channels/${channelId}/messages?limit=${limit}`,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+// Runs `task` after every earlier task queued for the same channel
+function enqueueForChannel<T>(channelId: string, task: () => Promise<T>): Promise<T> {
+  const previous = discordChannelQueues.get(channelId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  const tail = run.catch(() => undefined);
+  discordChannelQueues.set(channelId, tail);
+  tail.then(() => {
+    if (discordChannelQueues.get(channelId) === tail) discordChannelQueues.delete(channelId);
+  });
+  return run;
+}
 
-      if (!discordResponse.ok) {
-        const error = await discordResponse.text();
-        return jsonResponse(
-          {
-            error: "DISCORD_API_ERROR",
-            status: discordResponse.status,
-            details: error,
-          },
-          discordResponse.status
-        );
-      }
+// Splits at paragraph, then line, then word boundaries. A code block
+// cut in two is closed at the end of one part and reopened in the next
+// with just its marker and language (never the rest of the fence line,
+// which may be longer than a part).
+function splitDiscordMessage(content: string, limit: number = DISCORD_CLIENT.MESSAGE_LIMIT): string[] {
+  const parts: string[] = [];
+  let rest = content;
+  let reopenFence = '';
+
+  while (rest.length > 0) {
+    const remaining = rest.length;
+    rest = reopenFence + rest;
+    if (rest.length <= limit) {
+      parts.push(rest);
+      break;
+    }
 
-      const messages: any[] = await discordResponse.json();
+    // Leave room to close a code block
+    const budget = limit - 4;
+    const window = rest.slice(0, budget);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < budget / 2) cut = window.lastIndexOf('\n');
+    if (cut < budget / 2) cut = window.lastIndexOf(' ');
+    if (cut < budget / 2) cut = budget;
+
+    let part = rest.slice(0, cut);
+    rest = rest.slice(cut).replace(/^\s+/, '');
+
+    const fences = part.match(/^```.*$/gm) ?? [];
+    if (fences.length % 2 === 1) {
+      part += '\n```';
+      const marker = fences[fences.length - 1].match(/^```[^\s`]*/)![0];
+      reopenFence = (marker.length <= DISCORD_CLIENT.FENCE_MAX ? marker : '```') + '\n';
+    } else {
+      reopenFence = '';
+    }
+    parts.push(part.replace(/\s+$/, ''));
 
-      // Format messages for readability
-      const formatted = messages.map((msg) => ({
-        id: msg.id,
-        author: {
-          id: msg.author.id,
-          username: msg.author.username,
-          display_name: msg.author.global_name || msg.author.username,
-          bot: msg.author.bot || false,
-        },
-        content: msg.content,
-        timestamp: msg.timestamp,
-        relative_time: relativeTime(msg.timestamp),
-        attachments: msg.attachments?.length || 0,
-        embeds: msg.embeds?.length || 0,
-        reply_to: msg.referenced_message?.id || null,
-      }));
+    if (rest.length >= remaining) throw new Error('splitDiscordMessage made no progress');
+  }
 
-      return jsonResponse({
-        channel_id: channelId,
-        message_count: formatted.length,
-        messages: formatted,
-      });
-    }
+  return parts.filter((p) => p.trim().length > 0);
+}
 
-    // --- POST /discord/write/:channelId - Send message to channel ---
-    if (url.pathname.match(/^\/discord\/write\/[^/]+$/) && request.method === "POST") {
-      const channelId = url.pathname.split("/")[3];
-      if (!channelId) {
-        return textResponse("Missing channel ID", 400);
+// Sends `content` as one or more messages, in order. Only the first
+// part replies to `replyTo`. Stops at the first failed part and
+// returns Discord's response for it alongside the parts already sent.
+async function sendDiscordMessage(
+  env: Env,
+  botToken: string,
+  channelId: string,
+  content: string,
+  replyTo?: string | null
+): Promise<{ sent: any[]; failed: Response | null }> {
+  return enqueueForChannel(channelId, async () => {
+    const sent: any[] = [];
+    for (const [index, part] of splitDiscordMessage(content).entries()) {
+      const payload: any = { content: part };
+      if (replyTo && index === 0) {
+        payload.message_reference = { message_id: replyTo };
       }
 
-      // Get token from KV first, fall back to env secret
-      const kvToken = await env.SOULFILES.get("discord:bot_token");
-      const botToken = kvToken || env.DISCORD_BOT_TOKEN;
+      const response = await discordRequest(env, botToken, 'POST', `/channels/${channelId}/messages`, payload);
+      if (!response.ok) return { sent, failed: response };
+      sent.push(await response.json());
+    }
+    return { sent, failed: null };
+  });
+}
 
-      if (!botToken) {
-        return textResponse("Discord bot token not configured", 500);
-      }
+// ============================================================
+// DISCORD - Shared REST helpers
+// ============================================================
 
-      // Check channel whitelist
-      const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
-      const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
+async function getDiscordBotToken(env: Env): Promise<string | null> {
+  // KV first, fall back to env secret
+  return (await env.SOULFILES.get("discord:bot_token")) || env.DISCORD_BOT_TOKEN || null;
+}
 
-      if (allowed.length > 0 && !allowed.includes(channelId)) {
-        return jsonResponse({ error: "CHANNEL_NOT_ALLOWED", channelId }, 403);
-      }
+// An empty allow-list allows every channel
+async function isDiscordChannelAllowed(env: Env, channelId: string): Promise<boolean> {
+  const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
+  const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
+  return allowed.length === 0 || allowed.includes(channelId);
+}
 
-      const body: any = await request.json();
-      const { content, reply_to } = body;
+// Passes a failed Discord call back to our caller
+async function discordApiError(discordResponse: Response): Promise<Response> {
+  const error = await discordResponse.text();
+  return jsonResponse(
+    {
+      error: "DISCORD_API_ERROR",
+      status: discordResponse.status,
+      details: error,
+    },
+    discordResponse.status
+  );
+}
 
-      if (!content || typeof content !== "string") {
-        return textResponse("Missing or invalid content field", 400);
-      }
+// Thread channel types (announcement, public, private)
+const DISCORD_THREAD_TYPES = [10, 11, 12];
+// Forum and media channels hold threads, not messages
+const DISCORD_FORUM_TYPES = [15, 16];
 
-      if (content.length > 2000) {
-        return textResponse("Message exceeds Discord 2000 character limit", 400);
-      }
+const DISCORD_READ = {
+  DEFAULT_LIMIT: 10,
+  MAX_LIMIT: 100,
+  ARCHIVED_THREADS_LIMIT: 50,
+} as const;
 
-      // Build message payload
-      const payload: any = { content };
+// Fetches the channel and checks it (or, for a thread, its parent)
+// against the allow-list. Returns the channel, or an error Response.
+async function getAllowedDiscordChannel(env: Env, botToken: string, channelId: string): Promise<any | Response> {
+  const discordResponse = await getDiscord(env, botToken, `/channels/${channelId}`);
+  if (!discordResponse.ok) {
+    return discordApiError(discordResponse);
+  }
+  const channel: any = await discordResponse.json();
 
-      // If replying to a specific message
-      if (reply_to) {
-        payload.message_reference = { message_id: reply_to };
-      }
+  const allowed =
+    (await isDiscordChannelAllowed(env, channelId)) ||
+    (DISCORD_THREAD_TYPES.includes(channel.type) && channel.parent_id && (await isDiscordChannelAllowed(env, channel.parent_id)));
+  if (!allowed) {
+    return jsonResponse({ error: "CHANNEL_NOT_ALLOWED", channelId }, 403);
+  }
 
-      // Send message via Discord REST API
-      const discordResponse = await fetch(
-        `https://discord.com/api/v10/channels/${channelId}/messages`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        }
-      );
+  return channel;
+}
 
-      if (!discordResponse.ok) {
-        const error = await discordResponse.text();
-        return jsonResponse(
-          {
-            error: "DISCORD_API_ERROR",
-            status: discordResponse.status,
-            details: error,
-          },
-          discordResponse.status
-        );
-      }
+function discordDisplayName(user: any): string {
+  return user?.global_name || user?.username || "unknown";
+}
 
-      const sentMessage: any = await discordResponse.json();
+// <@id> and <@!id> become @display name, using the users Discord
+// attaches to the message; unknown ids are left as they are.
+function resolveDiscordMentions(content: string, mentions: any[]): string {
+  const names = new Map((mentions ?? []).map((user: any) => [user.id, discordDisplayName(user)]));
+  return content.replace(/<@!?(\d+)>/g, (match, id) => (names.has(id) ? `@${names.get(id)}` : match));
+}
 
-      return jsonResponse({
-        status: "sent",
-        channel_id: channelId,
-        message_id: sentMessage.id,
-        timestamp: sentMessage.timestamp,
-      });
-    }
+function formatDiscordEmoji(emoji: any): string {
+  return emoji?.id ? `<${emoji.animated ? "a" : ""}:${emoji.name}:${emoji.id}>` : emoji?.name ?? "";
+}
 
-    // --- DASHBOARD ---
-    if (url.pathname === "/dashboard" || url.pathname === "/dashboard/") {
-      return new Response(getDashboardHTML(env), {
-        headers: {
-          'Content-Type': 'text/html;charset=UTF-8',
-          'Cache-Control': 'no-cache',
-          ...corsHeaders,
-        },
-      });
-    }
+function formatDiscordMessage(msg: any) {
+  return {
+    id: msg.id,
+    author: {
+      id: msg.author.id,
+      username: msg.author.username,
+      display_name: discordDisplayName(msg.author),
+      bot: msg.author.bot || false,
+    },
+    content: msg.content,
+    content_resolved: resolveDiscordMentions(msg.content ?? "", msg.mentions),
+    timestamp: msg.timestamp,
+    edited_timestamp: msg.edited_timestamp ?? null,
+    relative_time: relativeTime(msg.timestamp),
+    mentions: (msg.mentions ?? []).map((user: any) => ({
+      id: user.id,
+      username: user.username,
+      display_name: discordDisplayName(user),
+    })),
+    attachments: (msg.attachments ?? []).map((a: any) => ({
+      id: a.id,
+      filename: a.filename,
+      url: a.url,
+      content_type: a.content_type ?? null,
+      size: a.size,
+      description: a.description ?? null,
+    })),
+    embeds: (msg.embeds ?? []).map((e: any) => ({
+      type: e.type ?? null,
+      title: e.title ?? null,
+      description: e.description ?? null,
+      url: e.url ?? null,
+    })),
+    reactions: (msg.reactions ?? []).map((r: any) => ({
+      emoji: formatDiscordEmoji(r.emoji),
+      count: r.count,
+    })),
+    reply_to: msg.referenced_message?.id || msg.message_reference?.message_id || null,
+    thread: msg.thread ? { id: msg.thread.id, name: msg.thread.name } : null,
+  };
+}
+
+function formatDiscordThread(thread: any) {
+  return {
+    id: thread.id,
+    name: thread.name,
+    parent_id: thread.parent_id,
+    owner_id: thread.owner_id ?? null,
+    message_count: thread.message_count ?? null,
+    last_message_id: thread.last_message_id ?? null,
+    archived: thread.thread_metadata?.archived ?? false,
+    locked: thread.thread_metadata?.locked ?? false,
+    created_at: thread.thread_metadata?.create_timestamp ?? null,
+  };
+}
 
-    // --- DEFAULT FALLBACK ---
-    return textResponse("the tether is alive. Dashboard at /dashboard");
-  },
-};
 
 // ============================================================
-// DASHBOARD HTML
+// DISCORD INTERACTIONS - Slash commands
+// ============================================================
+// POST /discord/interactions is called by Discord, not by key holders:
+// requests are verified against DISCORD_PUBLIC_KEY (Ed25519 over
+// timestamp + body) and then run the normal routes as a write-scoped
+// "discord" key for DISCORD_AGENT. The agent is never taken from the
+// interaction, since anyone in the channel can fill in its options.
+// Commands only work in allowed channels (and their threads), and not
+// at all while the allow-list is empty.
+// Replies are ephemeral; slow commands are deferred and the answer is
+// edited into the deferred message once the work is done.
 // ============================================================
-function getDashboardHTML(env: Env): string {
-  // Get API base URL from request origin (self-referential)
-  const API_BASE = ''; // Empty = same origin
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no">
-  <meta name="apple-mobile-web-app-capable" content="yes">
-  <meta name="apple-mobile-web-app-status-bar-style" content="black-translucent">
-  <meta name="theme-color" content="#0d1117">
-  <title>Tether Mind Dashboard</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
+const DISCORD_INTERACTION = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+  MODAL_SUBMIT: 5,
+} as const;
+
+const DISCORD_CALLBACK = {
+  PONG: 1,
+  CHANNEL_MESSAGE: 4,
+  DEFERRED_CHANNEL_MESSAGE: 5,
+  MODAL: 9,
+} as const;
+
+const DISCORD_EPHEMERAL = 64;
+const DISCORD_SIGNATURE_MAX_AGE_S = 300;
+
+// Registered with POST /discord/commands
+const DISCORD_COMMANDS = [
+  {
+    name: 'remember',
+    description: 'Save something as an observation',
+    options: [
+      { type: 3, name: 'text', description: 'What to remember', required: true },
+      { type: 3, name: 'kind', description: 'Observation kind (default: discord)', required: false },
+    ],
+  },
+  {
+    name: 'recall',
+    description: 'Search observations',
+    options: [{ type: 3, name: 'query', description: 'Search terms', required: true }],
+  },
+  {
+    name: 'wake',
+    description: 'Show a compact wake summary',
+  },
+  {
+    name: 'checkin',
+    description: "Fill in today's tracker entry",
+  },
+];
+
+type InteractionRoute = (request: Request, auth: AuthContext) => Promise<Response>;
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+async function verifyDiscordSignature(
+  publicKeyHex: string,
+  signatureHex: string,
+  timestamp: string,
+  body: string
+): Promise<boolean> {
+  if (!/^[0-9a-f]{128}$/i.test(signatureHex) || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > DISCORD_SIGNATURE_MAX_AGE_S) return false;
+
+  try {
+    const key = await crypto.subtle.importKey('raw', hexToBytes(publicKeyHex), { name: 'Ed25519' }, false, ['verify']);
+    return await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      hexToBytes(signatureHex),
+      new TextEncoder().encode(timestamp + body)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function interactionReply(content: string, type: number = DISCORD_CALLBACK.CHANNEL_MESSAGE): Response {
+  return jsonResponse({
+    type,
+    data: { content: content.slice(0, DISCORD_CLIENT.MESSAGE_LIMIT), flags: DISCORD_EPHEMERAL },
+  });
+}
+
+function interactionOptions(interaction: any): Record<string, any> {
+  return Object.fromEntries((interaction.data?.options ?? []).map((o: any) => [o.name, o.value]));
+}
+
+function interactionUser(interaction: any): any {
+  return interaction.member?.user ?? interaction.user ?? {};
+}
+
+// Internal request against the normal routes
+function interactionRequest(path: string, method = 'GET', body?: any): Request {
+  return new Request(`https://tether.internal${path}`, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// Routes answer errors as JSON or plain text
+async function interactionError(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text);
+    return data.message ?? data.error ?? text;
+  } catch {
+    return text || `HTTP ${response.status}`;
+  }
+}
+
+// Replaces the deferred reply; anything past 2000 characters follows
+// as extra ephemeral messages
+async function finishDeferredInteraction(env: Env, interaction: any, content: string): Promise<void> {
+  const webhook = `/webhooks/${interaction.application_id}/${interaction.token}`;
+  const [first, ...rest] = splitDiscordMessage(content || '(nothing to show)');
+  await discordRequest(env, null, 'PATCH', `${webhook}/messages/@original`, { content: first });
+  for (const part of rest) {
+    await discordRequest(env, null, 'POST', webhook, { content: part, flags: DISCORD_EPHEMERAL });
+  }
+}
+
+async function rememberCommand(route: InteractionRoute, auth: AuthContext, interaction: any): Promise<string> {
+  const options = interactionOptions(interaction);
+  const response = await route(
+    interactionRequest('/observe', 'POST', {
+      agent_id: auth.agent,
+      author: discordDisplayName(interactionUser(interaction)),
+      perspective: 'shared',
+      kind: options.kind || 'discord',
+      content: options.text,
+      source_platform: 'discord',
+      source_ref: `discord-interaction:${interaction.id}`,
+    }),
+    auth
+  );
+  if (!response.ok) return `Could not remember that: ${await interactionError(response)}`;
+  const data: any = await response.json();
+  return data.warning
+    ? `Remembered for ${auth.agent} (${data.id}). Note: ${data.warning}`
+    : `Remembered for ${auth.agent} (${data.id}).`;
+}
+
+async function recallCommand(route: InteractionRoute, auth: AuthContext, interaction: any): Promise<string> {
+  const { query } = interactionOptions(interaction);
+  const response = await route(
+    interactionRequest(`/observe/search/${encodeURIComponent(auth.agent)}?q=${encodeURIComponent(query)}&limit=5`),
+    auth
+  );
+  if (!response.ok) return `Search failed: ${await interactionError(response)}`;
+  const data: any = await response.json();
+  if (data.observations.length === 0) return `Nothing found for "${query}".`;
+
+  return [
+    `**${data.total_matches}** match(es) for "${query}":`,
+    ...data.observations.map(
+      (o: any) => `- [${o.kind}] ${truncate(o.content, LIMITS.PREVIEW_LENGTH)} (salience ${o.decayed_salience})`
+    ),
+  ].join('\n');
+}
+
+async function wakeCommand(route: InteractionRoute, auth: AuthContext): Promise<string> {
+  const response = await route(
+    interactionRequest(`/wake/${encodeURIComponent(auth.agent)}?compact=true&tracker=true&limit=10`),
+    auth
+  );
+  if (!response.ok) return `Wake failed: ${await interactionError(response)}`;
+  const data: any = await response.json();
+
+  const emotions = Object.entries(data.emotions ?? {})
+    .map(([name, value]) => `${name} ${value}%`)
+    .join(', ');
+  const tracker = data.trackerState
+    ? `Tracker (${data.trackerState.date}): emergence ${data.trackerState.emergence_index}, coherence ${data.trackerState.coherence_index}, impact ${data.trackerState.impact_index}`
+    : 'Tracker: no entries yet';
+
+  return [
+    `**Wake: ${auth.agent}**`,
+    `Emotions: ${emotions || 'none yet'}`,
+    tracker,
+    '',
+    ...data.observations
+      .slice(0, 8)
+      .map((o: any) => `- ${o.pinned ? '📌 ' : ''}[${o.kind}] ${truncate(o.content, LIMITS.PREVIEW_LENGTH)}`),
+  ].join('\n');
+}
+
+// Discord modals hold at most five inputs, so every marker goes in one
+// "marker: score note" box, prefilled from the agent's schema
+function checkinModal(agent: string, schema: TrackerSchema): any {
+  const textInput = (custom_id: string, label: string, style: number, extra: any = {}) => ({
+    type: 1,
+    components: [{ type: 4, custom_id, label, style, ...extra }],
+  });
+
+  return {
+    type: DISCORD_CALLBACK.MODAL,
+    data: {
+      custom_id: 'checkin',
+      title: `Check-in: ${agent}`.slice(0, 45),
+      components: [
+        textInput('scores', 'Scores (marker: score, optional note)', 2, {
+          value: schema.markers.map((m) => `${m.name}: `).join('\n'),
+          required: true,
+        }),
+        textInput('active_goal', 'Active goal', 1, { required: false }),
+        textInput('daily_notes', 'Notes', 2, { required: false }),
+      ],
+    },
+  };
+}
+
+// "coherence: 3 held steady" -> { coherence: { score: 3, note: "held steady" } }
+function parseCheckinScores(text: string): Record<string, { score: number; note?: string }> | string {
+  const scores: Record<string, { score: number; note?: string }> = {};
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(/^([a-z][a-z0-9_]*)\s*[:=]\s*(-?\d+(?:\.\d+)?)?\s*(.*)$/i);
+    if (!match) return `Could not read "${line}" (use marker: score)`;
+    if (match[2] === undefined) continue;
+    scores[match[1].toLowerCase()] = { score: Number(match[2]), ...(match[3] ? { note: match[3] } : {}) };
+  }
+  return scores;
+}
+
+async function checkinSubmit(route: InteractionRoute, auth: AuthContext, interaction: any): Promise<string> {
+  const fields: Record<string, string> = {};
+  for (const row of interaction.data?.components ?? []) {
+    for (const input of row.components ?? []) fields[input.custom_id] = input.value ?? '';
+  }
+
+  const scores = parseCheckinScores(fields.scores ?? '');
+  if (typeof scores === 'string') return scores;
+
+  const response = await route(
+    interactionRequest('/tracker/entry', 'POST', {
+      agent: auth.agent,
+      ...scores,
+      active_goal: fields.active_goal || undefined,
+      daily_notes: fields.daily_notes || undefined,
+    }),
+    auth
+  );
+  if (!response.ok) return `Check-in not saved: ${await interactionError(response)}`;
+  const data: any = await response.json();
+
+  return `Check-in saved for ${auth.agent} (${data.date}). Emergence ${data.emergence_index}, coherence ${data.coherence_index}, impact ${data.impact_index}.`;
+}
+
+async function handleDiscordInteraction(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext | undefined,
+  route: InteractionRoute
+): Promise<Response> {
+  const body = await request.text();
+  const valid = env.DISCORD_PUBLIC_KEY
+    ? await verifyDiscordSignature(
+        env.DISCORD_PUBLIC_KEY,
+        request.headers.get('X-Signature-Ed25519') ?? '',
+        request.headers.get('X-Signature-Timestamp') ?? '',
+        body
+      )
+    : false;
+  if (!valid) {
+    return jsonResponse({ error: "INVALID_SIGNATURE", message: "Bad or missing Discord request signature" }, 401);
+  }
+
+  const interaction: any = JSON.parse(body);
+  if (interaction.type === DISCORD_INTERACTION.PING) {
+    return jsonResponse({ type: DISCORD_CALLBACK.PONG });
+  }
+
+  // An empty allow-list means "every channel" for the REST routes, but
+  // here it would hand write access to any server the bot is in
+  const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
+  if (!allowedRaw || JSON.parse(allowedRaw).length === 0) {
+    return interactionReply("No channels are connected to the tether yet.");
+  }
+
+  const channelId = interaction.channel_id ?? interaction.channel?.id;
+  const parentId = interaction.channel?.parent_id;
+  const allowed =
+    channelId &&
+    ((await isDiscordChannelAllowed(env, channelId)) ||
+      (parentId && DISCORD_THREAD_TYPES.includes(interaction.channel?.type) && (await isDiscordChannelAllowed(env, parentId))));
+  if (!allowed) {
+    return interactionReply("This channel isn't connected to the tether.");
+  }
+
+  const command = interaction.type === DISCORD_INTERACTION.MODAL_SUBMIT
+    ? String(interaction.data?.custom_id ?? '').split(':')[0]
+    : interaction.data?.name;
+  const agent = env.DISCORD_AGENT;
+  if (!agent) {
+    return interactionReply('DISCORD_AGENT is not set.');
+  }
+
+  const auth: AuthContext = { keyId: 'discord', agent, scope: 'write' };
+
+  if (command === 'checkin' && interaction.type === DISCORD_INTERACTION.APPLICATION_COMMAND) {
+    return jsonResponse(checkinModal(agent, await getTrackerSchema(env, agent)));
+  }
+
+  let work: () => Promise<string>;
+  switch (command) {
+    case 'remember':
+      work = () => rememberCommand(route, auth, interaction);
+      break;
+    case 'recall':
+      work = () => recallCommand(route, auth, interaction);
+      break;
+    case 'wake':
+      work = () => wakeCommand(route, auth);
+      break;
+    case 'checkin':
+      work = () => checkinSubmit(route, auth, interaction);
+      break;
+    default:
+      return interactionReply(`Unknown command: ${command}`);
+  }
+
+  // Discord wants an answer within 3 seconds: defer, then edit it in
+  const followUp = work()
+    .catch((err) => `Something went wrong: ${String(err?.message ?? err)}`)
+    .then((content) => finishDeferredInteraction(env, interaction, content));
+  if (ctx) {
+    ctx.waitUntil(followUp);
+  } else {
+    await followUp;
+  }
+
+  return jsonResponse({ type: DISCORD_CALLBACK.DEFERRED_CHANNEL_MESSAGE, data: { flags: DISCORD_EPHEMERAL } });
+}
+
+// ============================================================
+// NOTIFICATIONS - Event subscriptions + delivery log
+// ============================================================
+// Subscriptions are per agent and deliver to a webhook (HMAC-signed
+// JSON) or an allowed Discord channel. Every event is written to
+// notification_deliveries first, then attempted; failures are retried
+// with backoff by the NOTIFY.RETRY_CRON trigger until MAX_ATTEMPTS.
+//
+// Webhook requests carry:
+//   X-Tether-Event, X-Tether-Delivery, X-Tether-Timestamp
+//   X-Tether-Signature: sha256=HMAC(secret, `${timestamp}.${body}`)
+// ============================================================
+
+const NOTIFICATION_EVENTS = ['drift_detected', 'correction_added', 'tracker_missed_day', 'soulfile_changed'] as const;
+type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number] | 'test';
+
+const NOTIFY = {
+  MAX_ATTEMPTS: 6,
+  BACKOFF_MINUTES: [1, 5, 15, 60, 240],
+  TIMEOUT_MS: 5000,
+  RETRY_CRON: '*/5 * * * *',
+  RETRY_BATCH: 50,
+  DELIVERIES_PAGE_MAX: 200,
+} as const;
+
+interface DeliveryAttempt {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+  retryable: boolean;
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function parseSubscription(row: any, includeSecret = false): Record<string, any> {
+  const { secret, ...rest } = row;
+  return {
+    ...rest,
+    events: JSON.parse(row.events),
+    enabled: !!row.enabled,
+    ...(includeSecret ? { secret } : {}),
+  };
+}
+
+// Returns a message, or null when the subscription is valid
+function validateSubscription(body: any): string | null {
+  if (!Array.isArray(body?.events) || body.events.length === 0) {
+    return `events must be a non-empty array of: ${NOTIFICATION_EVENTS.join(', ')}, or "*"`;
+  }
+  const unknown = body.events.filter((e: any) => e !== '*' && !NOTIFICATION_EVENTS.includes(e));
+  if (unknown.length > 0) return `Unknown events: ${unknown.join(', ')}`;
+
+  if (body.type === 'webhook') {
+    try {
+      const target = new URL(body.url);
+      if (target.protocol !== 'https:' && target.protocol !== 'http:') return 'url must be http(s)';
+    } catch {
+      return 'webhook subscriptions need a valid url';
+    }
+    return null;
+  }
+  if (body.type === 'discord') {
+    return typeof body.channel_id === 'string' && body.channel_id ? null : 'discord subscriptions need a channel_id';
+  }
+  return 'type must be webhook or discord';
+}
+
+function notificationText(event: NotificationEvent, agent: string, data: any): string {
+  switch (event) {
+    case 'drift_detected':
+      return `⚠️ **${agent}**: drift detected - ${data.name} (${data.severity}) on ${data.matchDays.length} day(s). ${data.description ?? ''}`.trim();
+    case 'correction_added':
+      return `✏️ **${agent}**: correction recorded - ${truncate(data.content, LIMITS.PREVIEW_LENGTH)}`;
+    case 'tracker_missed_day':
+      return `📭 **${agent}**: no tracker entry for ${data.date} (last entry ${data.last_entry ?? 'never'}).`;
+    case 'soulfile_changed':
+      return `📜 **${agent}**: soulfile updated to v${data.version} by ${data.author}${data.note ? ` - ${data.note}` : ''}.`;
+    default:
+      return `🔔 **${agent}**: test notification from the tether.`;
+  }
+}
+
+// One attempt; 4xx other than 408/429 is permanent
+async function attemptDelivery(env: Env, subscription: any, delivery: any): Promise<DeliveryAttempt> {
+  const data = JSON.parse(delivery.payload);
+
+  try {
+    let response: Response;
+    if (subscription.type === 'discord') {
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) return { ok: false, status: null, error: 'Discord bot token not configured', retryable: true };
+      if (!(await isDiscordChannelAllowed(env, subscription.target))) {
+        return { ok: false, status: 403, error: 'CHANNEL_NOT_ALLOWED', retryable: false };
+      }
+      const content = notificationText(delivery.event, delivery.agent, data);
+      const { failed } = await sendDiscordMessage(env, botToken, subscription.target, content);
+      response = failed ?? new Response(null, { status: 204 });
+    } else {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const body = JSON.stringify({
+        id: delivery.id,
+        event: delivery.event,
+        agent: delivery.agent,
+        created_at: delivery.created_at,
+        data,
+      });
+      response = await fetch(subscription.target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'tether-mind-notifications',
+          'X-Tether-Event': delivery.event,
+          'X-Tether-Delivery': delivery.id,
+          'X-Tether-Timestamp': timestamp,
+          'X-Tether-Signature': `sha256=${await hmacSha256Hex(subscription.secret, `${timestamp}.${body}`)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(NOTIFY.TIMEOUT_MS),
+      });
+    }
+
+    if (response.ok) return { ok: true, status: response.status, retryable: false };
+    const detail = (await response.text()).slice(0, 500);
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    return { ok: false, status: response.status, error: detail || `HTTP ${response.status}`, retryable };
+  } catch (err: any) {
+    return { ok: false, status: null, error: String(err?.message ?? err), retryable: true };
+  }
+}
+
+// Attempts one delivery and records the outcome
+async function runDelivery(env: Env, delivery: any): Promise<string> {
+  const subscription: any = await env.DB.prepare(`SELECT * FROM notification_subscriptions WHERE id = ?`)
+    .bind(delivery.subscription_id)
+    .first();
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const result: DeliveryAttempt = subscription
+    ? await attemptDelivery(env, subscription, delivery)
+    : { ok: false, status: null, error: 'Subscription deleted', retryable: false };
+
+  let status = 'delivered';
+  let nextAttemptAt: string | null = null;
+  if (!result.ok) {
+    if (result.retryable && attempts < NOTIFY.MAX_ATTEMPTS) {
+      status = 'pending';
+      const delay = NOTIFY.BACKOFF_MINUTES[Math.min(attempts - 1, NOTIFY.BACKOFF_MINUTES.length - 1)];
+      nextAttemptAt = new Date(now.getTime() + delay * 60000).toISOString();
+    } else {
+      status = 'failed';
+    }
+  }
+
+  await env.DB.prepare(
+    `
+    UPDATE notification_deliveries
+    SET status = ?, attempts = ?, response_status = ?, last_error = ?, last_attempt_at = ?, next_attempt_at = ?,
+        delivered_at = ?
+    WHERE id = ?
+    `
+  )
+    .bind(
+      status, attempts, result.status, result.error ?? null, now.toISOString(), nextAttemptAt,
+      result.ok ? now.toISOString() : null, delivery.id
+    )
+    .run();
+
+  return status;
+}
+
+function newDelivery(subscriptionId: string, agent: string, event: NotificationEvent, data: any) {
+  return {
+    id: crypto.randomUUID(),
+    subscription_id: subscriptionId,
+    agent,
+    event,
+    payload: JSON.stringify(data),
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function deliveryInsertStatement(env: Env, delivery: ReturnType<typeof newDelivery>): D1PreparedStatement {
+  return env.DB.prepare(
+    `
+    INSERT INTO notification_deliveries (id, subscription_id, agent, event, payload, status, attempts, created_at, next_attempt_at)
+    VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)
+    `
+  ).bind(
+    delivery.id, delivery.subscription_id, delivery.agent, delivery.event, delivery.payload,
+    delivery.created_at, delivery.created_at
+  );
+}
+
+// Queues the event for every matching subscription. Nothing is sent
+// here, so a slow or failing receiver never holds up the write that
+// raised the event; the retry cron (RETRY_CRON) delivers it.
+async function notifyEvent(env: Env, agent: string, event: NotificationEvent, data: any): Promise<string[]> {
+  const subscriptions = await env.DB.prepare(
+    `SELECT * FROM notification_subscriptions WHERE agent = ? AND enabled = 1`
+  )
+    .bind(agent)
+    .all();
+
+  const matching = subscriptions.results.filter((sub: any) => {
+    const events: string[] = JSON.parse(sub.events);
+    return event === 'test' || events.includes('*') || events.includes(event);
+  });
+  if (matching.length === 0) return [];
+
+  const deliveries = matching.map((sub: any) => newDelivery(sub.id, agent, event, data));
+  await env.DB.batch(deliveries.map((delivery) => deliveryInsertStatement(env, delivery)));
+  return deliveries.map((d) => d.id);
+}
+
+// Retries pending deliveries whose backoff has elapsed
+async function retryDueDeliveries(env: Env, now = new Date()): Promise<Record<string, number>> {
+  const due = await env.DB.prepare(
+    `
+    SELECT *
+    FROM notification_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY next_attempt_at ASC
+    LIMIT ?
+    `
+  )
+    .bind(now.toISOString(), NOTIFY.RETRY_BATCH)
+    .all();
+
+  const counts: Record<string, number> = { attempted: 0, delivered: 0, pending: 0, failed: 0 };
+  for (const delivery of due.results) {
+    counts[await runDelivery(env, delivery)]++;
+    counts.attempted++;
+  }
+  return counts;
+}
+
+// ============================================================
+// MAINTENANCE - Scheduled jobs (Cron Trigger)
+// ============================================================
+// The scheduled handler runs the enabled jobs and logs each run to
+// maintenance_runs (see /maintenance/runs). Daily jobs run on every
+// trigger; weekly jobs only on DIGEST_WEEKDAY (UTC, 0 = Sunday,
+// default 1 = Monday). POST /maintenance/run runs jobs on demand.
+// ============================================================
+
+interface MaintenanceJobResult {
+  job: string;
+  status: 'ok' | 'failed';
+  duration_ms: number;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+interface MaintenanceJob {
+  schedule: 'daily' | 'weekly';
+  description: string;
+  run: (env: Env, now: Date, runId: string) => Promise<Record<string, any>>;
+}
+
+const MAINTENANCE_PAGE_SIZE = 500;
+
+// Every agent with observations or tracker entries
+async function listAgents(env: Env): Promise<string[]> {
+  const rows = await env.DB.prepare(
+    `SELECT agent_id AS agent FROM observations UNION SELECT agent FROM tracker_entries`
+  ).all();
+  return rows.results.map((r: any) => r.agent).filter(Boolean);
+}
+
+// --- JOB: DRIFT ---
+// Evaluates every agent's rules over the last 7 days and stores alerts
+// not already recorded (one per agent, rule and latest matching day).
+// New alerts notify drift_detected; an agent that logged this week but
+// not yesterday gets tracker_missed_day.
+async function runDriftJob(env: Env, now: Date, runId: string): Promise<Record<string, any>> {
+  const cutoff = new Date(now.getTime() - 7 * DAY_MS).toISOString().split('T')[0];
+  const yesterday = new Date(now.getTime() - DAY_MS).toISOString().split('T')[0];
+  const stored: Array<{ agent: string; alert: DriftSignature }> = [];
+  const missed: string[] = [];
+  const agents = await listAgents(env);
+
+  for (const agent of agents) {
+    const rows = await env.DB.prepare(`SELECT * FROM tracker_entries WHERE agent = ? AND date >= ? ORDER BY date DESC`)
+      .bind(agent, cutoff)
+      .all();
+    if (rows.results.length === 0) continue;
+
+    const entries = await loadTrackerEntries(env, rows.results);
+    if (!entries.some((entry) => entry.date === yesterday)) {
+      missed.push(agent);
+      await notifyEvent(env, agent, 'tracker_missed_day', { date: yesterday, last_entry: entries[0].date });
+    }
+
+    for (const alert of detectDrift(entries, await getDriftRules(env, agent))) {
+      const lastMatchDay = alert.matchDays.slice().sort().pop()!;
+      const inserted = await env.DB.prepare(
+        `
+        INSERT OR IGNORE INTO drift_alerts (
+          id, agent, type, name, severity, source, match_days, triggering_markers, last_match_day, detected_at, run_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+        .bind(
+          crypto.randomUUID(), agent, alert.type, alert.name, alert.severity, alert.source,
+          JSON.stringify(alert.matchDays), JSON.stringify(alert.triggeringMarkers),
+          lastMatchDay, now.toISOString(), runId
+        )
+        .run();
+      if (inserted.meta.changes) {
+        stored.push({ agent, alert });
+        await notifyEvent(env, agent, 'drift_detected', alert);
+      }
+    }
+  }
+
+  return {
+    agents: agents.length,
+    new_alerts: stored.length,
+    alerts: stored.map(({ agent, alert }) => ({ agent, type: alert.type, severity: alert.severity })),
+    missed_day: missed,
+  };
+}
+
+// --- JOB: PURGE ---
+// Hard-deletes observations soft-deleted more than
+// DELETED_RETENTION_DAYS ago (default 30), plus their index rows.
+// Also drops expired idempotency keys and finished notification
+// deliveries older than the same window.
+const PURGE_AUDIT: AuditContext = { actor: 'maintenance', route: 'scheduled purge' };
+
+async function runPurgeJob(env: Env, now: Date): Promise<Record<string, any>> {
+  const retentionDays = parseFloat(env.DELETED_RETENTION_DAYS ?? '') || 30;
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+  let purged = 0;
+
+  for (;;) {
+    const rows = await env.DB.prepare(
+      `SELECT * FROM observations WHERE deleted_at IS NOT NULL AND deleted_at < ? LIMIT ?`
+    )
+      .bind(cutoff, MAINTENANCE_PAGE_SIZE)
+      .all();
+    if (rows.results.length === 0) break;
+
+    await env.DB.batch(rows.results.flatMap((row) => observationPurgeStatements(env, row, PURGE_AUDIT)));
+    purged += rows.results.length;
+    if (rows.results.length < MAINTENANCE_PAGE_SIZE) break;
+  }
+
+  const expiredKeys = await env.DB.prepare(`DELETE FROM idempotency_keys WHERE expires_at < ?`)
+    .bind(now.toISOString())
+    .run();
+
+  const oldDeliveries = await env.DB.prepare(
+    `DELETE FROM notification_deliveries WHERE status IN ('delivered', 'failed') AND created_at < ?`
+  )
+    .bind(cutoff)
+    .run();
+
+  return {
+    retention_days: retentionDays,
+    purged_observations: purged,
+    expired_idempotency_keys: expiredKeys.meta.changes ?? 0,
+    purged_deliveries: oldDeliveries.meta.changes ?? 0,
+  };
+}
+
+// Everything stored about one observation, for hard deletes and purges,
+// plus its audit tombstone
+function observationPurgeStatements(env: Env, row: any, audit: AuditContext): D1PreparedStatement[] {
+  const id: string = row.id;
+  return [
+    ...auditTombstoneStatements(env, audit, row),
+    env.DB.prepare(`DELETE FROM observations WHERE id = ?`).bind(id),
+    ftsRemoveStatement(env, id),
+    env.DB.prepare(`DELETE FROM observation_embeddings WHERE observation_id = ?`).bind(id),
+    env.DB.prepare(`DELETE FROM observation_fingerprints WHERE observation_id = ?`).bind(id),
+    env.DB.prepare(`DELETE FROM observation_salience WHERE observation_id = ?`).bind(id),
+    env.DB.prepare(`DELETE FROM observation_edges WHERE source_id = ? OR target_id = ?`).bind(id, id),
+  ];
+}
+
+// --- JOB: DECAY ---
+// Snapshots computeDecayedSalience into observation_salience so the
+// wake's salient query can pick candidates by decayed value.
+async function runDecayJob(env: Env, now: Date): Promise<Record<string, any>> {
+  let updated = 0;
+  let lastId = '';
+
+  for (;;) {
+    const rows = await env.DB.prepare(
+      `
+      SELECT id, agent_id, salience, pinned, last_accessed
+      FROM observations
+      WHERE deleted_at IS NULL AND id > ?
+      ORDER BY id ASC
+      LIMIT ?
+      `
+    )
+      .bind(lastId, MAINTENANCE_PAGE_SIZE)
+      .all();
+    if (rows.results.length === 0) break;
+
+    await env.DB.batch(
+      rows.results.map((obs: any) =>
+        env.DB.prepare(
+          `
+          INSERT OR REPLACE INTO observation_salience (observation_id, agent_id, decayed_salience, computed_at)
+          VALUES (?, ?, ?, ?)
+          `
+        ).bind(obs.id, obs.agent_id, computeDecayedSalience(obs), now.toISOString())
+      )
+    );
+    updated += rows.results.length;
+    lastId = (rows.results[rows.results.length - 1] as any).id;
+    if (rows.results.length < MAINTENANCE_PAGE_SIZE) break;
+  }
+
+  const stale = await env.DB.prepare(
+    `DELETE FROM observation_salience WHERE observation_id NOT IN (SELECT id FROM observations WHERE deleted_at IS NULL)`
+  ).run();
+
+  return { updated, removed: stale.meta.changes ?? 0 };
+}
+
+// --- JOB: DIGEST ---
+// One record per agent summarising the 7 days up to and including the run day.
+async function runDigestJob(env: Env, now: Date, runId: string): Promise<Record<string, any>> {
+  const periodEnd = now.toISOString().split('T')[0];
+  const periodStart = new Date(now.getTime() - 6 * DAY_MS).toISOString().split('T')[0];
+  const until = now.toISOString();
+  const agents = await listAgents(env);
+  let written = 0;
+
+  for (const agent of agents) {
+    const stats: any = await env.DB.prepare(
+      `
+      SELECT
+        COUNT(*) AS count,
+        AVG(emotion_intimacy) AS emotion_intimacy,
+        AVG(emotion_conflict) AS emotion_conflict,
+        AVG(emotion_joy) AS emotion_joy,
+        AVG(emotion_fear) AS emotion_fear
+      FROM observations
+      WHERE agent_id = ? AND deleted_at IS NULL AND created_at >= ? AND created_at <= ?
+      `
+    )
+      .bind(agent, periodStart, until)
+      .first();
+
+    const kinds = await env.DB.prepare(
+      `
+      SELECT kind, COUNT(*) AS count
+      FROM observations
+      WHERE agent_id = ? AND deleted_at IS NULL AND created_at >= ? AND created_at <= ?
+      GROUP BY kind
+      ORDER BY count DESC
+      `
+    )
+      .bind(agent, periodStart, until)
+      .all();
+
+    const top = await env.DB.prepare(
+      `
+      SELECT id, kind, content, salience
+      FROM observations
+      WHERE agent_id = ? AND deleted_at IS NULL AND created_at >= ? AND created_at <= ?
+      ORDER BY salience DESC, created_at DESC
+      LIMIT 5
+      `
+    )
+      .bind(agent, periodStart, until)
+      .all();
+
+    const tracker: any = await env.DB.prepare(
+      `
+      SELECT
+        COUNT(*) AS entries,
+        AVG(emergence_index) AS emergence_index,
+        AVG(coherence_index) AS coherence_index,
+        AVG(impact_index) AS impact_index
+      FROM tracker_entries
+      WHERE agent = ? AND date >= ? AND date <= ?
+      `
+    )
+      .bind(agent, periodStart, periodEnd)
+      .first();
+
+    const alerts: any = await env.DB.prepare(
+      `SELECT COUNT(*) AS count FROM drift_alerts WHERE agent = ? AND detected_at >= ? AND detected_at <= ?`
+    )
+      .bind(agent, periodStart, until)
+      .first();
+
+    const digest = {
+      observations: {
+        count: stats?.count ?? 0,
+        byKind: Object.fromEntries(kinds.results.map((k: any) => [k.kind, k.count])),
+        emotions: Object.fromEntries(EMOTION_FIELDS.map((f) => [f, round2(stats?.[f] ?? null)])),
+        top: top.results.map((o: any) => ({
+          id: o.id,
+          kind: o.kind,
+          salience: o.salience,
+          preview: o.content.slice(0, LIMITS.PREVIEW_LENGTH),
+        })),
+      },
+      tracker: {
+        entries: tracker?.entries ?? 0,
+        emergence_index: round2(tracker?.emergence_index ?? null),
+        coherence_index: round2(tracker?.coherence_index ?? null),
+        impact_index: round2(tracker?.impact_index ?? null),
+      },
+      driftAlerts: alerts?.count ?? 0,
+    };
+
+    await env.DB.prepare(
+      `
+      INSERT OR REPLACE INTO weekly_digests (id, agent, period_start, period_end, digest, created_at, run_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      `
+    )
+      .bind(crypto.randomUUID(), agent, periodStart, periodEnd, JSON.stringify(digest), now.toISOString(), runId)
+      .run();
+    written++;
+  }
+
+  return { period_start: periodStart, period_end: periodEnd, digests: written };
+}
+
+const MAINTENANCE_JOBS: Record<string, MaintenanceJob> = {
+  drift: { schedule: 'daily', description: 'Evaluate drift rules and store new alerts', run: runDriftJob },
+  purge: { schedule: 'daily', description: 'Hard-delete observations past the soft-delete retention window', run: runPurgeJob },
+  decay: { schedule: 'daily', description: 'Materialise decayed salience', run: runDecayJob },
+  digest: { schedule: 'weekly', description: 'Write a weekly digest per agent', run: runDigestJob },
+};
+
+// Jobs switched on by MAINTENANCE_JOBS (comma-separated; default all)
+function enabledMaintenanceJobs(env: Env): string[] {
+  const configured = env.MAINTENANCE_JOBS?.split(',').map((j) => j.trim()).filter(Boolean);
+  return configured ? configured.filter((j) => Object.hasOwn(MAINTENANCE_JOBS, j)) : Object.keys(MAINTENANCE_JOBS);
+}
+
+// Runs the given jobs (or, for cron runs, whichever are due) and logs the run
+async function runMaintenance(
+  env: Env,
+  options: { trigger: 'cron' | 'manual'; cron?: string; jobs?: string[]; now?: Date }
+): Promise<Record<string, any>> {
+  await ensureAuxSchema(env);
+
+  const now = options.now ?? new Date();
+  const weekday = parseInt(env.DIGEST_WEEKDAY ?? '1');
+  const jobs = options.jobs ?? enabledMaintenanceJobs(env).filter(
+    (name) => MAINTENANCE_JOBS[name].schedule === 'daily' || now.getUTCDay() === weekday
+  );
+
+  const runId = crypto.randomUUID();
+  await env.DB.prepare(
+    `INSERT INTO maintenance_runs (id, trigger, cron, status, jobs, started_at) VALUES (?, ?, ?, 'running', '[]', ?)`
+  )
+    .bind(runId, options.trigger, options.cron ?? null, now.toISOString())
+    .run();
+
+  // Jobs run one after another; a failing job doesn't stop the rest
+  const results: MaintenanceJobResult[] = [];
+  for (const job of jobs) {
+    const started = Date.now();
+    try {
+      const result = await MAINTENANCE_JOBS[job].run(env, now, runId);
+      results.push({ job, status: 'ok', duration_ms: Date.now() - started, result });
+    } catch (err: any) {
+      results.push({ job, status: 'failed', duration_ms: Date.now() - started, error: String(err?.message ?? err) });
+    }
+  }
+
+  const failed = results.filter((r) => r.status === 'failed').length;
+  const status = failed === 0 ? 'ok' : failed === results.length ? 'failed' : 'partial';
+  const finishedAt = new Date().toISOString();
+
+  await env.DB.prepare(`UPDATE maintenance_runs SET status = ?, jobs = ?, finished_at = ? WHERE id = ?`)
+    .bind(status, JSON.stringify(results), finishedAt, runId)
+    .run();
+
+  return {
+    id: runId,
+    trigger: options.trigger,
+    cron: options.cron ?? null,
+    status,
+    started_at: now.toISOString(),
+    finished_at: finishedAt,
+    jobs: results,
+  };
+}
+
+function parseMaintenanceRun(row: any): Record<string, any> {
+  return { ...row, jobs: JSON.parse(row.jobs || '[]') };
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+
+    // --- CORS PREFLIGHT ---
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    // --- PUBLIC PAGES (no key; the pages prompt for one) ---
+    if (request.method === "GET") {
+      if (url.pathname === "/dashboard" || url.pathname === "/dashboard/") {
+        return new Response(getDashboardHTML(env), {
+          headers: {
+            'Content-Type': 'text/html;charset=UTF-8',
+            'Cache-Control': 'no-cache',
+            ...corsHeaders,
+          },
+        });
+      }
+
+      if (url.pathname === "/discord") {
+        return new Response(getDiscordHTML(), {
+          headers: {
+            'Content-Type': 'text/html',
+            ...corsHeaders,
+          },
+        });
+      }
+
+      if (url.pathname === "/") {
+        return textResponse("the tether is alive. Dashboard at /dashboard");
+      }
+    }
+
+    await ensureAuxSchema(env);
+
+    // --- DISCORD INTERACTIONS (signed by Discord instead of a key) ---
+    if (url.pathname === "/discord/interactions" && request.method === "POST") {
+      return handleDiscordInteraction(request, env, ctx, (inner, interactionAuth) =>
+        this.route(inner, env, interactionAuth)
+      );
+    }
+
+    // --- AUTHENTICATION ---
+    const auth = await authenticate(request, env);
+    if (!auth) {
+      return jsonResponse(
+        { error: "UNAUTHORIZED", message: "Missing or invalid bearer token" },
+        401
+      );
+    }
+
+    // --- IDEMPOTENT WRITES ---
+    // Re-enters fetch with the body buffered so the response can be stored
+    const idempotencyKey = request.headers.get("Idempotency-Key");
+    if (idempotencyKey !== null && request.method === "POST" && IDEMPOTENT_ROUTES.includes(url.pathname)) {
+      return handleIdempotentRequest(request, env, auth, idempotencyKey, (inner) => this.fetch(inner, env, ctx));
+    }
+
+    return this.route(request, env, auth);
+  },
+
+  // --- AUTHENTICATED ROUTES ---
+  async route(request: Request, env: Env, auth: AuthContext): Promise<Response> {
+    const url = new URL(request.url);
+
+    // Routes decode path segments (section names, agents, ids); a bad
+    // %-escape anywhere in the path would otherwise throw a URIError
+    try {
+      decodeURIComponent(url.pathname);
+    } catch {
+      return textResponse("Malformed percent-encoding in path", 400);
+    }
+
+    // --- WHOAMI ---
+    if (url.pathname === "/auth/whoami" && request.method === "GET") {
+      return jsonResponse({ key_id: auth.keyId, agent: auth.agent, scope: auth.scope });
+    }
+
+    // --- MINT API KEY ---
+    if (url.pathname === "/auth/keys" && request.method === "POST") {
+      const body: any = await request.json();
+      const { agent, scope, label } = body;
+
+      if (!agent || typeof agent !== "string") {
+        return textResponse("Missing agent field", 400);
+      }
+      if (typeof scope !== "string" || !Object.hasOwn(SCOPE_RANK, scope)) {
+        return textResponse("scope must be one of: read, write, admin", 400);
+      }
+
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const key = generateApiKey();
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+
+      await env.DB.prepare(
+        `
+        INSERT INTO api_keys (id, key_hash, agent, scope, label, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        `
+      )
+        .bind(id, await sha256Hex(key), agent, scope, label ?? null, now)
+        .run();
+
+      // The plaintext key is only ever returned here
+      return jsonResponse({ status: "ok", id, key, agent, scope, label: label ?? null, created_at: now });
+    }
+
+    // --- LIST API KEYS ---
+    if (url.pathname === "/auth/keys" && request.method === "GET") {
+      const agent = url.searchParams.get("agent") ?? auth.agent;
+      const includeRevoked = url.searchParams.get("include_revoked") === "true";
+
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      let sql = `
+        SELECT id, agent, scope, label, created_at, last_used_at, revoked_at
+        FROM api_keys
+      `;
+      const params: any[] = [];
+
+      if (agent !== ALL_AGENTS) {
+        sql += ` WHERE agent = ?`;
+        params.push(agent);
+      }
+      if (!includeRevoked) {
+        sql += params.length > 0 ? ` AND revoked_at IS NULL` : ` WHERE revoked_at IS NULL`;
+      }
+      sql += ` ORDER BY created_at DESC, id ASC`;
+
+      const result = await env.DB.prepare(sql).bind(...params).all();
+      return jsonResponse({ agent, keys: result.results });
+    }
+
+    // --- REVOKE API KEY ---
+    if (url.pathname.match(/^\/auth\/keys\/[^/]+$/) && request.method === "DELETE") {
+      const id = url.pathname.split("/")[3];
+
+      const key: any = await env.DB.prepare(`SELECT id, agent, revoked_at FROM api_keys WHERE id = ?`)
+        .bind(id)
+        .first();
+
+      if (!key) {
+        return jsonResponse({ error: "KEY_NOT_FOUND", id }, 404);
+      }
+
+      const denied = authorize(auth, "admin", key.agent);
+      if (denied) return denied;
+
+      const now = new Date().toISOString();
+      await env.DB.prepare(`UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?`)
+        .bind(now, id)
+        .run();
+
+      return jsonResponse({ status: "revoked", id });
+    }
+
+    // --- WAKE (GET) ---
+    if (url.pathname.startsWith("/wake/")) {
+      const agent = pathAgent(url, 2);
+      if (!agent) {
+        return textResponse("Missing agent", 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const requestedSections = (url.searchParams.get("sections") ?? "")
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean);
+      const { soulfile, missing: missingSections } = selectSoulfileSections(
+        await env.SOULFILES.get(`${agent}:active`),
+        requestedSections
+      );
+      const soulfileSections = requestedSections.length > 0
+        ? { requested: requestedSections, missing: missingSections }
+        : undefined;
+
+      const limit = Math.min(
+        Number(url.searchParams.get("limit")) || LIMITS.RECENT_MAX,
+        LIMITS.RECENT_MAX
+      );
+      const includeHot = url.searchParams.get("hot") !== "false";
+      const explain = url.searchParams.get("explain") === "true";
+      const budgetParam = Number(url.searchParams.get("budget"));
+      const budget = budgetParam > 0 ? Math.floor(budgetParam) : null;
+      const lenses = parseLenses(url.searchParams.get("lens"));
+
+      // 1. GET RECENT
+      const recentRaw = await env.DB.prepare(
+        `
+        SELECT *
+        FROM observations
+        WHERE agent_id = ?
+          AND deleted_at IS NULL
+          AND (status = 'active' OR status IS NULL)
+        ORDER BY created_at DESC, id ASC
+        LIMIT ?
+        `
+      )
+        .bind(agent, limit * LIMITS.QUERY_BUFFER)
+        .all();
+
+      // 2. GET SALIENT
+      // Candidates by the nightly decayed-salience snapshot when present
+      const salientRaw = await env.DB.prepare(
+        `
+        SELECT o.*
+        FROM observations o
+        LEFT JOIN observation_salience s ON s.observation_id = o.id
+        WHERE o.agent_id = ?
+          AND o.deleted_at IS NULL
+          AND (o.status = 'active' OR o.status IS NULL)
+        ORDER BY COALESCE(s.decayed_salience, o.salience) DESC, o.created_at DESC, o.id ASC
+        LIMIT ?
+        `
+      )
+        .bind(agent, limit * LIMITS.QUERY_BUFFER)
+        .all();
+
+      // 3. GET CRITICAL
+      const criticalRaw = await env.DB.prepare(
+        `
+        SELECT *
+        FROM observations
+        WHERE agent_id = ?
+          AND deleted_at IS NULL
+          AND (status = 'active' OR status IS NULL)
+          AND (salience >= 80 OR kind = 'correction')
+        ORDER BY salience DESC, created_at DESC, id ASC
+        LIMIT ?
+        `
+      )
+        .bind(agent, limit)
+        .all();
+
+      // Track source queries for explainability
+      const recentQueryIds = new Set(recentRaw.results.map((o: any) => o.id));
+      const salientQueryIds = new Set(salientRaw.results.map((o: any) => o.id));
+      const criticalQueryIds = new Set(criticalRaw.results.map((o: any) => o.id));
+
+      // Merge and dedupe
+      const allRaw = [
+        ...criticalRaw.results,
+        ...recentRaw.results,
+        ...salientRaw.results,
+      ];
+      const uniqueMap = new Map(allRaw.map((o: any) => [o.id, o]));
+      const unique = Array.from(uniqueMap.values());
+
+      // Apply conflict resolution (deterministic)
+      const resolved = resolveConflicts(unique);
+
+      // Compute derived fields
+      const withComputed = resolved.map((o) => ({
+        ...o,
+        decayed_salience: computeDecayedSalience(o),
+        hot_score: computeHotScore(o),
+      }));
+
+      // === APPLY LENS FILTERS ===
+      const lensFiltered = applyLenses(withComputed, lenses);
+
+      // Split into tiers (deterministic sorting)
+      const recent = deterministicSort(
+        lensFiltered,
+        (o) => new Date(o.created_at).getTime()
+      ).slice(0, limit);
+
+      const salient = deterministicSort(
+        lensFiltered,
+        (o) => o.decayed_salience
+      ).slice(0, limit);
+
+      const hot = includeHot
+        ? deterministicSort(lensFiltered, (o) => o.hot_score).slice(0, LIMITS.HOT_MAX)
+        : [];
+
+      const hotIds = new Set(hot.map((o) => o.id));
+
+      // Semantic tier: memories related to the current topic (?semantic=<text>)
+      const semanticTopic = url.searchParams.get("semantic");
+      let semantic: any[] = [];
+      let semanticError: string | null = null;
+      if (semanticTopic) {
+        const provider = getEmbeddingProvider(env);
+        try {
+          const [topicVector] = await provider.embed([semanticTopic]);
+          const similar = await findSimilarObservations(env, agent, topicVector, provider, {
+            limit: LIMITS.SEMANTIC_MAX * LIMITS.QUERY_BUFFER,
+            minScore: LIMITS.SEMANTIC_MIN_SCORE,
+          });
+          semantic = applyLenses(
+            similar.map((o) => ({
+              ...o,
+              decayed_salience: computeDecayedSalience(o),
+              hot_score: computeHotScore(o),
+            })),
+            lenses
+          ).slice(0, LIMITS.SEMANTIC_MAX);
+        } catch (err: any) {
+          semanticError = `${provider.name}: ${String(err?.message ?? err)}`;
+        }
+      }
+      const semanticIds = new Set(semantic.map((o) => o.id));
+
+      // Collect all loaded for invariant check
+      const allLoadedMap = new Map<string, any>();
+      [...recent, ...salient, ...hot].forEach((o) => allLoadedMap.set(o.id, o));
+
+      // Run invariant assertions
+      const violations = assertInvariants(recent, salient, hot, allLoadedMap);
+
+      // Semantic matches sit outside the WAKE_TOTAL_MAX contract (capped
+      // separately by SEMANTIC_MAX) but are still reinforced on access
+      semantic.forEach((o) => allLoadedMap.set(o.id, o));
+
+      // Graph tier: first-degree neighbours of hot memories (?neighbors=true),
+      // outside WAKE_TOTAL_MAX like semantic and capped by WAKE_NEIGHBORS_MAX
+      const neighbors = url.searchParams.get("neighbors") === "true"
+        ? applyLenses(await loadHotNeighbors(env, hot, new Set(allLoadedMap.keys())), lenses).slice(0, GRAPH.WAKE_NEIGHBORS_MAX)
+        : [];
+      neighbors.forEach((o) => allLoadedMap.set(o.id, o));
+
+      // Add explanations if requested
+      const addExplanation = (obs: any) => {
+        if (!explain) return obs;
+        const why_loaded = explainLoading(
+          obs,
+          recentQueryIds,
+          salientQueryIds,
+          hotIds,
+          criticalQueryIds,
+          lenses,
+          semanticIds
+        );
+        return { ...obs, why_loaded };
+      };
+
+      const recentExplained = recent.map(addExplanation);
+      const salientExplained = salient.map(addExplanation);
+      const hotExplained = hot.map(addExplanation);
+      const semanticExplained = semantic.map(addExplanation);
+      const neighborsExplained = explain
+        ? neighbors.map((o) => ({ ...o, why_loaded: [`neighbor:${o.edge_type}:${o.via}`] }))
+        : neighbors;
+
+      // Apply token budget (if any), reinforce what was actually
+      // delivered, and send. `slots` are where the format puts
+      // observations.
+      const finishWake = async (response: any, slots: string[][]) => {
+        let accessedIds = Array.from(allLoadedMap.keys());
+
+        if (semanticError) {
+          response.semantic_error = semanticError;
+        }
+
+        if (budget !== null) {
+          const candidates = budgetCandidates({ hot, salient, recent, semantic, neighbors }, criticalQueryIds, (obs) =>
+            explainLoading(obs, recentQueryIds, salientQueryIds, hotIds, criticalQueryIds, lenses, semanticIds)
+          );
+          const report = fitWakeToBudget(response, slots, budget, candidates);
+          const droppedIds = new Set(report.dropped.map((d) => d.id));
+          accessedIds = accessedIds.filter((id) => !droppedIds.has(id));
+
+          if ('tokenEstimate' in response) {
+            delete response.tokenEstimate;
+            response.tokenEstimate = estimateTokens(response);
+          }
+          if ('tokens' in response) {
+            response.tokens = estimateTokens({
+              soulfile: response.soulfile,
+              trackerState: response.trackerState,
+              observations: response.observations,
+              neighbors: response.neighbors,
+            });
+          }
+          response.budget = report;
+        }
+
+        // Reinforce accessed observations
+        await reinforceAccess(env, accessedIds);
+
+        return jsonResponse(response);
+      };
+
+      // Check for format options
+      const legacyFormat = url.searchParams.get("format") === "legacy";
+      const compactFormat = url.searchParams.get("compact") === "true";
+
+      // Optional: latest tracker day alongside the briefing (?tracker=true)
+      const trackerState = url.searchParams.get("tracker") === "true" ? await buildTrackerBriefing(env, agent) : undefined;
+
+      if (legacyFormat) {
+        // Return old format for backwards compatibility
+        const response: any = {
+          agent,
+          soulfile,
+          lens: formatLenses(lenses),
+          recent: recentExplained,
+          salient: salientExplained,
+          hot: hotExplained,
+        };
+
+        if (semanticTopic) {
+          response.semantic = semanticExplained;
+        }
+
+        if (neighbors.length > 0) {
+          response.neighbors = neighborsExplained;
+        }
+
+        if (violations.length > 0) {
+          response._invariant_violations = violations;
+        }
+
+        return finishWake(response, [["recent"], ["salient"], ["hot"], ["semantic"], ["neighbors"]]);
+      }
+
+      // === COMPACT FORMAT (for AI consumption) ===
+      if (compactFormat) {
+        // Deduplicate observations across all tiers
+        const allObsMap = new Map<string, any>();
+        [...recent, ...salient, ...hot, ...semantic].forEach((obs) => {
+          if (!allObsMap.has(obs.id)) {
+            allObsMap.set(obs.id, obs);
+          }
+        });
+
+        // Sort by decayed_salience DESC, then by created_at DESC
+        const dedupedObs = Array.from(allObsMap.values()).sort((a, b) => {
+          if (b.decayed_salience !== a.decayed_salience) {
+            return b.decayed_salience - a.decayed_salience;
+          }
+          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+        });
+
+        // Compute emotional snapshot from recent observations
+        const emotionTotals = { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+        for (const obs of recent.slice(0, 15)) {
+          emotionTotals.intimacy += obs.emotion_intimacy ?? 0;
+          emotionTotals.joy += obs.emotion_joy ?? 0;
+          emotionTotals.conflict += obs.emotion_conflict ?? 0;
+          emotionTotals.fear += obs.emotion_fear ?? 0;
+        }
+        const emotionTotal = emotionTotals.intimacy + emotionTotals.joy + emotionTotals.conflict + emotionTotals.fear;
+        const emotions = emotionTotal > 0
+          ? {
+              intimacy: Math.round((emotionTotals.intimacy / emotionTotal) * 100),
+              joy: Math.round((emotionTotals.joy / emotionTotal) * 100),
+              conflict: Math.round((emotionTotals.conflict / emotionTotal) * 100),
+              fear: Math.round((emotionTotals.fear / emotionTotal) * 100),
+            }
+          : { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+
+        // Strip to essential fields only
+        const leanObs = dedupedObs.map((obs) => ({
+          id: obs.id,
+          kind: obs.kind,
+          content: obs.content,
+          salience: obs.decayed_salience,
+          pinned: obs.pinned === 1,
+        }));
+
+        // Graph neighbours keep the link that pulled them in
+        const leanNeighbors = neighbors.length > 0
+          ? neighbors.map((obs) => ({
+              id: obs.id,
+              kind: obs.kind,
+              content: obs.content,
+              salience: obs.decayed_salience,
+              via: obs.via,
+              edge_type: obs.edge_type,
+            }))
+          : undefined;
+
+        const compactResponse = {
+          agent,
+          soulfile,
+          soulfileSections,
+          emotions,
+          trackerState,
+          observations: leanObs,
+          neighbors: leanNeighbors,
+          timestamp: new Date().toISOString(),
+          tokens: estimateTokens({ soulfile, trackerState, observations: leanObs, neighbors: leanNeighbors }),
+        };
+
+        return finishWake(compactResponse, leanNeighbors ? [["observations"], ["neighbors"]] : [["observations"]]);
+      }
+
+      // === FULL PRESENTATION LAYER (for dashboard/human consumption) ===
+
+      // Query for anniversaries (observations from same month-day in previous years)
+      const temporal = getTemporalAnchor();
+      const anniversaryQuery = await env.DB.prepare(
+        `
+        SELECT id, content, created_at
+        FROM observations
+        WHERE agent_id = ?
+          AND deleted_at IS NULL
+          AND strftime('%m-%d', created_at) = ?
+          AND strftime('%Y', created_at) < strftime('%Y', 'now')
+        ORDER BY created_at DESC
+        LIMIT 5
+        `
+      )
+        .bind(agent, temporal.monthDay)
+        .all();
+
+      const anniversaryIds = anniversaryQuery.results.map((o: any) => o.id);
+
+      // Build narrative briefing
+      const emotionalTrajectory = computeEmotionalTrajectory(recent);
+      const narrativeBriefing = {
+        narrativeState: generateNarrativeState(recent),
+        emotionalTrajectory,
+        temporalAnchor: {
+          date: temporal.date,
+          dayOfWeek: temporal.dayOfWeek,
+          relevantAnniversaries: anniversaryIds,
+        },
+        generatedAt: new Date().toISOString(),
+      };
+
+      // Build identity section (structured from soulfile)
+      const identitySections = parseIdentitySections(soulfile);
+      const identity = identitySections.map((section, idx) => ({
+        name: section.name,
+        preview: section.preview,
+        index: idx,
+      }));
+
+      // Build recent context (time-relative)
+      const recentContext = buildRecentContext(recent);
+
+      // Build emotional state summary
+      const emotionalState = buildEmotionalState(recent);
+
+      // Compute emotional percentages for dashboard chart
+      const emotionTotals = { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+      for (const obs of recent.slice(0, 15)) {
+        emotionTotals.intimacy += obs.emotion_intimacy ?? 0;
+        emotionTotals.joy += obs.emotion_joy ?? 0;
+        emotionTotals.conflict += obs.emotion_conflict ?? 0;
+        emotionTotals.fear += obs.emotion_fear ?? 0;
+      }
+      const emotionTotal = emotionTotals.intimacy + emotionTotals.joy + emotionTotals.conflict + emotionTotals.fear;
+      const emotions = emotionTotal > 0
+        ? {
+            intimacy: Math.round((emotionTotals.intimacy / emotionTotal) * 100),
+            joy: Math.round((emotionTotals.joy / emotionTotal) * 100),
+            conflict: Math.round((emotionTotals.conflict / emotionTotal) * 100),
+            fear: Math.round((emotionTotals.fear / emotionTotal) * 100),
+          }
+        : { intimacy: 0, joy: 0, conflict: 0, fear: 0 };
+
+      // Assemble response
+      const response: any = {
+        agent,
+        narrativeBriefing,
+        trackerState,
+        identity,
+        soulfile,
+        soulfileSections,
+        emotions,
+        recentContext,
+        emotionalState,
+        lens: formatLenses(lenses),
+        semanticTopic: semanticTopic || null,
+        _tiers: {
+          recent: recentExplained,
+          salient: salientExplained,
+          hot: hotExplained,
+          semantic: semanticExplained,
+          neighbors: neighborsExplained,
+        },
+      };
+
+      // Add token estimate
+      response.tokenEstimate = estimateTokens(response);
+
+      if (violations.length > 0) {
+        response._invariant_violations = violations;
+      }
+
+      return finishWake(response, [
+        ["_tiers", "recent"],
+        ["_tiers", "salient"],
+        ["_tiers", "hot"],
+        ["_tiers", "semantic"],
+        ["_tiers", "neighbors"],
+        ["recentContext"],
+      ]);
+    }
+
+    // --- SUPERSEDE (POST) ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/supersede$/) && request.method === "POST") {
+      const targetId = url.pathname.split("/")[2];
+      if (!targetId) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const owner = await getObservationAgent(env, targetId);
+      if (!owner) {
+        return jsonResponse({ error: "TARGET_NOT_FOUND" }, 404);
+      }
+      const denied = authorize(auth, "write", owner);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { superseded_by } = body;
+
+      if (!superseded_by) {
+        return textResponse("Missing superseded_by field", 400);
+      }
+
+      const result = await supersedeObservation(env, targetId, superseded_by, auditContext(auth, request));
+
+      if (!result.success) {
+        return jsonResponse(result.details ?? { error: result.error }, SUPERSESSION_ERROR_STATUS[result.error!] || 400);
+      }
+
+      return jsonResponse({
+        status: "superseded",
+        id: targetId,
+        superseded_by,
+      });
+    }
+
+    // --- GET SUPERSEDED ---
+    if (url.pathname.match(/^\/observe\/superseded\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      if (!agent) {
+        return textResponse("Missing agent", 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const limit = Number(url.searchParams.get("limit")) || 20;
+
+      const superseded = await env.DB.prepare(
+        `
+        SELECT *
+        FROM observations
+        WHERE agent_id = ?
+          AND deleted_at IS NULL
+          AND status = 'superseded'
+        ORDER BY updated_at DESC, id ASC
+        LIMIT ?
+        `
+      )
+        .bind(agent, limit)
+        .all();
+
+      return jsonResponse({ agent, superseded: superseded.results });
+    }
+
+    // --- SUPERSESSION LINEAGE (GET) ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/lineage$/) && request.method === "GET") {
+      const id = url.pathname.split("/")[2];
+
+      const lineage = await loadLineage(env, id);
+      if (!lineage) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "read", lineage.versions[0].agent_id);
+      if (denied) return denied;
+
+      const { versions } = lineage;
+      const current = versions.find((o) => o.status !== "superseded") ?? null;
+
+      return jsonResponse({
+        id,
+        current: current?.id ?? null,
+        length: versions.length,
+        cycle: lineage.cycle,
+        truncated: lineage.truncated,
+        versions: versions.map((obs, idx) => ({
+          id: obs.id,
+          position: idx + 1,
+          status: obs.status ?? "active",
+          superseded_by: obs.superseded_by ?? null,
+          merged_from: obs.merged_from,
+          kind: obs.kind,
+          content: obs.content,
+          salience: obs.salience,
+          created_at: obs.created_at,
+          updated_at: obs.updated_at,
+          diff: idx > 0 ? diffWords(versions[idx - 1].content, obs.content) : undefined,
+        })),
+      });
+    }
+
+    // --- UNSUPERSEDE (POST: Restore a prior version) ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/unsupersede$/) && request.method === "POST") {
+      const targetId = url.pathname.split("/")[2];
+
+      const owner = await getObservationAgent(env, targetId);
+      if (!owner) {
+        return jsonResponse({ error: "TARGET_NOT_FOUND" }, 404);
+      }
+      const denied = authorize(auth, "write", owner);
+      if (denied) return denied;
+
+      const result = await unsupersedeObservation(env, targetId, auditContext(auth, request));
+
+      if (!result.success) {
+        return jsonResponse(result.details ?? { error: result.error }, SUPERSESSION_ERROR_STATUS[result.error!] || 400);
+      }
+
+      return jsonResponse({
+        status: "restored",
+        id: targetId,
+        superseded: result.replaced ?? null,
+      });
+    }
+
+    // --- OBSERVE (POST: Create) ---
+    if (url.pathname === "/observe" && request.method === "POST") {
+      const body: any = await request.json();
+
+      const {
+        agent_id,
+        author,
+        perspective,
+        kind,
+        content,
+        salience,
+        emotion_intimacy,
+        emotion_conflict,
+        emotion_joy,
+        emotion_fear,
+        source_platform,
+        source_ref,
+        supersedes,
+        on_duplicate = env.DUPLICATE_POLICY ?? "warn",
+      } = body;
+
+      if (!agent_id || !author || !perspective || !kind || !content) {
+        return textResponse("Missing required fields", 400);
+      }
+      const invalid = validateObservationFields(body);
+      if (invalid) {
+        return textResponse(invalid, 400);
+      }
+      if (!["warn", "reject", "allow"].includes(on_duplicate)) {
+        return textResponse("on_duplicate must be one of: warn, reject, allow", 400);
+      }
+
+      const denied = authorize(auth, "write", agent_id);
+      if (denied) return denied;
+
+      // Near-identical content written recently: refuse or flag it
+      const duplicate = on_duplicate === "allow" ? null : await findRecentDuplicate(env, agent_id, content);
+      if (duplicate && on_duplicate === "reject") {
+        return jsonResponse(
+          {
+            error: "DUPLICATE_OBSERVATION",
+            message: "Near-identical content was written recently",
+            duplicate_of: duplicate.id,
+            duplicate_created_at: duplicate.created_at,
+          },
+          409
+        );
+      }
+
+      const id = await createObservation(env, {
+        agent_id,
+        author,
+        perspective,
+        kind,
+        content,
+        salience,
+        emotion_intimacy,
+        emotion_conflict,
+        emotion_joy,
+        emotion_fear,
+        source_platform,
+        source_ref,
+      }, auditContext(auth, request));
+
+      let supersededId: string | null = null;
+      let supersessionError: string | null = null;
+
+      if (supersedes) {
+        const result = await supersedeObservation(env, supersedes, id, auditContext(auth, request));
+        if (result.success) {
+          supersededId = supersedes;
+        } else {
+          supersessionError = result.error!;
+        }
+      }
+
+      const response: any = { status: "ok", id };
+      if (duplicate) {
+        response.warning = "DUPLICATE_OBSERVATION";
+        response.duplicate_of = duplicate.id;
+      }
+      if (supersededId) {
+        response.superseded = supersededId;
+      }
+      if (supersessionError) {
+        response.supersession_error = supersessionError;
+      }
+
+      return jsonResponse(response);
+    }
+
+    // --- OBSERVE BATCH (POST: Create many, all-or-nothing) ---
+    if (url.pathname === "/observe/batch" && request.method === "POST") {
+      const body: any = await request.json().catch(() => null);
+      const items = Array.isArray(body) ? body : body?.observations;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return textResponse("Body must be a non-empty observations array", 400);
+      }
+      if (items.length > LIMITS.BATCH_MAX) {
+        return jsonResponse(
+          { error: "BATCH_TOO_LARGE", message: `At most ${LIMITS.BATCH_MAX} observations per batch` },
+          413
+        );
+      }
+
+      const { plan, errors } = await planObservationBatch(env, auth, items);
+
+      if (errors.length > 0) {
+        return jsonResponse(
+          {
+            error: "BATCH_VALIDATION_FAILED",
+            message: "Nothing was written",
+            results: items.map((item: any, index: number) => {
+              const itemErrors = errors.filter((e) => e.index === index);
+              return {
+                index,
+                temp_id: item?.temp_id ?? null,
+                status: itemErrors.length > 0 ? "invalid" : "ok",
+                errors:
+                  itemErrors.length > 0
+                    ? itemErrors.map((e) => (e.message ? `${e.error}: ${e.message}` : e.error))
+                    : undefined,
+              };
+            }),
+          },
+          400
+        );
+      }
+
+      await env.DB.batch(await observationBatchStatements(env, plan, auditContext(auth, request)));
+      await indexEmbeddings(
+        env,
+        getEmbeddingProvider(env),
+        plan.map((entry) => ({ id: entry.id, agent_id: entry.obs.agent_id, content: entry.obs.content }))
+      );
+      for (const entry of plan) {
+        if (entry.obs.kind === "correction") await notifyCorrection(env, entry.id, entry.obs);
+      }
+
+      return jsonResponse({
+        status: "ok",
+        created: plan.length,
+        results: plan.map((entry) => ({
+          index: entry.index,
+          temp_id: entry.temp_id,
+          status: "created",
+          id: entry.id,
+          superseded: entry.supersedes ?? undefined,
+        })),
+      });
+    }
+
+    // --- GET OBSERVATION (with tracker days that link to it) ---
+    if (url.pathname.match(/^\/observe\/[^/]+$/) && request.method === "GET") {
+      const id = url.pathname.split("/")[2];
+
+      const observation: any = await env.DB.prepare(
+        `SELECT * FROM observations WHERE id = ? AND deleted_at IS NULL`
+      )
+        .bind(id)
+        .first();
+      if (!observation) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "read", observation.agent_id);
+      if (denied) return denied;
+
+      return jsonResponse({
+        observation,
+        trackerDays: await getTrackerDaysForObservation(env, observation.agent_id, id),
+      });
+    }
+
+    // --- EDIT OBSERVATION (PATCH) ---
+    if (url.pathname.match(/^\/observe\/[^/]+$/) && request.method === "PATCH") {
+      const id = url.pathname.split("/")[2];
+      if (!id) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const owner: string = current.agent_id;
+      const denied = authorize(auth, "write", owner);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "edit");
+      if (illegal) return illegal;
+
+      const body: any = await request.json();
+      const {
+        content,
+        salience,
+        emotion_intimacy,
+        emotion_conflict,
+        emotion_joy,
+        emotion_fear,
+      } = body;
+
+      const now = new Date().toISOString();
+
+      const update = env.DB.prepare(
+        `
+        UPDATE observations
+        SET
+          content = COALESCE(?, content),
+          salience = MIN(100, COALESCE(?, salience) + 5),
+          emotion_intimacy = COALESCE(?, emotion_intimacy),
+          emotion_conflict = COALESCE(?, emotion_conflict),
+          emotion_joy = COALESCE(?, emotion_joy),
+          emotion_fear = COALESCE(?, emotion_fear),
+          updated_at = ?,
+          last_accessed = ?
+        WHERE id = ?
+          AND ${observationStateSql(OBSERVATION_ACTIONS.edit.from)}
+        `
+      )
+        .bind(
+          content ?? null,
+          salience ?? null,
+          emotion_intimacy ?? null,
+          emotion_conflict ?? null,
+          emotion_joy ?? null,
+          emotion_fear ?? null,
+          now,
+          now,
+          id
+        );
+
+      await env.DB.batch([
+        update,
+        await auditObservationStatement(env, auditContext(auth, request), "edit", current),
+        ...(typeof content === "string"
+          ? [
+              ...ftsIndexStatements(env, id, owner, content),
+              fingerprintStatement(env, id, owner, await contentFingerprint(content), now),
+            ]
+          : []),
+      ]);
+      if (typeof content === "string") {
+        await indexEmbeddings(env, getEmbeddingProvider(env), [{ id, agent_id: owner, content }]);
+      }
+
+      return jsonResponse({ status: "updated", id });
+    }
+
+    // --- DELETE OBSERVATION ---
+    if (url.pathname.match(/^\/observe\/[^/]+$/) && request.method === "DELETE") {
+      const id = url.pathname.split("/")[2];
+
+      if (!id) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", current.agent_id);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "delete");
+      if (illegal) return illegal;
+
+      const now = new Date().toISOString();
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `
+          UPDATE observations
+          SET deleted_at = ?
+          WHERE id = ?
+            AND ${observationStateSql(OBSERVATION_ACTIONS.delete.from)}
+          `
+        ).bind(now, id),
+        await auditObservationStatement(env, auditContext(auth, request), "delete", current),
+        ftsRemoveStatement(env, id),
+      ]);
+
+      return jsonResponse({ status: "deleted", id });
+    }
+
+    // --- PIN OBSERVATION ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/pin$/) && request.method === "POST") {
+      const id = url.pathname.split("/")[2];
+
+      if (!id) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", current.agent_id);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "pin");
+      if (illegal) return illegal;
+
+      const now = new Date().toISOString();
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `
+          UPDATE observations
+          SET pinned = 1, last_accessed = ?, updated_at = ?
+          WHERE id = ?
+            AND ${observationStateSql(OBSERVATION_ACTIONS.pin.from)}
+          `
+        ).bind(now, now, id),
+        await auditObservationStatement(env, auditContext(auth, request), "pin", current),
+      ]);
+
+      return jsonResponse({ status: "pinned", id });
+    }
+
+    // --- UNPIN OBSERVATION ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/pin$/) && request.method === "DELETE") {
+      const id = url.pathname.split("/")[2];
+
+      if (!id) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", current.agent_id);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "unpin");
+      if (illegal) return illegal;
+
+      const now = new Date().toISOString();
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `
+          UPDATE observations
+          SET pinned = 0, updated_at = ?
+          WHERE id = ?
+            AND ${observationStateSql(OBSERVATION_ACTIONS.unpin.from)}
+          `
+        ).bind(now, id),
+        await auditObservationStatement(env, auditContext(auth, request), "unpin", current),
+      ]);
+
+      return jsonResponse({ status: "unpinned", id });
+    }
+
+    // --- ARCHIVE OBSERVATION ---
+    // Out of the wake and default search, but kept (unlike delete)
+    if (url.pathname.match(/^\/observe\/[^/]+\/archive$/) && request.method === "POST") {
+      const id = url.pathname.split("/")[2];
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", current.agent_id);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "archive");
+      if (illegal) return illegal;
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `
+          UPDATE observations
+          SET status = 'archived', updated_at = ?
+          WHERE id = ?
+            AND ${observationStateSql(OBSERVATION_ACTIONS.archive.from)}
+          `
+        ).bind(new Date().toISOString(), id),
+        await auditObservationStatement(env, auditContext(auth, request), "archive", current),
+      ]);
+
+      return jsonResponse({ status: "archived", id });
+    }
+
+    // --- UNARCHIVE OBSERVATION ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/archive$/) && request.method === "DELETE") {
+      const id = url.pathname.split("/")[2];
+
+      const current = await getObservationState(env, id);
+      if (!current) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", current.agent_id);
+      if (denied) return denied;
+      const illegal = checkTransition(current, "unarchive");
+      if (illegal) return illegal;
+
+      await env.DB.batch([
+        env.DB.prepare(
+          `
+          UPDATE observations
+          SET status = 'active', updated_at = ?
+          WHERE id = ?
+            AND ${observationStateSql(OBSERVATION_ACTIONS.unarchive.from)}
+          `
+        ).bind(new Date().toISOString(), id),
+        await auditObservationStatement(env, auditContext(auth, request), "unarchive", current),
+      ]);
+
+      return jsonResponse({ status: "active", id });
+    }
+
+    // --- HARD DELETE OBSERVATION ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/hard$/) && request.method === "DELETE") {
+      const id = url.pathname.split("/")[2];
+
+      if (!id) {
+        return textResponse("Missing observation id", 400);
+      }
+
+      const row = await observationSnapshot(env, id);
+      if (!row) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "admin", row.agent_id);
+      if (denied) return denied;
+
+      await env.DB.batch(observationPurgeStatements(env, row, auditContext(auth, request)));
+
+      return jsonResponse({ status: "hard_deleted", id });
+    }
+
+    // --- SEARCH OBSERVATIONS ---
+    if (url.pathname.match(/^\/observe\/search\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const query = url.searchParams.get("q") ?? "";
+      const kind = url.searchParams.get("kind");
+      const minSalience = url.searchParams.get("min_salience");
+      const maxSalience = url.searchParams.get("max_salience");
+      const includeSuperseded = url.searchParams.get("include_superseded") === "true";
+      const limit = parseLimitParam(url.searchParams.get("limit"), 20, LIMITS.SEARCH_PAGE_MAX);
+      const cursorParam = url.searchParams.get("cursor");
+      const cursor = decodeCursor(cursorParam);
+
+      if (!agent) {
+        return textResponse("Missing agent in path", 400);
+      }
+      if (limit === null) {
+        return textResponse(`limit must be an integer from 1 to ${LIMITS.SEARCH_PAGE_MAX}`, 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      if (cursorParam && !cursor) {
+        return jsonResponse({ error: "INVALID_CURSOR" }, 400);
+      }
+
+      const ftsQuery = query ? buildFtsQuery(query) : null;
+      if (query && !ftsQuery) {
+        return jsonResponse({ error: "INVALID_QUERY", query }, 400);
+      }
+
+      // Build query dynamically. With q, candidates come from the FTS5
+      // index (BM25 + snippet); without it, straight from observations.
+      let sql = ftsQuery
+        ? `
+        SELECT o.*,
+          bm25(observations_fts) AS bm25_rank,
+          snippet(observations_fts, 0, '<mark>', '</mark>', '…', 16) AS snippet
+        FROM observations_fts
+        JOIN observations o ON o.id = observations_fts.observation_id
+        WHERE observations_fts MATCH ?
+          AND o.agent_id = ?
+          AND o.deleted_at IS NULL
+      `
+        : `
+        SELECT o.*, NULL AS bm25_rank, NULL AS snippet
+        FROM observations o
+        WHERE o.agent_id = ?
+          AND o.deleted_at IS NULL
+      `;
+      const params: any[] = ftsQuery ? [ftsQuery, agent] : [agent];
+
+      // Exclude superseded by default
+      if (!includeSuperseded) {
+        sql += ` AND (o.status IS NULL OR o.status = 'active')`;
+      }
+
+      // Filter by kind
+      if (kind) {
+        sql += ` AND o.kind = ?`;
+        params.push(kind);
+      }
+
+      // Filter by salience range
+      if (minSalience) {
+        sql += ` AND o.salience >= ?`;
+        params.push(parseInt(minSalience, 10));
+      }
+      if (maxSalience) {
+        sql += ` AND o.salience <= ?`;
+        params.push(parseInt(maxSalience, 10));
+      }
+
+      if (cursor && cursor.k.length !== 1) {
+        return jsonResponse({ error: "INVALID_CURSOR" }, 400);
+      }
+
+      // Count the full match set before the keyset filter narrows it
+      const countSql = `SELECT COUNT(*) AS total FROM (${sql})`;
+      const countParams = [...params];
+
+      // Score every match in SQL: BM25 relevance (lower bm25 = better)
+      // normalised against the best match, blended with salience decayed
+      // as computeDecayedSalience does. Pages keyset on that score.
+      const scoredAt = cursor?.t ?? new Date().toISOString();
+      sql = `
+        SELECT * FROM (
+          SELECT d.*,
+            CASE WHEN d.relevance IS NULL THEN d.decayed_salience
+              ELSE ROUND(${SEARCH_BLEND.RELEVANCE} * d.relevance + ${SEARCH_BLEND.SALIENCE} * d.decayed_salience, 4)
+            END AS score
+          FROM (
+            SELECT m.*,
+              CASE WHEN m.max_relevance > 0 THEN ROUND(-m.bm25_rank / m.max_relevance * 100, 2) END AS relevance
+            FROM (
+              SELECT c.*,
+                CASE WHEN c.pinned THEN COALESCE(c.salience, 0)
+                  ELSE MAX(0, COALESCE(c.salience, 0)
+                    - 10 * CAST((julianday(?) - julianday(COALESCE(c.last_accessed, ?))) / 30 AS INTEGER))
+                END AS decayed_salience,
+                COALESCE(?, MAX(-c.bm25_rank) OVER ()) AS max_relevance
+              FROM (${sql}) AS c
+            ) AS m
+          ) AS d
+        ) AS r`;
+      params.unshift(scoredAt, scoredAt, cursor?.m ?? null);
+      if (cursor) {
+        sql += ` WHERE (r.score < ? OR (r.score = ? AND r.id > ?))`;
+        params.push(cursor.k[0], cursor.k[0], cursor.id);
+      }
+      sql += ` ORDER BY r.score DESC, r.id ASC LIMIT ?`;
+      params.push(limit + 1);
+
+      let observations: any[];
+      let totalMatches: number;
+      try {
+        const [result, counted] = await env.DB.batch([
+          env.DB.prepare(sql).bind(...params),
+          env.DB.prepare(countSql).bind(...countParams),
+        ]);
+        observations = (result.results ?? []) as any[];
+        totalMatches = Number((counted.results?.[0] as any)?.total ?? 0);
+      } catch (err: any) {
+        return jsonResponse({ error: "INVALID_QUERY", query, details: String(err?.message ?? err) }, 400);
+      }
+
+      const hasMore = observations.length > limit;
+      const page = observations.slice(0, limit).map(({ bm25_rank, max_relevance, snippet, ...rest }) => ({
+        ...rest,
+        snippet: snippet ?? null,
+      }));
+      const last = observations[page.length - 1];
+
+      const nextCursor = hasMore && last
+        ? encodeCursor({ k: [last.score], id: last.id, m: last.max_relevance ?? 0, t: scoredAt })
+        : null;
+
+      return jsonResponse({
+        agent,
+        query: query || null,
+        fts_query: ftsQuery,
+        kind: kind || null,
+        count: page.length,
+        total_matches: totalMatches,
+        next_cursor: nextCursor,
+        observations: page,
+      });
+    }
+
+    // --- SIMILAR OBSERVATIONS (semantic recall) ---
+    if (url.pathname.match(/^\/observe\/similar\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const query = url.searchParams.get("q") ?? "";
+      const likeId = url.searchParams.get("id");
+      const limit = parseLimitParam(url.searchParams.get("limit"), 10, LIMITS.SEARCH_PAGE_MAX);
+      const minScoreParam = url.searchParams.get("min_score");
+      const minScore = minScoreParam === null ? LIMITS.SEMANTIC_MIN_SCORE : Number(minScoreParam);
+      const includeSuperseded = url.searchParams.get("include_superseded") === "true";
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      if (limit === null) {
+        return textResponse(`limit must be an integer from 1 to ${LIMITS.SEARCH_PAGE_MAX}`, 400);
+      }
+      if (minScoreParam?.trim() === "" || !Number.isFinite(minScore) || minScore < -1 || minScore > 1) {
+        return textResponse("min_score must be a number from -1 to 1", 400);
+      }
+
+      if (!query && !likeId) {
+        return textResponse("Provide q (text) or id (observation)", 400);
+      }
+
+      const provider = getEmbeddingProvider(env);
+      let queryVector: number[];
+
+      if (likeId) {
+        const source: any = await env.DB.prepare(
+          `SELECT id, agent_id, content FROM observations WHERE id = ? AND agent_id = ? AND deleted_at IS NULL`
+        )
+          .bind(likeId, agent)
+          .first();
+        if (!source) {
+          return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id: likeId }, 404);
+        }
+        try {
+          [queryVector] = await provider.embed([source.content]);
+        } catch (err: any) {
+          return jsonResponse({ error: "EMBEDDING_FAILED", provider: provider.name, details: String(err?.message ?? err) }, 502);
+        }
+      } else {
+        try {
+          [queryVector] = await provider.embed([query]);
+        } catch (err: any) {
+          return jsonResponse({ error: "EMBEDDING_FAILED", provider: provider.name, details: String(err?.message ?? err) }, 502);
+        }
+      }
+
+      const similar = await findSimilarObservations(env, agent, queryVector, provider, {
+        limit,
+        minScore,
+        includeSuperseded,
+        excludeIds: likeId ? new Set([likeId]) : undefined,
+      });
+
+      return jsonResponse({
+        agent,
+        query: query || null,
+        like: likeId,
+        provider: provider.name,
+        provider_fallback: provider.fallback ?? null,
+        count: similar.length,
+        observations: similar.map((obs) => ({
+          ...obs,
+          decayed_salience: computeDecayedSalience(obs),
+        })),
+      });
+    }
+
+    // ============================================================
+    // OBSERVATION GRAPH ENDPOINTS - Typed edges between observations
+    // ============================================================
+
+    // --- POST /observe/:id/edges - Link to another observation ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/edges$/) && request.method === "POST") {
+      const id = url.pathname.split("/")[2];
+
+      const source = await getObservationState(env, id);
+      if (!source) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "write", source.agent_id);
+      if (denied) return denied;
+
+      const body: any = await request.json().catch(() => ({}));
+      const { target_id, type, note } = body;
+
+      if (!EDGE_TYPES.includes(type)) {
+        return jsonResponse({ error: "INVALID_EDGE_TYPE", type: type ?? null, allowed: EDGE_TYPES }, 400);
+      }
+      if (!target_id || typeof target_id !== "string") {
+        return textResponse("Missing target_id", 400);
+      }
+      if (note !== undefined && note !== null && typeof note !== "string") {
+        return textResponse("note must be a string", 400);
+      }
+      if (target_id === id) {
+        return jsonResponse({ error: "SELF_EDGE", id }, 400);
+      }
+
+      const target = await getObservationState(env, target_id);
+      if (!target) {
+        return jsonResponse({ error: "EDGE_TARGET_NOT_FOUND", target_id }, 404);
+      }
+      if (target.agent_id !== source.agent_id) {
+        return jsonResponse({ error: "CROSS_AGENT_EDGE", message: "Edges must stay within one agent" }, 400);
+      }
+      for (const endpoint of [source, target]) {
+        const illegal = checkTransition(endpoint, "link");
+        if (illegal) return illegal;
+      }
+
+      const symmetric = SYMMETRIC_EDGE_TYPES.includes(type);
+      const duplicate: any = await env.DB.prepare(
+        `SELECT id FROM observation_edges
+         WHERE type = ?
+           AND ((source_id = ? AND target_id = ?) OR (? = 1 AND source_id = ? AND target_id = ?))`
+      )
+        .bind(type, id, target_id, symmetric ? 1 : 0, target_id, id)
+        .first();
+      if (duplicate) {
+        return jsonResponse({ error: "DUPLICATE_EDGE", edge_id: duplicate.id }, 409);
+      }
+
+      const edge = {
+        id: crypto.randomUUID(),
+        agent_id: source.agent_id,
+        source_id: id,
+        target_id,
+        type,
+        note: note ?? null,
+        created_at: new Date().toISOString(),
+        created_by: auth.keyId,
+      };
+      await env.DB.batch([
+        env.DB.prepare(
+          `INSERT INTO observation_edges (id, agent_id, source_id, target_id, type, note, created_at, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(edge.id, edge.agent_id, edge.source_id, edge.target_id, edge.type, edge.note, edge.created_at, edge.created_by),
+        auditStatement(env, auditContext(auth, request), {
+          agent: edge.agent_id,
+          action: "link",
+          target_type: "edge",
+          target_id: edge.id,
+          before: null,
+          after: edge,
+        }),
+      ]);
+
+      return jsonResponse({ status: "linked", edge }, 201);
+    }
+
+    // --- DELETE /observe/:id/edges/:edgeId - Remove a link (either endpoint) ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/edges\/[^/]+$/) && request.method === "DELETE") {
+      const [, , id, , edgeId] = url.pathname.split("/");
+
+      const edge: any = await env.DB.prepare(
+        `SELECT * FROM observation_edges WHERE id = ? AND (source_id = ? OR target_id = ?)`
+      )
+        .bind(edgeId, id, id)
+        .first();
+      if (!edge) {
+        return jsonResponse({ error: "EDGE_NOT_FOUND", id: edgeId }, 404);
+      }
+      const denied = authorize(auth, "write", edge.agent_id);
+      if (denied) return denied;
+
+      await env.DB.batch([
+        env.DB.prepare(`DELETE FROM observation_edges WHERE id = ?`).bind(edgeId),
+        auditStatement(env, auditContext(auth, request), {
+          agent: edge.agent_id,
+          action: "unlink",
+          target_type: "edge",
+          target_id: edgeId,
+          before: edge,
+          after: null,
+        }),
+      ]);
+
+      return jsonResponse({ status: "unlinked", id: edgeId });
+    }
+
+    // --- GET /observe/:id/graph?depth=&types= - Neighbourhood ---
+    if (url.pathname.match(/^\/observe\/[^/]+\/graph$/) && request.method === "GET") {
+      const id = url.pathname.split("/")[2];
+
+      const depthParam = url.searchParams.get("depth");
+      const depth = depthParam === null ? 1 : parseInt(depthParam, 10);
+      if (!Number.isInteger(depth) || depth < 1 || depth > GRAPH.MAX_DEPTH) {
+        return textResponse(`depth must be between 1 and ${GRAPH.MAX_DEPTH}`, 400);
+      }
+      const typesParam = url.searchParams.get("types");
+      const types = typesParam ? (typesParam.split(",").map((t) => t.trim()) as EdgeType[]) : null;
+      const unknown = (types ?? []).filter((t) => !EDGE_TYPES.includes(t));
+      if (unknown.length > 0) {
+        return jsonResponse({ error: "INVALID_EDGE_TYPE", type: unknown[0], allowed: EDGE_TYPES }, 400);
+      }
+
+      // A superseded id is answered with its current version's graph
+      const root = (await resolveLiveObservations(env, [id])).get(id);
+      if (!root) {
+        return jsonResponse({ error: "OBSERVATION_NOT_FOUND", id }, 404);
+      }
+      const denied = authorize(auth, "read", root.agent_id);
+      if (denied) return denied;
+
+      const graph = await observationGraph(env, root, depth, types);
+
+      return jsonResponse({
+        root: root.id,
+        requested: id,
+        depth,
+        types,
+        node_count: graph.nodes.length,
+        edge_count: graph.edges.length,
+        truncated: graph.truncated,
+        nodes: graph.nodes,
+        edges: graph.edges,
+      });
+    }
+
+    // ============================================================
+    // SOULFILE ENDPOINTS - Versioned identity documents
+    // ============================================================
+
+    // --- GET /soulfile/:agent - Active (or ?version=n) soulfile ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const history = await getSoulfileHistory(env, agent);
+      const versionParam = url.searchParams.get("version");
+
+      let version: number | null = history.length > 0 ? history[history.length - 1].version : null;
+      let soulfile: string | null;
+
+      if (versionParam) {
+        version = Number(versionParam);
+        soulfile = await getSoulfileVersion(env, agent, version);
+        if (soulfile === null) {
+          return jsonResponse({ error: "VERSION_NOT_FOUND", version }, 404);
+        }
+      } else {
+        soulfile = await env.SOULFILES.get(`${agent}:active`);
+      }
+
+      const meta = history.find((h) => h.version === version) ?? null;
+
+      return jsonResponse({
+        agent,
+        version,
+        meta,
+        sections: soulfile ? splitSoulfile(soulfile).sections.map((s) => s.name) : [],
+        soulfile,
+      });
+    }
+
+    // --- PUT /soulfile/:agent - Save a new version ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+$/) && request.method === "PUT") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { content, author, note = '' } = body;
+
+      if (!content || typeof content !== "string") {
+        return textResponse("Missing or invalid content field", 400);
+      }
+
+      const names = splitSoulfile(content).sections.map((s) => s.name);
+      const duplicate = names.find((name, idx) => names.indexOf(name) !== idx);
+      if (duplicate) {
+        return jsonResponse({ error: "DUPLICATE_SECTION", section: duplicate }, 400);
+      }
+
+      const current = await env.SOULFILES.get(`${agent}:active`);
+      if (current === content) {
+        const history = await getSoulfileHistory(env, agent);
+        return jsonResponse({
+          status: "unchanged",
+          agent,
+          version: history.length > 0 ? history[history.length - 1].version : null,
+        });
+      }
+
+      const entry = await saveSoulfileVersion(env, agent, content, author || auth.keyId, auth.keyId, note);
+
+      return jsonResponse({ status: "ok", agent, ...entry });
+    }
+
+    // --- GET /soulfile/:agent/history - Version metadata, newest first ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/history$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const history = await getSoulfileHistory(env, agent);
+
+      return jsonResponse({
+        agent,
+        current: history.length > 0 ? history[history.length - 1].version : null,
+        versions: history.slice().reverse(),
+      });
+    }
+
+    // --- GET /soulfile/:agent/diff?from=&to= - Section-aware diff ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/diff$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const history = await getSoulfileHistory(env, agent);
+      if (history.length === 0) {
+        return jsonResponse({ error: "NO_VERSIONS", agent }, 404);
+      }
+
+      const latest = history[history.length - 1].version;
+      const to = Number(url.searchParams.get("to")) || latest;
+      const from = Number(url.searchParams.get("from")) || Math.max(1, to - 1);
+
+      const [fromContent, toContent] = await Promise.all([
+        getSoulfileVersion(env, agent, from),
+        getSoulfileVersion(env, agent, to),
+      ]);
+
+      if (fromContent === null) {
+        return jsonResponse({ error: "VERSION_NOT_FOUND", version: from }, 404);
+      }
+      if (toContent === null) {
+        return jsonResponse({ error: "VERSION_NOT_FOUND", version: to }, 404);
+      }
+
+      return jsonResponse({
+        agent,
+        from,
+        to,
+        diff: diffSoulfiles(fromContent, toContent),
+      });
+    }
+
+    // --- POST /soulfile/:agent/rollback/:version - Restore as new version ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/rollback\/\d+$/) && request.method === "POST") {
+      const parts = url.pathname.split("/");
+      const agent = pathAgent(url, 2);
+      const version = Number(parts[4]);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const content = await getSoulfileVersion(env, agent, version);
+      if (content === null) {
+        return jsonResponse({ error: "VERSION_NOT_FOUND", version }, 404);
+      }
+
+      const body: any = await request.json().catch(() => ({}));
+      const note = body.note || `Rollback to v${version}`;
+      const entry = await saveSoulfileVersion(env, agent, content, body.author || auth.keyId, auth.keyId, note);
+
+      return jsonResponse({ status: "rolled_back", agent, restored_from: version, ...entry });
+    }
+
+    // --- GET /soulfile/:agent/sections - Section list ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const soulfile = await env.SOULFILES.get(`${agent}:active`);
+      const sections = soulfile ? splitSoulfile(soulfile).sections : [];
+
+      return jsonResponse({
+        agent,
+        sections: sections.map((s, idx) => ({
+          name: s.name,
+          index: idx,
+          preview: truncate(s.body.trim(), LIMITS.IDENTITY_PREVIEW_LENGTH),
+          tokens: estimateTokens(s.body.trim()),
+        })),
+      });
+    }
+
+    // --- GET /soulfile/:agent/sections/:name - Single section ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections\/[^/]+$/) && request.method === "GET") {
+      const parts = url.pathname.split("/");
+      const agent = pathAgent(url, 2);
+      const name = decodeURIComponent(parts[4]);
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const soulfile = await env.SOULFILES.get(`${agent}:active`);
+      const sections = soulfile ? splitSoulfile(soulfile).sections : [];
+      const idx = findSectionIndex(sections, name);
+
+      if (idx === -1) {
+        return jsonResponse({ error: "SECTION_NOT_FOUND", section: name }, 404);
+      }
+
+      return jsonResponse({ agent, name: sections[idx].name, index: idx, content: sections[idx].body.trim() });
+    }
+
+    // --- POST /soulfile/:agent/sections - Add section ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections$/) && request.method === "POST") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { name, content, position, author, note } = body;
+
+      if (typeof name !== "string" || name.trim() === "" || name.includes("\n")) {
+        return textResponse("Missing or invalid name field", 400);
+      }
+      if (!content || typeof content !== "string") {
+        return textResponse("Missing or invalid content field", 400);
+      }
+      if (hasSectionHeading(content)) {
+        return jsonResponse({ error: "HEADING_IN_SECTION", message: "Section content can't contain lines starting with '## '" }, 400);
+      }
+
+      const { preamble, sections } = splitSoulfile((await env.SOULFILES.get(`${agent}:active`)) ?? "");
+      if (findSectionIndex(sections, name) !== -1) {
+        return jsonResponse({ error: "DUPLICATE_SECTION", section: name }, 409);
+      }
+
+      const at = typeof position === "number"
+        ? Math.max(0, Math.min(position, sections.length))
+        : sections.length;
+      sections.splice(at, 0, { name: name.trim(), body: normalizeSectionBody(content) });
+
+      const entry = await saveSoulfileVersion(
+        env, agent, joinSoulfile(preamble, sections),
+        author || auth.keyId, auth.keyId, note || `Added section "${name.trim()}"`
+      );
+
+      return jsonResponse({ status: "ok", agent, section: name.trim(), index: at, ...entry });
+    }
+
+    // --- PUT /soulfile/:agent/sections/:name - Replace section (and optionally rename) ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections\/[^/]+$/) && request.method === "PUT") {
+      const parts = url.pathname.split("/");
+      const agent = pathAgent(url, 2);
+      const name = decodeURIComponent(parts[4]);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { content, rename, author, note } = body;
+
+      if (!content || typeof content !== "string") {
+        return textResponse("Missing or invalid content field", 400);
+      }
+      if (rename !== undefined && (typeof rename !== "string" || rename.trim() === "" || rename.includes("\n"))) {
+        return textResponse("Invalid rename field", 400);
+      }
+      if (hasSectionHeading(content)) {
+        return jsonResponse({ error: "HEADING_IN_SECTION", message: "Section content can't contain lines starting with '## '" }, 400);
+      }
+
+      const { preamble, sections } = splitSoulfile((await env.SOULFILES.get(`${agent}:active`)) ?? "");
+      const idx = findSectionIndex(sections, name);
+      if (idx === -1) {
+        return jsonResponse({ error: "SECTION_NOT_FOUND", section: name }, 404);
+      }
+
+      const newName = rename ? rename.trim() : sections[idx].name;
+      const clash = findSectionIndex(sections, newName);
+      if (clash !== -1 && clash !== idx) {
+        return jsonResponse({ error: "DUPLICATE_SECTION", section: newName }, 409);
+      }
+
+      sections[idx] = { name: newName, body: normalizeSectionBody(content) };
+
+      const entry = await saveSoulfileVersion(
+        env, agent, joinSoulfile(preamble, sections),
+        author || auth.keyId, auth.keyId, note || `Replaced section "${newName}"`
+      );
+
+      return jsonResponse({ status: "ok", agent, section: newName, index: idx, ...entry });
+    }
+
+    // --- DELETE /soulfile/:agent/sections/:name - Remove section ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections\/[^/]+$/) && request.method === "DELETE") {
+      const parts = url.pathname.split("/");
+      const agent = pathAgent(url, 2);
+      const name = decodeURIComponent(parts[4]);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const { preamble, sections } = splitSoulfile((await env.SOULFILES.get(`${agent}:active`)) ?? "");
+      const idx = findSectionIndex(sections, name);
+      if (idx === -1) {
+        return jsonResponse({ error: "SECTION_NOT_FOUND", section: name }, 404);
+      }
+
+      const [removed] = sections.splice(idx, 1);
+
+      const entry = await saveSoulfileVersion(
+        env, agent, joinSoulfile(preamble, sections),
+        url.searchParams.get("author") || auth.keyId, auth.keyId, `Deleted section "${removed.name}"`
+      );
+
+      return jsonResponse({ status: "deleted", agent, section: removed.name, ...entry });
+    }
+
+    // --- POST /soulfile/:agent/sections/reorder - Reorder sections ---
+    if (url.pathname.match(/^\/soulfile\/[^/]+\/sections\/reorder$/) && request.method === "POST") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { order, author, note } = body;
+
+      if (!Array.isArray(order)) {
+        return textResponse("order must be an array of section names", 400);
+      }
+
+      const { preamble, sections } = splitSoulfile((await env.SOULFILES.get(`${agent}:active`)) ?? "");
+      const indices = order.map((name: string) => findSectionIndex(sections, String(name)));
+
+      if (
+        indices.length !== sections.length ||
+        indices.includes(-1) ||
+        new Set(indices).size !== indices.length
+      ) {
+        return jsonResponse({
+          error: "SECTION_ORDER_MISMATCH",
+          expected: sections.map((s) => s.name),
+        }, 400);
+      }
+
+      const reordered = indices.map((i: number) => sections[i]);
+
+      const entry = await saveSoulfileVersion(
+        env, agent, joinSoulfile(preamble, reordered),
+        author || auth.keyId, auth.keyId, note || "Reordered sections"
+      );
+
+      return jsonResponse({ status: "ok", agent, order: reordered.map((s) => s.name), ...entry });
+    }
+
+    // ============================================================
+    // TRACKER ENDPOINTS - Emergence & Coherence Tracking
+    // ============================================================
+
+    // --- /tracker/schema/:agent - Per-agent marker schema ---
+    if (url.pathname.match(/^\/tracker\/schema\/[^/]+$/)) {
+      const agent = pathAgent(url, 3);
+      const kvKey = `${agent}:tracker_schema`;
+
+      if (request.method === "GET") {
+        const denied = authorize(auth, "read", agent);
+        if (denied) return denied;
+
+        const raw = await env.SOULFILES.get(kvKey);
+        return jsonResponse({
+          agent,
+          source: raw ? "custom" : "default",
+          ...(raw ? JSON.parse(raw) : DEFAULT_TRACKER_SCHEMA),
+        });
+      }
+
+      if (request.method === "PUT") {
+        const denied = authorize(auth, "admin", agent);
+        if (denied) return denied;
+
+        const body: any = await request.json().catch(() => null);
+        const schema = normalizeTrackerSchema(body);
+        if (typeof schema === "string") {
+          return jsonResponse({ error: "INVALID_SCHEMA", message: schema }, 400);
+        }
+
+        schema.updated_at = new Date().toISOString();
+        await env.SOULFILES.put(kvKey, JSON.stringify(schema));
+        return jsonResponse({ status: "ok", agent, source: "custom", ...schema });
+      }
+
+      if (request.method === "DELETE") {
+        const denied = authorize(auth, "admin", agent);
+        if (denied) return denied;
+
+        await env.SOULFILES.delete(kvKey);
+        return jsonResponse({ status: "reset", agent, source: "default", ...DEFAULT_TRACKER_SCHEMA });
+      }
+    }
+
+    // --- POST /tracker/entry - Submit daily entry ---
+    if (url.pathname === "/tracker/entry" && request.method === "POST") {
+      const body: any = await request.json();
+
+      const {
+        agent,
+        date = new Date().toISOString().split('T')[0], // YYYY-MM-DD, backdating allowed
+        on_conflict = "reject",
+        active_goal = '',
+        daily_notes = '',
+        linked_observations = [],
+      } = body;
+
+      if (!agent) {
+        return textResponse("Missing agent field", 400);
+      }
+
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      // Validate every marker in the agent's schema is present
+      const schema = await getTrackerSchema(env, agent);
+      const markerError = validateMarkerScores(body, schema, false);
+      if (markerError) {
+        return textResponse(markerError, 400);
+      }
+
+      const dateError = validateTrackerDate(date);
+      if (dateError) {
+        return jsonResponse({ error: "INVALID_DATE", message: dateError }, 400);
+      }
+      if (on_conflict !== "reject" && on_conflict !== "replace") {
+        return textResponse("on_conflict must be one of: reject, replace", 400);
+      }
+
+      const links = await validateLinkedObservations(env, agent, linked_observations);
+      if ("error" in links) {
+        return jsonResponse({ error: "INVALID_LINKED_OBSERVATIONS", message: links.error, invalid: links.invalid }, 400);
+      }
+
+      // One entry per agent per day: reject, or replace in place
+      const existing = await env.DB.prepare(
+        `SELECT id FROM tracker_entries WHERE agent = ? AND date = ? ORDER BY timestamp DESC LIMIT 1`
+      )
+        .bind(agent, date)
+        .first<{ id: string }>();
+
+      if (existing && on_conflict === "reject") {
+        return jsonResponse(
+          {
+            error: "ENTRY_EXISTS_FOR_DATE",
+            message: `An entry for ${date} already exists; PATCH it or resend with on_conflict: "replace"`,
+            id: existing.id,
+            date,
+          },
+          409
+        );
+      }
+
+      const entry = withTrackerIndices({
+        id: existing?.id ?? crypto.randomUUID(),
+        agent,
+        date,
+        timestamp: new Date().toISOString(),
+        markers: Object.fromEntries(
+          schema.markers.map((def) => [def.name, { score: body[def.name].score, note: body[def.name].note || '' }])
+        ),
+        emergence_index: 0,
+        coherence_index: 0,
+        impact_index: 0,
+        active_goal,
+        daily_notes,
+        linked_observations: links.ids,
+      }, schema);
+
+      try {
+        await saveTrackerEntry(env, entry);
+      } catch (err) {
+        if (!isUniqueViolation(err)) throw err;
+        return jsonResponse(
+          {
+            error: "ENTRY_EXISTS_FOR_DATE",
+            message: `An entry for ${date} already exists; PATCH it or resend with on_conflict: "replace"`,
+            date,
+          },
+          409
+        );
+      }
+
+      // Return the complete entry with computed values
+      return jsonResponse({
+        status: existing ? "replaced" : "ok",
+        id: entry.id,
+        date: entry.date,
+        timestamp: entry.timestamp,
+        emergence_index: entry.emergence_index,
+        coherence_index: entry.coherence_index,
+        impact_index: entry.impact_index,
+      });
+    }
+
+    // --- PATCH/DELETE /tracker/entry/:id - Correct or remove an entry ---
+    if (url.pathname.match(/^\/tracker\/entry\/[^/]+$/) && (request.method === "PATCH" || request.method === "DELETE")) {
+      const id = url.pathname.split("/")[3];
+
+      const row = await env.DB.prepare(`SELECT * FROM tracker_entries WHERE id = ?`).bind(id).first();
+      if (!row) {
+        return jsonResponse({ error: "ENTRY_NOT_FOUND", id }, 404);
+      }
+
+      const [current] = await loadTrackerEntries(env, [row]);
+      const denied = authorize(auth, "write", current.agent);
+      if (denied) return denied;
+
+      if (request.method === "DELETE") {
+        await env.DB.batch([
+          env.DB.prepare(`DELETE FROM tracker_entries WHERE id = ?`).bind(id),
+          env.DB.prepare(`DELETE FROM tracker_marker_values WHERE entry_id = ?`).bind(id),
+        ]);
+        return jsonResponse({ status: "deleted", id, agent: current.agent, date: current.date });
+      }
+
+      const body: any = await request.json();
+
+      const schema = await getTrackerSchema(env, current.agent);
+      const markerError = validateMarkerScores(body, schema, true);
+      if (markerError) {
+        return textResponse(markerError, 400);
+      }
+
+      if (body.date !== undefined && body.date !== current.date) {
+        const dateError = validateTrackerDate(body.date);
+        if (dateError) {
+          return jsonResponse({ error: "INVALID_DATE", message: dateError }, 400);
+        }
+        const clash = await env.DB.prepare(`SELECT id FROM tracker_entries WHERE agent = ? AND date = ? AND id != ?`)
+          .bind(current.agent, body.date, id)
+          .first<{ id: string }>();
+        if (clash) {
+          return jsonResponse(
+            { error: "ENTRY_EXISTS_FOR_DATE", message: `An entry for ${body.date} already exists`, id: clash.id, date: body.date },
+            409
+          );
+        }
+      }
+
+      const updated: TrackerEntry = { ...current, markers: { ...current.markers } };
+      for (const def of schema.markers) {
+        if (body[def.name] === undefined) continue;
+        const score = body[def.name].score ?? current.markers[def.name]?.score;
+        if (score === undefined) {
+          return textResponse(`Missing or invalid marker: ${def.name}`, 400);
+        }
+        updated.markers[def.name] = { score, note: body[def.name].note ?? current.markers[def.name]?.note ?? '' };
+      }
+      if (body.date !== undefined) updated.date = body.date;
+      if (body.active_goal !== undefined) updated.active_goal = body.active_goal;
+      if (body.daily_notes !== undefined) updated.daily_notes = body.daily_notes;
+      if (body.linked_observations !== undefined) {
+        const links = await validateLinkedObservations(env, current.agent, body.linked_observations);
+        if ("error" in links) {
+          return jsonResponse({ error: "INVALID_LINKED_OBSERVATIONS", message: links.error, invalid: links.invalid }, 400);
+        }
+        updated.linked_observations = links.ids;
+      }
+
+      // Scores may have changed, so the indices are always recomputed
+      const entry = withTrackerIndices(updated, schema);
+      try {
+        await saveTrackerEntry(env, entry);
+      } catch (err) {
+        if (!isUniqueViolation(err)) throw err;
+        return jsonResponse(
+          { error: "ENTRY_EXISTS_FOR_DATE", message: `An entry for ${entry.date} already exists`, date: entry.date },
+          409
+        );
+      }
+
+      return jsonResponse({ status: "updated", entry: serializeTrackerEntry(entry) });
+    }
+
+    // --- GET /tracker/yesterday/:agent - Most recent entry ---
+    if (url.pathname.match(/^\/tracker\/yesterday\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      if (!agent) {
+        return textResponse("Missing agent", 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const result = await env.DB.prepare(
+        `
+        SELECT *
+        FROM tracker_entries
+        WHERE agent = ?
+        ORDER BY date DESC, timestamp DESC
+        LIMIT 1
+        `
+      )
+        .bind(agent)
+        .first();
+
+      if (!result) {
+        return jsonResponse({ agent, entry: null, message: "No tracker entries found" });
+      }
+
+      const [entry] = await loadTrackerEntries(env, [result]);
+      const serialized = serializeTrackerEntry(entry);
+      if (url.searchParams.get("expand") === "observations") {
+        const [expanded] = await expandLinkedObservations(env, [serialized]);
+        return jsonResponse({ agent, entry: expanded });
+      }
+      return jsonResponse({ agent, entry: serialized });
+    }
+
+    // --- GET /tracker/week/:agent - Seven-day aggregation ---
+    if (url.pathname.match(/^\/tracker\/week\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      if (!agent) {
+        return textResponse("Missing agent", 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      // Get entries from last 7 days
+      const sevenDaysAgo = new Date();
+      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+      const cutoffDate = sevenDaysAgo.toISOString().split('T')[0];
+
+      const results = await env.DB.prepare(
+        `
+        SELECT *
+        FROM tracker_entries
+        WHERE agent = ?
+          AND date >= ?
+        ORDER BY date DESC
+        `
+      )
+        .bind(agent, cutoffDate)
+        .all();
+
+      const entries = await loadTrackerEntries(env, results.results);
+      const schema = await getTrackerSchema(env, agent);
+
+      // Compute trends (variance in each marker)
+      const markerTrends: Record<string, { values: number[]; variance: number; trend: string }> = {};
+      const markerNames = schema.markers.map((def) => def.name);
+
+      for (const markerName of markerNames) {
+        // Entries from before a marker was added simply have no value for it
+        const values = entries
+          .map((e) => e.markers[markerName]?.score)
+          .filter((v): v is number => typeof v === 'number');
+        if (values.length > 0) {
+          const mean = values.reduce((a: number, b: number) => a + b, 0) / values.length;
+          const variance = values.reduce((sum: number, v: number) => sum + Math.pow(v - mean, 2), 0) / values.length;
+
+          let trend = 'stable';
+          if (values.length >= 3) {
+            const firstHalf = values.slice(Math.floor(values.length / 2));
+            const secondHalf = values.slice(0, Math.floor(values.length / 2));
+            const avgFirst = firstHalf.reduce((a: number, b: number) => a + b, 0) / firstHalf.length;
+            const avgSecond = secondHalf.reduce((a: number, b: number) => a + b, 0) / secondHalf.length;
+            const diff = avgSecond - avgFirst;
+            if (diff > 0.5) trend = 'rising';
+            else if (diff < -0.5) trend = 'falling';
+            else if (variance > 1) trend = 'volatile';
+          }
+
+          markerTrends[markerName] = {
+            values,
+            variance: Number(variance.toFixed(2)),
+            trend,
+          };
+        }
+      }
+
+      // Check for any drift signatures
+      const driftAlerts = detectDrift(entries, await getDriftRules(env, agent));
+
+      // Compute weekly averages
+      const weeklyAverages = {
+        emergence_index: entries.length > 0
+          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.emergence_index, 0) / entries.length).toFixed(2))
+          : 0,
+        coherence_index: entries.length > 0
+          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.coherence_index, 0) / entries.length).toFixed(2))
+          : 0,
+        impact_index: entries.length > 0
+          ? Number((entries.reduce((sum: number, e: TrackerEntry) => sum + e.impact_index, 0) / entries.length).toFixed(2))
+          : 0,
+      };
+
+      // Find high-variance markers (potential instability)
+      const highVarianceMarkers = Object.entries(markerTrends)
+        .filter(([_, data]) => data.variance > 1)
+        .map(([name, data]) => ({ name, variance: data.variance, trend: data.trend }));
+
+      return jsonResponse({
+        agent,
+        period: {
+          start: cutoffDate,
+          end: new Date().toISOString().split('T')[0],
+          entryCount: entries.length,
+        },
+        weeklyAverages,
+        markerTrends,
+        highVarianceMarkers,
+        driftAlerts,
+        entries: url.searchParams.get("expand") === "observations"
+          ? await expandLinkedObservations(env, entries.map(serializeTrackerEntry))
+          : entries.map(serializeTrackerEntry),
+      });
+    }
+
+    // --- GET /tracker/range/:agent - Long-range analytics (?from=&to=&bucket=day|week|month&window=) ---
+    if (url.pathname.match(/^\/tracker\/range\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const isDate = (value: string) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+      const today = new Date().toISOString().split('T')[0];
+      const to = url.searchParams.get("to") ?? today;
+      // The default `from` is derived from `to`, so check `to` first
+      if (!isDate(to)) {
+        return jsonResponse({ error: "INVALID_DATE", message: "to must be YYYY-MM-DD" }, 400);
+      }
+      const from = url.searchParams.get("from") ?? new Date(Date.parse(`${to}T00:00:00Z`) - 89 * DAY_MS).toISOString().split('T')[0];
+      if (!isDate(from)) {
+        return jsonResponse({ error: "INVALID_DATE", message: "from must be YYYY-MM-DD" }, 400);
+      }
+      if (from > to) {
+        return jsonResponse({ error: "INVALID_RANGE", message: "from must not be after to" }, 400);
+      }
+      if (daysBetween(from, to) > 730) {
+        return jsonResponse({ error: "INVALID_RANGE", message: "Range is limited to two years" }, 400);
+      }
+
+      const bucket = (url.searchParams.get("bucket") ?? "day") as RangeBucket;
+      if (!["day", "week", "month"].includes(bucket)) {
+        return textResponse("bucket must be one of: day, week, month", 400);
+      }
+      const defaultWindow = { day: 7, week: 4, month: 3 }[bucket];
+      const window = Math.max(1, Math.min(parseInt(url.searchParams.get("window") || "") || defaultWindow, 52));
+
+      const results = await env.DB.prepare(
+        `
+        SELECT *
+        FROM tracker_entries
+        WHERE agent = ?
+          AND date >= ?
+          AND date <= ?
+        ORDER BY date ASC
+        `
+      )
+        .bind(agent, from, to)
+        .all();
+
+      const entries = await loadTrackerEntries(env, results.results);
+      const schema = await getTrackerSchema(env, agent);
+
+      // Schema markers first, then any older markers still present in the range
+      const markerNames = schema.markers.map((def) => def.name);
+      for (const entry of entries) {
+        for (const name of Object.keys(entry.markers)) {
+          if (!markerNames.includes(name)) markerNames.push(name);
+        }
+      }
+
+      const emotionRows = await env.DB.prepare(
+        `
+        SELECT
+          substr(created_at, 1, 10) AS day,
+          AVG(emotion_intimacy) AS emotion_intimacy,
+          AVG(emotion_conflict) AS emotion_conflict,
+          AVG(emotion_joy) AS emotion_joy,
+          AVG(emotion_fear) AS emotion_fear
+        FROM observations
+        WHERE agent_id = ?
+          AND deleted_at IS NULL
+          AND substr(created_at, 1, 10) BETWEEN ? AND ?
+        GROUP BY day
+        `
+      )
+        .bind(agent, from, to)
+        .all();
+      const emotionDays = new Map(emotionRows.results.map((row: any) => [row.day as string, row]));
+
+      return jsonResponse({
+        agent,
+        period: { from, to, bucket, window, entryCount: entries.length },
+        markers: markerNames,
+        ...analyzeTrackerRange(entries, markerNames, emotionDays, { from, to, bucket, window }),
+      });
+    }
+
+    // --- GET /tracker/displaced/:agent - Same-day entries set aside by the one-per-day migration ---
+    if (url.pathname.match(/^\/tracker\/displaced\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const results = await env.DB.prepare(
+        `SELECT * FROM tracker_entries_displaced WHERE agent = ? ORDER BY date ASC, timestamp ASC`
+      )
+        .bind(agent)
+        .all();
+      const entries = await loadTrackerEntries(env, results.results);
+
+      return jsonResponse({ agent, count: entries.length, entries: entries.map(serializeTrackerEntry) });
+    }
+
+    // --- /tracker/drift/:agent/rules[/:id] - Custom drift rules ---
+    const driftRuleMatch = url.pathname.match(/^\/tracker\/drift\/([^/]+)\/rules(?:\/([^/]+))?$/);
+    if (driftRuleMatch) {
+      const agent = pathAgent(url, 3);
+      const ruleId = driftRuleMatch[2] ? decodeURIComponent(driftRuleMatch[2]) : null;
+
+      if (request.method === "GET" && !ruleId) {
+        const denied = authorize(auth, "read", agent);
+        if (denied) return denied;
+
+        return jsonResponse({ agent, rules: await getDriftRules(env, agent) });
+      }
+
+      if (ruleId && (request.method === "PUT" || request.method === "DELETE")) {
+        const denied = authorize(auth, "admin", agent);
+        if (denied) return denied;
+
+        const custom = await getCustomDriftRules(env, agent);
+        const remaining = custom.filter((r) => r.id !== ruleId);
+
+        if (request.method === "DELETE") {
+          if (remaining.length === custom.length) {
+            return jsonResponse({ error: "RULE_NOT_FOUND", id: ruleId }, 404);
+          }
+          await env.SOULFILES.put(`${agent}:drift_rules`, JSON.stringify(remaining));
+          return jsonResponse({ status: "deleted", agent, id: ruleId });
+        }
+
+        const body: any = await request.json().catch(() => null);
+        const rule = normalizeDriftRule(body, ruleId);
+        if (typeof rule === "string") {
+          return jsonResponse({ error: "INVALID_RULE", message: rule }, 400);
+        }
+
+        await env.SOULFILES.put(`${agent}:drift_rules`, JSON.stringify([...remaining, rule]));
+        const unknown = unknownDriftMarkers(rule, await getTrackerSchema(env, agent));
+
+        return jsonResponse({
+          status: remaining.length === custom.length ? "created" : "updated",
+          agent,
+          rule,
+          warnings: unknown.length > 0 ? unknown.map((m) => `UNKNOWN_MARKER:${m}`) : undefined,
+        });
+      }
+    }
+
+    // --- POST /tracker/drift/:agent/test - Replay a proposed rule against history ---
+    if (url.pathname.match(/^\/tracker\/drift\/[^/]+\/test$/) && request.method === "POST") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json().catch(() => null);
+      const rule = normalizeDriftRule(body?.rule ?? body, body?.rule?.id ?? body?.id ?? "proposed");
+      if (typeof rule === "string") {
+        return jsonResponse({ error: "INVALID_RULE", message: rule }, 400);
+      }
+
+      // `days` belongs to the rule, so the replay window is history_days
+      const days = Math.min(Number(body?.history_days ?? url.searchParams.get("history_days")) || 30, 365);
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - days);
+
+      const results = await env.DB.prepare(
+        `
+        SELECT *
+        FROM tracker_entries
+        WHERE agent = ?
+          AND date >= ?
+        ORDER BY date ASC
+        `
+      )
+        .bind(agent, cutoffDate.toISOString().split('T')[0])
+        .all();
+
+      const entries = await loadTrackerEntries(env, results.results);
+      const { triggered, matchingDays, streak } = evaluateDriftRule({ ...rule, enabled: true }, entries);
+      const unknown = unknownDriftMarkers(rule, await getTrackerSchema(env, agent));
+
+      return jsonResponse({
+        agent,
+        rule,
+        analyzedDays: days,
+        entryCount: entries.length,
+        wouldAlert: triggered,
+        matchCount: matchingDays.length,
+        longestStreak: streak.length,
+        days: entries.map((entry) => ({ date: entry.date, ...evaluateDriftDay(rule, entry) })),
+        warnings: unknown.length > 0 ? unknown.map((m) => `UNKNOWN_MARKER:${m}`) : undefined,
+      });
+    }
+
+    // --- GET /tracker/drift/:agent - Pattern detection ---
+    if (url.pathname.match(/^\/tracker\/drift\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      if (!agent) {
+        return textResponse("Missing agent", 400);
+      }
+
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const days = Number(url.searchParams.get("days")) || 7;
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - days);
+
+      const results = await env.DB.prepare(
+        `
+        SELECT *
+        FROM tracker_entries
+        WHERE agent = ?
+          AND date >= ?
+        ORDER BY date DESC
+        `
+      )
+        .bind(agent, cutoffDate.toISOString().split('T')[0])
+        .all();
+
+      const entries = await loadTrackerEntries(env, results.results);
+      const driftAlerts = detectDrift(entries, await getDriftRules(env, agent));
+
+      return jsonResponse({
+        agent,
+        analyzedDays: days,
+        entryCount: entries.length,
+        driftAlerts,
+        status: driftAlerts.length > 0 ? 'drift_detected' : 'stable',
+      });
+    }
+
+    // --- GET /tracker/drift/:agent/alerts - Alerts stored by the drift job ---
+    if (url.pathname.match(/^\/tracker\/drift\/[^/]+\/alerts$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || 50, 200);
+      const results = await env.DB.prepare(
+        `
+        SELECT *
+        FROM drift_alerts
+        WHERE agent = ?
+        ORDER BY detected_at DESC, last_match_day DESC
+        LIMIT ?
+        `
+      )
+        .bind(agent, limit)
+        .all();
+
+      return jsonResponse({
+        agent,
+        count: results.results.length,
+        alerts: results.results.map((row: any) => ({
+          ...row,
+          match_days: JSON.parse(row.match_days),
+          triggering_markers: JSON.parse(row.triggering_markers),
+        })),
+      });
+    }
+
+    // ============================================================
+    // NOTIFICATION ENDPOINTS - Subscriptions + delivery log
+    // ============================================================
+
+    // --- GET /notifications/:agent/subscriptions ---
+    if (url.pathname.match(/^\/notifications\/[^/]+\/subscriptions$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const results = await env.DB.prepare(
+        `SELECT * FROM notification_subscriptions WHERE agent = ? ORDER BY created_at ASC`
+      )
+        .bind(agent)
+        .all();
+
+      return jsonResponse({
+        agent,
+        events: NOTIFICATION_EVENTS,
+        subscriptions: results.results.map((row) => parseSubscription(row)),
+      });
+    }
+
+    // --- POST /notifications/:agent/subscriptions - Secret is only shown here ---
+    if (url.pathname.match(/^\/notifications\/[^/]+\/subscriptions$/) && request.method === "POST") {
+      const agent = pathAgent(url, 2);
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json().catch(() => null);
+      const invalid = validateSubscription(body);
+      if (invalid) {
+        return jsonResponse({ error: "INVALID_SUBSCRIPTION", message: invalid }, 400);
+      }
+      if (body.type === "discord" && !(await isDiscordChannelAllowed(env, body.channel_id))) {
+        return jsonResponse({ error: "CHANNEL_NOT_ALLOWED", channelId: body.channel_id }, 403);
+      }
+
+      const row = {
+        id: crypto.randomUUID(),
+        agent,
+        type: body.type,
+        target: body.type === "webhook" ? body.url : body.channel_id,
+        secret: body.type === "webhook" ? generateApiKey() : null,
+        events: JSON.stringify([...new Set(body.events)]),
+        enabled: body.enabled === false ? 0 : 1,
+        created_by: auth.keyId,
+        created_at: new Date().toISOString(),
+      };
+
+      await env.DB.prepare(
+        `
+        INSERT INTO notification_subscriptions (id, agent, type, target, secret, events, enabled, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+        .bind(row.id, row.agent, row.type, row.target, row.secret, row.events, row.enabled, row.created_by, row.created_at)
+        .run();
+
+      return jsonResponse(
+        {
+          ...parseSubscription(row, true),
+          warning: row.secret ? "Store this secret now. It is used to sign webhook requests and will not be shown again." : undefined,
+        },
+        201
+      );
+    }
+
+    // --- PATCH / DELETE /notifications/:agent/subscriptions/:id ---
+    const subscriptionMatch = url.pathname.match(/^\/notifications\/([^/]+)\/subscriptions\/([^/]+)$/);
+    if (subscriptionMatch && (request.method === "PATCH" || request.method === "DELETE")) {
+      const agent = pathAgent(url, 2);
+      const id = decodeURIComponent(subscriptionMatch[2]);
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const existing: any = await env.DB.prepare(
+        `SELECT * FROM notification_subscriptions WHERE id = ? AND agent = ?`
+      )
+        .bind(id, agent)
+        .first();
+      if (!existing) {
+        return jsonResponse({ error: "SUBSCRIPTION_NOT_FOUND", message: `No subscription ${id} for ${agent}` }, 404);
+      }
+
+      if (request.method === "DELETE") {
+        await env.DB.prepare(`DELETE FROM notification_subscriptions WHERE id = ?`).bind(id).run();
+        return jsonResponse({ status: "deleted", id });
+      }
+
+      // Only events and enabled can change; the target and secret are fixed
+      const body: any = await request.json().catch(() => null);
+      const events = body?.events ?? JSON.parse(existing.events);
+      const invalid = validateSubscription({
+        type: existing.type,
+        url: existing.target,
+        channel_id: existing.target,
+        events,
+      });
+      if (invalid) {
+        return jsonResponse({ error: "INVALID_SUBSCRIPTION", message: invalid }, 400);
+      }
+      const enabled = typeof body?.enabled === "boolean" ? (body.enabled ? 1 : 0) : existing.enabled;
+
+      await env.DB.prepare(`UPDATE notification_subscriptions SET events = ?, enabled = ? WHERE id = ?`)
+        .bind(JSON.stringify([...new Set(events)]), enabled, id)
+        .run();
+
+      return jsonResponse(parseSubscription({ ...existing, events: JSON.stringify([...new Set(events)]), enabled }));
+    }
+
+    // --- POST /notifications/:agent/subscriptions/:id/test - Send a test event ---
+    if (url.pathname.match(/^\/notifications\/[^/]+\/subscriptions\/[^/]+\/test$/) && request.method === "POST") {
+      const agent = pathAgent(url, 2);
+      const id = decodeURIComponent(url.pathname.split("/")[4]);
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const subscription = await env.DB.prepare(
+        `SELECT id FROM notification_subscriptions WHERE id = ? AND agent = ?`
+      )
+        .bind(id, agent)
+        .first();
+      if (!subscription) {
+        return jsonResponse({ error: "SUBSCRIPTION_NOT_FOUND", message: `No subscription ${id} for ${agent}` }, 404);
+      }
+
+      const delivery = newDelivery(id, agent, "test", { message: "Test notification" });
+      await deliveryInsertStatement(env, delivery).run();
+      await runDelivery(env, delivery);
+
+      const logged = await env.DB.prepare(`SELECT * FROM notification_deliveries WHERE id = ?`).bind(delivery.id).first();
+      return jsonResponse(logged);
+    }
+
+    // --- GET /notifications/:agent/deliveries?status=&event=&limit= - Delivery log ---
+    if (url.pathname.match(/^\/notifications\/[^/]+\/deliveries$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || 50, NOTIFY.DELIVERIES_PAGE_MAX);
+      const status = url.searchParams.get("status");
+      const event = url.searchParams.get("event");
+
+      let sql = `SELECT * FROM notification_deliveries WHERE agent = ?`;
+      const params: any[] = [agent];
+      if (status) {
+        sql += ` AND status = ?`;
+        params.push(status);
+      }
+      if (event) {
+        sql += ` AND event = ?`;
+        params.push(event);
+      }
+      sql += ` ORDER BY created_at DESC LIMIT ?`;
+      params.push(limit);
+
+      const results = await env.DB.prepare(sql).bind(...params).all();
+      return jsonResponse({
+        agent,
+        count: results.results.length,
+        deliveries: results.results.map((row: any) => ({ ...row, payload: JSON.parse(row.payload) })),
+      });
+    }
+
+    // --- POST /notifications/deliveries/:id/retry - Retry now, even if failed ---
+    if (url.pathname.match(/^\/notifications\/deliveries\/[^/]+\/retry$/) && request.method === "POST") {
+      const id = decodeURIComponent(url.pathname.split("/")[3]);
+      const delivery: any = await env.DB.prepare(`SELECT * FROM notification_deliveries WHERE id = ?`).bind(id).first();
+      if (!delivery) {
+        return jsonResponse({ error: "DELIVERY_NOT_FOUND", message: `No delivery ${id}` }, 404);
+      }
+
+      const denied = authorize(auth, "admin", delivery.agent);
+      if (denied) return denied;
+
+      if (delivery.status === "delivered") {
+        return jsonResponse({ error: "ALREADY_DELIVERED", message: "Delivery already succeeded" }, 409);
+      }
+
+      // A manual retry gets a fresh set of attempts
+      await runDelivery(env, { ...delivery, attempts: 0 });
+      const logged = await env.DB.prepare(`SELECT * FROM notification_deliveries WHERE id = ?`).bind(id).first();
+      return jsonResponse(logged);
+    }
+
+    // ============================================================
+    // AUDIT ENDPOINTS - Who changed what, newest first
+    // ============================================================
+
+    // --- GET /audit/:agent?target_id=&action=&actor=&target_type=&since=&until=&limit= ---
+    if (url.pathname.match(/^\/audit\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || AUDIT.PAGE_DEFAULT, AUDIT.PAGE_MAX);
+
+      let sql = `SELECT * FROM audit_log WHERE agent = ?`;
+      const params: any[] = [agent];
+      for (const field of ["target_id", "target_type", "action", "actor"]) {
+        const value = url.searchParams.get(field);
+        if (value) {
+          sql += ` AND ${field} = ?`;
+          params.push(value);
+        }
+      }
+      const since = url.searchParams.get("since");
+      if (since) {
+        sql += ` AND created_at >= ?`;
+        params.push(since);
+      }
+      const until = url.searchParams.get("until");
+      if (until) {
+        sql += ` AND created_at < ?`;
+        params.push(until);
+      }
+      sql += ` ORDER BY created_at DESC, id ASC LIMIT ?`;
+      params.push(limit);
+
+      const results = await env.DB.prepare(sql).bind(...params).all();
+      return jsonResponse({
+        agent,
+        count: results.results.length,
+        entries: results.results.map(parseAuditEntry),
+      });
+    }
+
+    // ============================================================
+    // MAINTENANCE ENDPOINTS - Scheduled job runs + digests
+    // ============================================================
+
+    // --- GET /maintenance/runs - Recent runs, newest first ---
+    if (url.pathname === "/maintenance/runs" && request.method === "GET") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || 20, 100);
+      const results = await env.DB.prepare(
+        `SELECT * FROM maintenance_runs ORDER BY started_at DESC LIMIT ?`
+      )
+        .bind(limit)
+        .all();
+
+      return jsonResponse({
+        jobs: Object.entries(MAINTENANCE_JOBS).map(([name, job]) => ({
+          name,
+          schedule: job.schedule,
+          description: job.description,
+          enabled: enabledMaintenanceJobs(env).includes(name),
+        })),
+        runs: results.results.map(parseMaintenanceRun),
+      });
+    }
+
+    // --- GET /maintenance/runs/:id ---
+    if (url.pathname.match(/^\/maintenance\/runs\/[^/]+$/) && request.method === "GET") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const id = decodeURIComponent(url.pathname.split("/")[3]);
+      const row = await env.DB.prepare(`SELECT * FROM maintenance_runs WHERE id = ?`).bind(id).first();
+      if (!row) {
+        return jsonResponse({ error: "RUN_NOT_FOUND", message: `No maintenance run ${id}` }, 404);
+      }
+
+      return jsonResponse(parseMaintenanceRun(row));
+    }
+
+    // --- POST /maintenance/run - Run jobs now (ignores the weekly schedule) ---
+    if (url.pathname === "/maintenance/run" && request.method === "POST") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const body: any = await request.json().catch(() => ({}));
+      const jobs: string[] = body?.jobs ?? enabledMaintenanceJobs(env);
+      if (!Array.isArray(jobs) || jobs.length === 0) {
+        return textResponse("jobs must be a non-empty array", 400);
+      }
+      const unknown = jobs.filter((job) => typeof job !== "string" || !Object.hasOwn(MAINTENANCE_JOBS, job));
+      if (unknown.length > 0) {
+        return jsonResponse(
+          { error: "UNKNOWN_JOB", message: `Unknown jobs: ${unknown.join(", ")}`, available: Object.keys(MAINTENANCE_JOBS) },
+          400
+        );
+      }
+
+      const run = await runMaintenance(env, { trigger: "manual", jobs });
+      return jsonResponse(run, run.status === "failed" ? 500 : 200);
+    }
+
+    // --- GET /digests/:agent - Weekly digests, newest first ---
+    if (url.pathname.match(/^\/digests\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || 4, 52);
+      const results = await env.DB.prepare(
+        `SELECT * FROM weekly_digests WHERE agent = ? ORDER BY period_end DESC LIMIT ?`
+      )
+        .bind(agent, limit)
+        .all();
+
+      return jsonResponse({
+        agent,
+        digests: results.results.map((row: any) => ({ ...row, digest: JSON.parse(row.digest) })),
+      });
+    }
+
+    // ============================================================
+    // INGEST ENDPOINTS - Transcript import + review queue
+    // ============================================================
+
+    // --- POST /ingest/transcript/:agent - Parse transcript into candidates ---
+    if (url.pathname.match(/^\/ingest\/transcript\/[^/]+$/) && request.method === "POST") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const body: any = await request.json().catch(() => null);
+      if (!body || body.content === undefined || body.content === null || body.content === "") {
+        return textResponse("Missing content", 400);
+      }
+
+      let input = body.content;
+      if (typeof input === "string" && body.format !== "plain") {
+        try {
+          input = JSON.parse(input);
+        } catch {
+          // Not JSON - treat as a plain text log
+        }
+      }
+
+      const format: string = !body.format || body.format === "auto" ? detectTranscriptFormat(input) : body.format;
+      if (!["plain", "chatgpt", "discord"].includes(format)) {
+        return jsonResponse({ error: "INVALID_FORMAT", message: "format must be auto, plain, chatgpt or discord" }, 400);
+      }
+      if (format === "plain" && typeof input !== "string") {
+        return jsonResponse({ error: "INVALID_FORMAT", message: "plain transcripts must be a string" }, 400);
+      }
+
+      const messages =
+        format === "plain"
+          ? parsePlainTranscript(input, body.source_ref ?? "transcript")
+          : format === "chatgpt"
+            ? parseChatGptExport(input)
+            : parseDiscordMessages(input, body.channel_id ?? null);
+
+      if (messages.length === 0) {
+        return jsonResponse({ error: "EMPTY_TRANSCRIPT", message: "No messages could be parsed" }, 400);
+      }
+
+      const candidates = transcriptToCandidates(messages, format === "plain" ? "transcript" : format);
+      const { batchId, queued, duplicates } = await queueCandidates(env, agent, candidates, {
+        author: body.author ?? "import",
+        perspective: body.perspective ?? "shared",
+      });
+
+      const accepted: Array<{ candidate_id: string; observation_id: string }> = [];
+      if (body.auto_accept === true) {
+        for (const candidate of queued) {
+          const observationId = await acceptCandidate(env, auditContext(auth, request), candidate);
+          if (observationId) accepted.push({ candidate_id: candidate.id, observation_id: observationId });
+        }
+      }
+
+      return jsonResponse({
+        status: "ok",
+        agent,
+        format,
+        batch_id: batchId,
+        messages: messages.length,
+        segments: candidates.length,
+        queued: queued.length,
+        duplicates,
+        accepted: body.auto_accept === true ? accepted : undefined,
+        candidates: queued.map((c) => ({
+          id: c.id,
+          kind: c.kind,
+          salience: c.salience,
+          source_ref: c.source_ref,
+          preview: c.content.slice(0, 160),
+        })),
+      });
+    }
+
+    // --- GET /ingest/queue/:agent - List candidates (?status=pending&batch=&limit=) ---
+    if (url.pathname.match(/^\/ingest\/queue\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 3);
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      const status = url.searchParams.get("status") ?? "pending";
+      if (!["pending", "accepted", "rejected", "all"].includes(status)) {
+        return textResponse("status must be pending, accepted, rejected or all", 400);
+      }
+      const batch = url.searchParams.get("batch");
+      const limit = parseLimitParam(url.searchParams.get("limit"), 50, INGEST.QUEUE_PAGE_MAX);
+      if (limit === null) {
+        return textResponse(`limit must be an integer from 1 to ${INGEST.QUEUE_PAGE_MAX}`, 400);
+      }
+
+      const conditions = ["agent_id = ?"];
+      const params: any[] = [agent];
+      if (status !== "all") {
+        conditions.push("status = ?");
+        params.push(status);
+      }
+      if (batch) {
+        conditions.push("batch_id = ?");
+        params.push(batch);
+      }
+
+      const rows = await env.DB.prepare(
+        `
+        SELECT * FROM ingest_candidates
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY created_at ASC, started_at ASC
+        LIMIT ?
+        `
+      )
+        .bind(...params, limit)
+        .all();
+
+      return jsonResponse({
+        agent,
+        status,
+        count: rows.results.length,
+        candidates: rows.results.map((row: any) => ({ ...row, speakers: JSON.parse(row.speakers || "[]") })),
+      });
+    }
+
+    // --- /ingest/candidates/:id[/accept|/reject] - Review a candidate ---
+    const candidateMatch = url.pathname.match(/^\/ingest\/candidates\/([^/]+)(?:\/(accept|reject))?$/);
+    if (
+      candidateMatch &&
+      ((candidateMatch[2] === undefined && request.method === "PATCH") ||
+        (candidateMatch[2] !== undefined && request.method === "POST"))
+    ) {
+      const candidateId = candidateMatch[1];
+      const action = candidateMatch[2] ?? "edit";
+
+      const candidate: any = await env.DB.prepare(`SELECT * FROM ingest_candidates WHERE id = ?`)
+        .bind(candidateId)
+        .first();
+      if (!candidate) {
+        return jsonResponse({ error: "CANDIDATE_NOT_FOUND", id: candidateId }, 404);
+      }
+
+      const denied = authorize(auth, "write", candidate.agent_id);
+      if (denied) return denied;
+
+      if (candidate.status !== "pending") {
+        return jsonResponse(
+          { error: "CANDIDATE_ALREADY_REVIEWED", id: candidateId, status: candidate.status },
+          409
+        );
+      }
+
+      const body: any = await request.json().catch(() => ({}));
+      const edits = pickCandidateEdits(body);
+      const editError = validateCandidateEdits(edits);
+      if (editError) {
+        return textResponse(editError, 400);
+      }
+
+      // Another reviewer got there between the read above and the write
+      const alreadyReviewed = async () => {
+        const current: any = await env.DB.prepare(`SELECT status FROM ingest_candidates WHERE id = ?`)
+          .bind(candidateId)
+          .first();
+        return jsonResponse(
+          { error: "CANDIDATE_ALREADY_REVIEWED", id: candidateId, status: current?.status ?? null },
+          409
+        );
+      };
+
+      if (action === "accept") {
+        const observationId = await acceptCandidate(env, auditContext(auth, request), candidate, edits);
+        if (!observationId) return alreadyReviewed();
+        return jsonResponse({ status: "accepted", id: candidateId, observation_id: observationId });
+      }
+
+      if (action === "reject") {
+        const rejected = await env.DB.prepare(
+          `UPDATE ingest_candidates SET status = 'rejected', reviewed_at = ? WHERE id = ? AND status = 'pending'`
+        )
+          .bind(new Date().toISOString(), candidateId)
+          .run();
+        if (rejected.meta.changes !== 1) return alreadyReviewed();
+        return jsonResponse({ status: "rejected", id: candidateId });
+      }
+
+      const fields = Object.keys(edits);
+      if (fields.length === 0) {
+        return textResponse("No editable fields provided", 400);
+      }
+
+      const updated = await env.DB.prepare(
+        `UPDATE ingest_candidates SET ${fields.map((f) => `${f} = ?`).join(", ")} WHERE id = ? AND status = 'pending'`
+      )
+        .bind(...fields.map((f) => edits[f]), candidateId)
+        .run();
+      if (updated.meta.changes !== 1) return alreadyReviewed();
+
+      return jsonResponse({ status: "updated", id: candidateId, fields });
+    }
+
+    // ============================================================
+    // ARCHIVE ENDPOINTS - Export / import an agent's mind
+    // ============================================================
+
+    // --- GET /export/:agent - Stream archive (NDJSON default, ?format=json) ---
+    if (url.pathname.match(/^\/export\/[^/]+$/) && request.method === "GET") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const asJson = url.searchParams.get("format") === "json";
+      const options = {
+        includeSuperseded: url.searchParams.get("include_superseded") !== "false",
+        includeDeleted: url.searchParams.get("include_deleted") === "true",
+        includeGlobalSettings: authorize(auth, "admin", ALL_AGENTS) === null,
+      };
+      const header = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        schema_version: SCHEMA_VERSION,
+        agent,
+        exported_at: new Date().toISOString(),
+        options: { include_superseded: options.includeSuperseded, include_deleted: options.includeDeleted },
+      };
+
+      const { readable, writable } = new TransformStream();
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      const write = (text: string) => writer.write(encoder.encode(text));
+
+      (async () => {
+        const checksums = Object.fromEntries(
+          Object.values(ARCHIVE_SECTIONS).map((section) => [section, createSectionChecksum()])
+        );
+        let openSection: string | null = null;
+        let firstInSection = true;
+
+        try {
+          await write(asJson ? `{"header":${JSON.stringify(header)}` : JSON.stringify({ type: "header", ...header }) + "\n");
+
+          await emitArchiveRecords(env, agent, options, async (type, data) => {
+            const section = ARCHIVE_SECTIONS[type];
+            await checksums[section].add(data);
+
+            if (!asJson) {
+              await write(JSON.stringify({ type, data }) + "\n");
+              return;
+            }
+            if (section !== openSection) {
+              await write(`${openSection ? "]" : ""},"${section}":[`);
+              openSection = section;
+              firstInSection = true;
+            }
+            await write((firstInSection ? "" : ",") + JSON.stringify(data));
+            firstInSection = false;
+          });
+
+          const footer = {
+            counts: Object.fromEntries(Object.entries(checksums).map(([s, c]) => [s, c.count()])),
+            checksums: Object.fromEntries(
+              await Promise.all(Object.entries(checksums).map(async ([s, c]) => [s, await c.digest()]))
+            ),
+          };
+
+          await write(
+            asJson
+              ? `${openSection ? "]" : ""},"footer":${JSON.stringify(footer)}}`
+              : JSON.stringify({ type: "footer", ...footer }) + "\n"
+          );
+          await writer.close();
+        } catch (err) {
+          // Errors the response body, so the download fails instead of
+          // ending cleanly without a footer
+          await writer.abort(err);
+        }
+      })();
+
+      const date = header.exported_at.split("T")[0];
+      return new Response(readable, {
+        headers: {
+          "Content-Type": asJson ? "application/json" : "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="${agent}-${date}.${asJson ? "json" : "ndjson"}"`,
+          ...corsHeaders,
+        },
+      });
+    }
+
+    // --- POST /import/:agent - Import archive (?dry_run, ?conflict, ?remap_ids) ---
+    if (url.pathname.match(/^\/import\/[^/]+$/) && request.method === "POST") {
+      const agent = pathAgent(url, 2);
+
+      const denied = authorize(auth, "admin", agent);
+      if (denied) return denied;
+
+      const conflict = (url.searchParams.get("conflict") ?? "skip") as ConflictPolicy;
+      if (!["skip", "overwrite", "merge"].includes(conflict)) {
+        return textResponse("conflict must be one of: skip, overwrite, merge", 400);
+      }
+
+      let archive: ReturnType<typeof parseArchive>;
+      try {
+        archive = parseArchive(await request.text());
+      } catch (err: any) {
+        return jsonResponse({ error: "INVALID_ARCHIVE", details: String(err?.message ?? err) }, 400);
+      }
+
+      if (archive.header?.format !== ARCHIVE_FORMAT) {
+        return jsonResponse({ error: "INVALID_ARCHIVE", details: "Missing or unknown archive header" }, 400);
+      }
+      if (archive.header.version > ARCHIVE_VERSION) {
+        return jsonResponse({ error: "UNSUPPORTED_ARCHIVE_VERSION", version: archive.header.version }, 400);
+      }
+      if (!archive.footer) {
+        return jsonResponse({ error: "INCOMPLETE_ARCHIVE", details: "Archive has no footer (truncated?)" }, 400);
+      }
+
+      const problems = await verifyArchive(archive.records, archive.footer);
+      if (problems.length > 0) {
+        return jsonResponse({ error: "INTEGRITY_CHECK_FAILED", problems }, 422);
+      }
+
+      const result = await importArchive(env, agent, archive.records, {
+        dryRun: url.searchParams.get("dry_run") === "true",
+        conflict,
+        remapIds: url.searchParams.get("remap_ids") === "true",
+        globalSettings: authorize(auth, "admin", ALL_AGENTS) === null,
+        audit: auditContext(auth, request),
+      });
+
+      return jsonResponse({ ...result, source_agent: archive.header.agent, checksums_verified: true });
+    }
+
+    // ============================================================
+    // DISCORD CONNECTOR - Manual Read/Write Bridge
+    // ============================================================
+    // These endpoints allow manual invocation to read from or write
+    // to Discord channels. No automatic responses, no listeners.
+    // We call these when pointed at a specific channel.
+    // ============================================================
+
+    // --- GET /discord/channels - List allowed channels ---
+    if (url.pathname === "/discord/channels" && request.method === "GET") {
+      const denied = authorize(auth, "read");
+      if (denied) return denied;
+
+      const allowedRaw = await env.SOULFILES.get("discord:allowed_channels");
+      const allowed: string[] = allowedRaw ? JSON.parse(allowedRaw) : [];
+      return jsonResponse({ allowed_channels: allowed });
+    }
+
+    // --- POST /discord/channels - Set allowed channels ---
+    if (url.pathname === "/discord/channels" && request.method === "POST") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { channels } = body;
+
+      if (!Array.isArray(channels)) {
+        return textResponse("channels must be an array of channel ID strings", 400);
+      }
+
+      const previousRaw = await env.SOULFILES.get("discord:allowed_channels");
+      await env.SOULFILES.put("discord:allowed_channels", JSON.stringify(channels));
+      await auditStatement(env, auditContext(auth, request), {
+        agent: ALL_AGENTS,
+        action: "set_allowed_channels",
+        target_type: "setting",
+        target_id: "discord:allowed_channels",
+        before: previousRaw ? JSON.parse(previousRaw) : null,
+        after: channels,
+      }).run();
+      return jsonResponse({ status: "ok", allowed_channels: channels });
+    }
+
+    // --- GET /discord/token - Check if token is configured ---
+    if (url.pathname === "/discord/token" && request.method === "GET") {
+      const denied = authorize(auth, "read");
+      if (denied) return denied;
+
+      // Check KV first, then fall back to env secret
+      const kvToken = await env.SOULFILES.get("discord:bot_token");
+      const hasToken = !!(kvToken || env.DISCORD_BOT_TOKEN);
+      return jsonResponse({ configured: hasToken });
+    }
+
+    // --- POST /discord/token - Set bot token in KV ---
+    if (url.pathname === "/discord/token" && request.method === "POST") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const body: any = await request.json();
+      const { token } = body;
+
+      if (!token || typeof token !== "string" || token.length < 50) {
+        return textResponse("Invalid bot token", 400);
+      }
+
+      // The token itself is never logged, only whether one was stored
+      const hadToken = (await env.SOULFILES.get("discord:bot_token")) !== null;
+      await env.SOULFILES.put("discord:bot_token", token);
+      await auditStatement(env, auditContext(auth, request), {
+        agent: ALL_AGENTS,
+        action: "set_token",
+        target_type: "setting",
+        target_id: "discord:bot_token",
+        before: { configured: hadToken },
+        after: { configured: true },
+      }).run();
+      return jsonResponse({ status: "ok", configured: true });
+    }
+
+    // --- DELETE /discord/token - Remove bot token from KV ---
+    if (url.pathname === "/discord/token" && request.method === "DELETE") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const hadToken = (await env.SOULFILES.get("discord:bot_token")) !== null;
+      await env.SOULFILES.delete("discord:bot_token");
+      await auditStatement(env, auditContext(auth, request), {
+        agent: ALL_AGENTS,
+        action: "delete_token",
+        target_type: "setting",
+        target_id: "discord:bot_token",
+        before: { configured: hadToken },
+        after: { configured: false },
+      }).run();
+      return jsonResponse({ status: "ok", configured: false });
+    }
+
+    // --- GET /discord/read/:channelId - Read messages from channel ---
+    if (url.pathname.match(/^\/discord\/read\/[^/]+$/) && request.method === "GET") {
+      const channelId = url.pathname.split("/")[3];
+      if (!channelId) {
+        return textResponse("Missing channel ID", 400);
+      }
+
+      const denied = authorize(auth, "read");
+      if (denied) return denied;
+
+      // At most one of before / after / around (message ids)
+      const cursors = ["before", "after", "around"].filter((name) => url.searchParams.has(name));
+      if (cursors.length > 1) {
+        return textResponse("Use only one of before, after or around", 400);
+      }
+      const cursor = cursors[0];
+      if (cursor && !/^\d+$/.test(url.searchParams.get(cursor)!)) {
+        return textResponse(`${cursor} must be a Discord message id`, 400);
+      }
+
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) {
+        return textResponse("Discord bot token not configured", 500);
+      }
+
+      const channel = await getAllowedDiscordChannel(env, botToken, channelId);
+      if (channel instanceof Response) return channel;
+
+      if (DISCORD_FORUM_TYPES.includes(channel.type)) {
+        return jsonResponse(
+          { error: "FORUM_CHANNEL", message: `Forum posts are threads; list them with /discord/threads/${channelId}` },
+          400
+        );
+      }
+
+      const limit = Math.min(Number(url.searchParams.get("limit")) || DISCORD_READ.DEFAULT_LIMIT, DISCORD_READ.MAX_LIMIT);
+      const query = new URLSearchParams({ limit: String(limit) });
+      if (cursor) query.set(cursor, url.searchParams.get(cursor)!);
+
+      // Fetch messages from Discord REST API (newest first)
+      const discordResponse = await getDiscord(env, botToken, `/channels/${channelId}/messages?${query}`);
+      if (!discordResponse.ok) {
+        return discordApiError(discordResponse);
+      }
+
+      const messages: any[] = await discordResponse.json();
+
+      // Format messages for readability
+      const formatted = messages.map(formatDiscordMessage);
+
+      return jsonResponse({
+        channel_id: channelId,
+        channel: {
+          name: channel.name ?? null,
+          type: channel.type,
+          guild_id: channel.guild_id ?? null,
+          parent_id: channel.parent_id ?? null,
+          is_thread: DISCORD_THREAD_TYPES.includes(channel.type),
+        },
+        message_count: formatted.length,
+        messages: formatted,
+        // Pass `before` to go back in time, `after` to catch up
+        pagination: {
+          before: formatted.length > 0 ? formatted[formatted.length - 1].id : null,
+          after: formatted.length > 0 ? formatted[0].id : null,
+          has_more: formatted.length === limit,
+        },
+      });
+    }
+
+    // --- GET /discord/threads/:channelId - Threads of a text or forum channel ---
+    if (url.pathname.match(/^\/discord\/threads\/[^/]+$/) && request.method === "GET") {
+      const channelId = decodeURIComponent(url.pathname.split("/")[3]);
+      const denied = authorize(auth, "read");
+      if (denied) return denied;
+
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) {
+        return textResponse("Discord bot token not configured", 500);
+      }
+
+      const channel = await getAllowedDiscordChannel(env, botToken, channelId);
+      if (channel instanceof Response) return channel;
+
+      // Active threads are listed per guild; keep this channel's
+      const activeResponse = await getDiscord(env, botToken, `/guilds/${channel.guild_id}/threads/active`);
+      if (!activeResponse.ok) {
+        return discordApiError(activeResponse);
+      }
+      const active: any = await activeResponse.json();
+      const threads = (active.threads ?? []).filter((thread: any) => thread.parent_id === channelId);
+
+      let archivedHasMore = false;
+      if (url.searchParams.get("archived") === "true") {
+        const query = new URLSearchParams({ limit: String(DISCORD_READ.ARCHIVED_THREADS_LIMIT) });
+        const before = url.searchParams.get("before");
+        if (before) query.set("before", before);
+
+        const archivedResponse = await getDiscord(env, botToken, `/channels/${channelId}/threads/archived/public?${query}`);
+        if (!archivedResponse.ok) {
+          return discordApiError(archivedResponse);
+        }
+        const archived: any = await archivedResponse.json();
+        threads.push(...(archived.threads ?? []));
+        archivedHasMore = archived.has_more ?? false;
+      }
+
+      return jsonResponse({
+        channel_id: channelId,
+        is_forum: DISCORD_FORUM_TYPES.includes(channel.type),
+        thread_count: threads.length,
+        threads: threads.map(formatDiscordThread),
+        archived_has_more: archivedHasMore,
+      });
+    }
+
+    // --- POST /discord/write/:channelId - Send message to channel ---
+    if (url.pathname.match(/^\/discord\/write\/[^/]+$/) && request.method === "POST") {
+      const channelId = url.pathname.split("/")[3];
+      if (!channelId) {
+        return textResponse("Missing channel ID", 400);
+      }
+
+      const denied = authorize(auth, "write");
+      if (denied) return denied;
+
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) {
+        return textResponse("Discord bot token not configured", 500);
+      }
+
+      // Threads of an allowed channel are allowed too
+      if (!(await isDiscordChannelAllowed(env, channelId))) {
+        const channel = await getAllowedDiscordChannel(env, botToken, channelId);
+        if (channel instanceof Response) return channel;
+      }
+
+      const body: any = await request.json();
+      const { content, reply_to } = body;
+
+      if (!content || typeof content !== "string" || content.trim() === "") {
+        return textResponse("Missing or invalid content field", 400);
+      }
+
+      // Long messages go out as several parts
+      if (content.length > DISCORD_CLIENT.MAX_PARTS * DISCORD_CLIENT.MESSAGE_LIMIT) {
+        return textResponse(
+          `Message is longer than ${DISCORD_CLIENT.MAX_PARTS * DISCORD_CLIENT.MESSAGE_LIMIT} characters`,
+          400
+        );
+      }
+      const parts = splitDiscordMessage(content).length;
+      if (parts > DISCORD_CLIENT.MAX_PARTS) {
+        return textResponse(`Message would need ${parts} parts (max ${DISCORD_CLIENT.MAX_PARTS})`, 400);
+      }
+
+      // Send message via Discord REST API (only the first part replies)
+      const { sent, failed } = await sendDiscordMessage(env, botToken, channelId, content, reply_to);
+      if (failed && sent.length === 0) {
+        return discordApiError(failed);
+      }
+      if (failed) {
+        return jsonResponse(
+          {
+            error: "PARTIAL_SEND",
+            message: `Sent ${sent.length} of ${parts} parts`,
+            status: failed.status,
+            details: await failed.text(),
+            message_ids: sent.map((m) => m.id),
+          },
+          502
+        );
+      }
+
+      return jsonResponse({
+        status: "sent",
+        channel_id: channelId,
+        message_id: sent[0].id,
+        timestamp: sent[0].timestamp,
+        parts: sent.length,
+        message_ids: sent.map((m) => m.id),
+      });
+    }
+
+    // --- POST /discord/commands - Register the slash commands ---
+    if (url.pathname === "/discord/commands" && request.method === "POST") {
+      const denied = authorize(auth, "admin", ALL_AGENTS);
+      if (denied) return denied;
+
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) {
+        return textResponse("Discord bot token not configured", 500);
+      }
+
+      // Guild commands show up immediately; global ones can take an hour
+      const body: any = await request.json().catch(() => ({}));
+      const guildId = body?.guild_id;
+      if (guildId !== undefined && !/^\d+$/.test(String(guildId))) {
+        return textResponse("guild_id must be a Discord guild id", 400);
+      }
+
+      const appResponse = await getDiscord(env, botToken, "/applications/@me");
+      if (!appResponse.ok) {
+        return discordApiError(appResponse);
+      }
+      const application: any = await appResponse.json();
+
+      const path = guildId
+        ? `/applications/${application.id}/guilds/${guildId}/commands`
+        : `/applications/${application.id}/commands`;
+      const registerResponse = await discordRequest(env, botToken, "PUT", path, DISCORD_COMMANDS);
+      if (!registerResponse.ok) {
+        return discordApiError(registerResponse);
+      }
+      const registered: any[] = await registerResponse.json();
+
+      return jsonResponse({
+        status: "ok",
+        application_id: application.id,
+        guild_id: guildId ?? null,
+        commands: registered.map((c) => c.name),
+        interactions_url: `${url.origin}/discord/interactions`,
+      });
+    }
+
+    // --- GET /discord/ingest/:channelId?agent= - Ingest cursor ---
+    if (url.pathname.match(/^\/discord\/ingest\/[^/]+$/) && request.method === "GET") {
+      const channelId = decodeURIComponent(url.pathname.split("/")[3]);
+      const agent = url.searchParams.get("agent");
+      if (!agent) {
+        return textResponse("Missing agent parameter", 400);
+      }
+      const denied = authorize(auth, "read", agent);
+      if (denied) return denied;
+
+      return jsonResponse({ channel_id: channelId, agent, cursor: await getDiscordIngestCursor(env, agent, channelId) });
+    }
+
+    // --- POST /discord/ingest/:channelId - Channel history into observations ---
+    if (url.pathname.match(/^\/discord\/ingest\/[^/]+$/) && request.method === "POST") {
+      const channelId = decodeURIComponent(url.pathname.split("/")[3]);
+      const body: any = await request.json().catch(() => ({}));
+      const agent = body?.agent;
+
+      if (!agent || typeof agent !== "string") {
+        return textResponse("Missing agent field", 400);
+      }
+      const denied = authorize(auth, "write", agent);
+      if (denied) return denied;
+
+      const mode = body.mode ?? "queue";
+      if (mode !== "queue" && mode !== "direct") {
+        return textResponse("mode must be queue or direct", 400);
+      }
+      if (body.after !== undefined && !/^\d+$/.test(String(body.after))) {
+        return textResponse("after must be a Discord message id", 400);
+      }
+
+      const botToken = await getDiscordBotToken(env);
+      if (!botToken) {
+        return textResponse("Discord bot token not configured", 500);
+      }
+      const toList = (value: any) =>
+        (Array.isArray(value) ? value : value ? [value] : []).map((v: any) => String(v).toLowerCase());
+      const filters: DiscordIngestFilters = {
+        authors: toList(body.authors),
+        keywords: toList(body.keywords),
+        includeBots: body.include_bots === true,
+      };
+      const maxPages = Math.min(Number(body.max_pages) || DISCORD_INGEST.DEFAULT_PAGES, DISCORD_INGEST.MAX_PAGES);
+
+      // Guild id is needed for message links; channel messages don't carry it
+      const channel = await getAllowedDiscordChannel(env, botToken, channelId);
+      if (channel instanceof Response) return channel;
+
+      const previous = await getDiscordIngestCursor(env, agent, channelId);
+      const start = body.after !== undefined ? String(body.after) : previous?.last_message_id ?? "0";
+      let cursor = start;
+      let pages = 0;
+      let hasMore = true;
+      const fetched: any[] = [];
+
+      // `after` pages come back newest-first; the cursor is the newest id seen
+      while (hasMore && pages < maxPages) {
+        const discordResponse = await getDiscord(
+          env,
+          botToken,
+          `/channels/${channelId}/messages?after=${cursor}&limit=${DISCORD_INGEST.PAGE_SIZE}`
+        );
+        if (!discordResponse.ok) {
+          return discordApiError(discordResponse);
+        }
+        const page: any[] = await discordResponse.json();
+        pages++;
+        fetched.push(...page);
+        for (const message of page) cursor = laterSnowflake(cursor, message.id);
+        hasMore = page.length === DISCORD_INGEST.PAGE_SIZE;
+      }
+
+      const matched = fetched.filter((message) => matchesDiscordFilters(message, filters));
+      const seen = await alreadyIngestedMessages(env, agent, matched.map((message) => message.id));
+      const fresh = matched.filter((message) => !seen.has(message.id));
+
+      const messages = parseDiscordMessages(
+        { guild_id: channel.guild_id, channel_id: channelId, messages: fresh.map(formatDiscordMessage) },
+        channelId
+      );
+      const candidates = transcriptToCandidates(messages, "discord");
+      const { batchId, queued, duplicates } = await queueCandidates(env, agent, candidates, {
+        author: body.author ?? "discord",
+        perspective: body.perspective ?? "shared",
+      });
+
+      const accepted: Array<{ candidate_id: string; observation_id: string }> = [];
+      if (mode === "direct") {
+        for (const candidate of queued) {
+          const observationId = await acceptCandidate(env, auditContext(auth, request), candidate);
+          if (observationId) accepted.push({ candidate_id: candidate.id, observation_id: observationId });
+        }
+      }
+
+      // Recorded only once the candidates exist, so a failed run is retried
+      // in full. Messages dropped as too short aren't recorded.
+      const candidateIds = candidates.flatMap((candidate) => candidate.message_ids);
+      const recorded = recordIngestedStatements(env, agent, channelId, candidateIds, batchId);
+      for (let i = 0; i < recorded.length; i += LIMITS.BATCH_MAX) {
+        await env.DB.batch(recorded.slice(i, i + LIMITS.BATCH_MAX));
+      }
+
+      // Hold back fresh messages after the last candidate that may still
+      // become a segment: stop the cursor just before the first of them
+      // (`after` is exclusive)
+      const lastCandidateId = candidateIds.reduce((latest, id) => laterSnowflake(latest, id), "0");
+      const trailing = openTrailingRun(
+        fresh.filter((message) => BigInt(message.id) > BigInt(lastCandidateId)),
+        Date.now()
+      );
+      if (trailing.length > 0) {
+        const heldCursor = (BigInt(trailing[0].id) - 1n).toString();
+        cursor = laterSnowflake(start, heldCursor) === start ? start : heldCursor;
+      }
+
+      if (cursor !== start) {
+        const next: DiscordIngestCursor = { last_message_id: cursor, agent, updated_at: new Date().toISOString() };
+        await env.SOULFILES.put(discordCursorKey(agent, channelId), JSON.stringify(next));
+      }
+
+      return jsonResponse({
+        status: "ok",
+        agent,
+        channel_id: channelId,
+        mode,
+        batch_id: batchId,
+        pages,
+        fetched: fetched.length,
+        matched: matched.length,
+        already_ingested: matched.length - fresh.length,
+        segments: candidates.length,
+        held_back: trailing.length,
+        queued: mode === "queue" ? queued.length : 0,
+        duplicates,
+        accepted: mode === "direct" ? accepted : undefined,
+        cursor: { previous: previous?.last_message_id ?? null, next: cursor },
+        has_more: hasMore,
+      });
+    }
+
+    // --- DEFAULT FALLBACK ---
+    return textResponse("the tether is alive. Dashboard at /dashboard");
+  },
+
+  // --- CRON TRIGGERS ---
+  // NOTIFY.RETRY_CRON only retries notifications; any other cron is maintenance
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === NOTIFY.RETRY_CRON) {
+      ctx.waitUntil(ensureAuxSchema(env).then(() => retryDueDeliveries(env, new Date(controller.scheduledTime))));
+      return;
+    }
+    ctx.waitUntil(
+      runMaintenance(env, { trigger: 'cron', cron: controller.cron, now: new Date(controller.scheduledTime) })
+    );
+  },
+};
+
+// ============================================================
+// DASHBOARD HTML
+// ============================================================
+function getDashboardHTML(env: Env): string {
+  // Get API base URL from request origin (self-referential)
+  const API_BASE = ''; // Empty = same origin
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no">
+  <meta name="apple-mobile-web-app-capable" content="yes">
+  <meta name="apple-mobile-web-app-status-bar-style" content="black-translucent">
+  <meta name="theme-color" content="#0d1117">
+  <title>Tether Mind Dashboard</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
     body {
       font-family: -apple-system, system-ui, sans-serif;
       background: #0d1117;
@@ -2564,6 +9954,22 @@ function getDashboardHTML(env: Env): string {
       grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
       gap: 8px;
     }
+    .history-button {
+      background: none;
+      border: none;
+      padding: 0;
+      color: #58a6ff;
+      font-size: 12px;
+      text-align: left;
+      cursor: pointer;
+    }
+    .history-entry {
+      border-bottom: 1px solid #30363d;
+      padding: 8px 0;
+      font-size: 13px;
+    }
+    .history-entry:last-child { border-bottom: none; }
+    .history-meta { color: #8b949e; font-size: 12px; }
 
     .modal-overlay {
       display: none;
@@ -2763,6 +10169,7 @@ function getDashboardHTML(env: Env): string {
     <div class="controls">
       <button onclick="loadData()">Refresh</button>
       <button onclick="openCreateModal()">+ New</button>
+      <button class="secondary" onclick="changeApiKey()">Key</button>
     </div>
   </div>
 
@@ -2823,6 +10230,16 @@ function getDashboardHTML(env: Env): string {
     </div>
   </div>
 
+  <div id="history-modal" class="modal-overlay">
+    <div class="modal">
+      <h2>History</h2>
+      <div id="history-modal-content"></div>
+      <div class="form-actions">
+        <button type="button" class="secondary" onclick="closeModal('history-modal')">Close</button>
+      </div>
+    </div>
+  </div>
+
   <div id="wake-modal" class="modal-overlay">
     <div class="modal">
       <h2>Wake Data</h2>
@@ -2853,6 +10270,31 @@ function getDashboardHTML(env: Env): string {
       });
     });
 
+    // API key (bearer token), kept in localStorage
+    function getApiKey(forcePrompt) {
+      let key = localStorage.getItem('tether_api_key');
+      if (!key || forcePrompt) {
+        key = prompt('Tether API key') || '';
+        if (key) localStorage.setItem('tether_api_key', key.trim());
+      }
+      return key ? key.trim() : '';
+    }
+
+    function changeApiKey() {
+      if (getApiKey(true)) loadData();
+    }
+
+    // fetch() with the bearer token attached; a 401 clears the stored key
+    async function apiFetch(path, options = {}) {
+      const headers = { ...(options.headers || {}), Authorization: 'Bearer ' + getApiKey(false) };
+      const res = await fetch(API_BASE + path, { ...options, headers });
+      if (res.status === 401) {
+        localStorage.removeItem('tether_api_key');
+        throw new Error('Invalid or missing API key (tap Key to enter one)');
+      }
+      return res;
+    }
+
     // Show toast notification
     function showToast(message, duration = 2000) {
       const toast = document.getElementById('toast');
@@ -2869,273 +10311,607 @@ function getDashboardHTML(env: Env): string {
         return;
       }
 
-      const container = document.getElementById('observations');
-      container.innerHTML = '<div class="loading">Loading...</div>';
-      document.getElementById('error-container').innerHTML = '';
-      document.getElementById('briefing-container').innerHTML = '';
+      const container = document.getElementById('observations');
+      container.innerHTML = '<div class="loading">Loading...</div>';
+      document.getElementById('error-container').innerHTML = '';
+      document.getElementById('briefing-container').innerHTML = '';
+
+      try {
+        const response = await apiFetch('/wake/' + agent + '?hot=true');
+        if (!response.ok) throw new Error('Server returned ' + response.status);
+
+        currentData = await response.json();
+
+        // Load superseded separately
+        try {
+          const supRes = await apiFetch('/observe/superseded/' + agent);
+          if (supRes.ok) {
+            const supData = await supRes.json();
+            currentData.superseded = supData.superseded;
+          }
+        } catch(e) { console.log("Superseded fetch failed", e); }
+
+        document.getElementById('soulfile').textContent = currentData.soulfile || 'No soulfile found';
+
+        renderEmotionChart();
+        renderBriefing();
+        renderObservations();
+
+      } catch (error) {
+        container.innerHTML = '';
+        document.getElementById('error-container').innerHTML = '<div class="error"><strong>Connection Failed</strong><br>' + error.message + '</div>';
+      }
+    }
+
+    // Render narrative briefing
+    function renderBriefing() {
+      const container = document.getElementById('briefing-container');
+      if (!currentData?.narrativeBriefing) {
+        container.innerHTML = '';
+        return;
+      }
+
+      const b = currentData.narrativeBriefing;
+      container.innerHTML = '<div class="briefing"><div class="briefing-title">Status</div><div class="briefing-content">' + (b.narrativeState || 'No recent activity.') + '<br><span style="color:#8b949e">' + (b.emotionalTrajectory?.description || '') + '</span></div></div>';
+    }
+
+    // Render emotion donut chart
+    function renderEmotionChart() {
+      const container = document.getElementById('emotion-chart-container');
+      if (!currentData?.emotions) {
+        container.innerHTML = '';
+        return;
+      }
+
+      const e = currentData.emotions;
+      const total = e.intimacy + e.joy + e.conflict + e.fear;
+      const isEmpty = total === 0;
+
+      const size = 120;
+      const strokeWidth = 20;
+      const radius = (size - strokeWidth) / 2;
+      const circumference = 2 * Math.PI * radius;
+      const cx = size / 2;
+      const cy = size / 2;
+
+      const segments = [
+        { key: 'intimacy', value: e.intimacy, color: '#f778ba' },
+        { key: 'joy', value: e.joy, color: '#7ee787' },
+        { key: 'conflict', value: e.conflict, color: '#f85149' },
+        { key: 'fear', value: e.fear, color: '#a371f7' }
+      ].filter(s => s.value > 0);
+
+      let svg = '<svg class="emotion-donut" viewBox="0 0 ' + size + ' ' + size + '">';
+      svg += '<circle cx="' + cx + '" cy="' + cy + '" r="' + radius + '" fill="none" stroke="#30363d" stroke-width="' + strokeWidth + '"/>';
+
+      if (!isEmpty) {
+        let offset = 0;
+        for (const seg of segments) {
+          const pct = seg.value / 100;
+          const length = circumference * pct;
+          const gap = circumference - length;
+          svg += '<circle cx="' + cx + '" cy="' + cy + '" r="' + radius + '" fill="none" stroke="' + seg.color + '" stroke-width="' + strokeWidth + '" stroke-dasharray="' + length + ' ' + gap + '" stroke-dashoffset="' + (-offset) + '" transform="rotate(-90 ' + cx + ' ' + cy + ')"/>';
+          offset += length;
+        }
+      }
+      svg += '</svg>';
+
+      const legend = [
+        { key: 'intimacy', label: 'Intimacy', value: e.intimacy },
+        { key: 'joy', label: 'Joy', value: e.joy },
+        { key: 'conflict', label: 'Conflict', value: e.conflict },
+        { key: 'fear', label: 'Fear', value: e.fear }
+      ];
+
+      container.innerHTML = '<div class="emotion-chart-container">' + svg + '<div><div class="emotion-chart-title">Emotional Snapshot' + (isEmpty ? ' <span style="color:#484f58;font-weight:normal;">(no data)</span>' : '') + '</div><div class="emotion-legend">' + legend.map(l => '<div class="emotion-legend-item"><div class="emotion-dot ' + l.key + '"></div><span>' + l.label + '</span><span class="emotion-value">' + l.value + '%</span></div>').join('') + '</div></div></div>';
+    }
+
+    // Render observations list
+    function renderObservations() {
+      const container = document.getElementById('observations');
+      let obsList = [];
+
+      if (currentData) {
+        if (currentTab === 'superseded') {
+          obsList = currentData.superseded || [];
+        } else if (currentData._tiers) {
+          obsList = currentData._tiers[currentTab] || [];
+        } else {
+          obsList = currentData[currentTab] || [];
+        }
+      }
+
+      if (!obsList.length) {
+        container.innerHTML = '<div class="loading" style="color:#8b949e">No observations found.</div>';
+        return;
+      }
+
+      container.innerHTML = obsList.map(obs => '<div class="observation"><div class="observation-header"><div><span class="badge kind">' + obs.kind + '</span><span class="badge salience">S: ' + (obs.decayed_salience ?? obs.salience) + '</span></div><span style="font-size:11px; color:#8b949e">' + obs.id.slice(0,8) + '</span></div><div class="observation-content">' + obs.content + '</div><div class="observation-details"><span>Author: ' + obs.author + '</span><span>' + new Date(obs.created_at).toLocaleDateString() + '</span><button type="button" class="history-button" data-history="' + obs.id + '">History</button></div></div>').join('');
+    }
+
+    // Who changed an observation and when, from the audit log
+    document.getElementById('observations').addEventListener('click', (e) => {
+      const id = e.target.dataset && e.target.dataset.history;
+      if (id) showHistory(id);
+    });
+
+    async function showHistory(id) {
+      const agent = document.getElementById('agent-input').value.trim();
+      const content = document.getElementById('history-modal-content');
+      content.innerHTML = '<div class="loading">Loading...</div>';
+      document.getElementById('history-modal').classList.add('active');
+
+      try {
+        const res = await apiFetch('/audit/' + agent + '?target_id=' + encodeURIComponent(id));
+        if (!res.ok) throw new Error('Server returned ' + res.status);
+        const data = await res.json();
+
+        content.innerHTML = '';
+        if (!data.entries.length) {
+          content.textContent = 'No changes recorded.';
+          return;
+        }
+        for (const entry of data.entries) {
+          const row = document.createElement('div');
+          row.className = 'history-entry';
+          const title = document.createElement('div');
+          title.textContent = entry.action + (entry.changed.length ? ' (' + entry.changed.join(', ') + ')' : '');
+          const meta = document.createElement('div');
+          meta.className = 'history-meta';
+          meta.textContent = new Date(entry.created_at).toLocaleString() + ' by ' + entry.actor;
+          row.append(title, meta);
+          content.append(row);
+        }
+      } catch (error) {
+        content.textContent = 'Failed: ' + error.message;
+      }
+    }
+
+    // Store wake data for share function
+    let lastWakeData = '';
+
+    // Show wake in modal for manual copy (mobile fallback)
+    function showWakeModal(text) {
+      lastWakeData = text;
+      document.getElementById('wake-modal-content').textContent = text;
+      if (navigator.share) {
+        document.getElementById('wake-modal-share').style.display = 'block';
+      }
+      document.getElementById('wake-modal').classList.add('active');
+    }
+
+    // Share wake using native share sheet
+    async function shareWake() {
+      if (navigator.share && lastWakeData) {
+        try {
+          await navigator.share({ title: 'Wake Data', text: lastWakeData });
+          closeModal('wake-modal');
+          showToast('Shared!');
+        } catch (e) {
+          if (e.name !== 'AbortError') {
+            showToast('Share cancelled');
+          }
+        }
+      }
+    }
+
+    // Copy wake data for other platforms
+    async function copyWake() {
+      const btn = document.getElementById('copy-wake-btn');
+      const agent = document.getElementById('agent-input').value.trim();
+
+      if (!agent) {
+        showToast('Enter an agent name first');
+        return;
+      }
+
+      btn.textContent = 'Loading...';
+      btn.disabled = true;
 
       try {
-        let url = API_BASE + '/wake/' + agent + '?hot=true';
-
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('Server returned ' + response.status);
+        const response = await apiFetch('/wake/' + agent + '?hot=true&compact=true');
+        if (!response.ok) throw new Error('Fetch failed: ' + response.status);
 
-        currentData = await response.json();
+        const data = await response.json();
+        const text = JSON.stringify(data, null, 2);
 
-        // Load superseded separately
-        try {
-          const supRes = await fetch(API_BASE + '/observe/superseded/' + agent);
-          if (supRes.ok) {
-            const supData = await supRes.json();
-            currentData.superseded = supData.superseded;
-          }
-        } catch(e) { console.log("Superseded fetch failed", e); }
+        let copied = false;
+        if (navigator.clipboard && navigator.clipboard.writeText) {
+          try {
+            await navigator.clipboard.writeText(text);
+            copied = true;
+          } catch (e) {}
+        }
 
-        document.getElementById('soulfile').textContent = currentData.soulfile || 'No soulfile found';
+        if (copied) {
+          btn.textContent = 'Copied!';
+          btn.classList.add('success');
+          showToast('Wake copied to clipboard');
+        } else {
+          showWakeModal(text);
+          btn.textContent = 'Copy Wake';
+          btn.disabled = false;
+          return;
+        }
 
-        renderEmotionChart();
-        renderBriefing();
-        renderObservations();
+        setTimeout(() => {
+          btn.textContent = 'Copy Wake';
+          btn.classList.remove('success');
+          btn.disabled = false;
+        }, 2000);
 
       } catch (error) {
-        container.innerHTML = '';
-        document.getElementById('error-container').innerHTML = '<div class="error"><strong>Connection Failed</strong><br>' + error.message + '</div>';
+        btn.textContent = 'Copy Wake';
+        btn.disabled = false;
+        showToast('Failed: ' + error.message);
       }
     }
 
-    // Render narrative briefing
-    function renderBriefing() {
-      const container = document.getElementById('briefing-container');
-      if (!currentData?.narrativeBriefing) {
-        container.innerHTML = '';
-        return;
-      }
+    // Modal functions
+    function openCreateModal() {
+      document.getElementById('create-modal').classList.add('active');
+    }
 
-      const b = currentData.narrativeBriefing;
-      container.innerHTML = '<div class="briefing"><div class="briefing-title">Status</div><div class="briefing-content">' + (b.narrativeState || 'No recent activity.') + '<br><span style="color:#8b949e">' + (b.emotionalTrajectory?.description || '') + '</span></div></div>';
+    function closeModal(id) {
+      document.getElementById(id).classList.remove('active');
     }
 
-    // Render emotion donut chart
-    function renderEmotionChart() {
-      const container = document.getElementById('emotion-chart-container');
-      if (!currentData?.emotions) {
-        container.innerHTML = '';
+    // Close modals on backdrop click
+    document.querySelectorAll('.modal-overlay').forEach(modal => {
+      modal.addEventListener('click', (e) => {
+        if (e.target.classList.contains('modal-overlay')) {
+          closeModal(e.target.id);
+        }
+      });
+    });
+
+    // Create observation form
+    document.getElementById('create-form').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const agent = document.getElementById('agent-input').value.trim();
+      if (!agent) {
+        showToast('Enter an agent name first');
         return;
       }
 
-      const e = currentData.emotions;
-      const total = e.intimacy + e.joy + e.conflict + e.fear;
-      const isEmpty = total === 0;
+      const body = {
+        agent_id: agent,
+        author: 'human',
+        perspective: 'human',
+        kind: document.getElementById('create-kind').value,
+        content: document.getElementById('create-content').value,
+        salience: parseInt(document.getElementById('create-salience').value)
+      };
 
-      const size = 120;
-      const strokeWidth = 20;
-      const radius = (size - strokeWidth) / 2;
-      const circumference = 2 * Math.PI * radius;
-      const cx = size / 2;
-      const cy = size / 2;
+      try {
+        const res = await apiFetch('/observe', {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json'},
+          body: JSON.stringify(body)
+        });
+        if (!res.ok) throw new Error("Failed to create");
+        closeModal('create-modal');
+        document.getElementById('create-content').value = '';
+        showToast('Observation created');
+        loadData();
+      } catch(e) {
+        showToast('Error: ' + e.message);
+      }
+    });
 
-      const segments = [
-        { key: 'intimacy', value: e.intimacy, color: '#f778ba' },
-        { key: 'joy', value: e.joy, color: '#7ee787' },
-        { key: 'conflict', value: e.conflict, color: '#f85149' },
-        { key: 'fear', value: e.fear, color: '#a371f7' }
-      ].filter(s => s.value > 0);
+    function toggleSoulfile() {
+      const el = document.getElementById('soulfile');
+      el.style.display = el.style.display === 'none' ? 'block' : 'none';
+    }
+
+    // Load on enter key in agent input
+    document.getElementById('agent-input').addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') loadData();
+    });
+  </script>
+
+  <footer class="footer">
+    <a href="https://github.com/OliverandMara/the-tether-mind-by-AIBU" target="_blank">Tether Mind</a> by AIBU
+  </footer>
+</body>
+</html>`;
+}
+
+// ============================================================
+// DISCORD CONNECTOR HTML
+// ============================================================
+function getDiscordHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Discord Connector - Tether Mind</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #1a1a2e;
+      color: #eee;
+      min-height: 100vh;
+      padding: 2rem;
+    }
+    .container { max-width: 800px; margin: 0 auto; }
+    h1 { color: #7289da; margin-bottom: 0.5rem; }
+    .subtitle { color: #888; margin-bottom: 2rem; }
+    .card {
+      background: #16213e;
+      border-radius: 8px;
+      padding: 1.5rem;
+      margin-bottom: 1.5rem;
+      border: 1px solid #0f3460;
+    }
+    .card h2 { color: #7289da; font-size: 1.1rem; margin-bottom: 1rem; }
+    .status { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 1rem; }
+    .status-dot {
+      width: 10px; height: 10px; border-radius: 50%;
+    }
+    .status-dot.ok { background: #43b581; }
+    .status-dot.error { background: #f04747; }
+    label { display: block; color: #888; font-size: 0.85rem; margin-bottom: 0.5rem; }
+    input, textarea {
+      width: 100%;
+      padding: 0.75rem;
+      background: #0f3460;
+      border: 1px solid #1a1a2e;
+      border-radius: 4px;
+      color: #eee;
+      font-family: monospace;
+      font-size: 0.9rem;
+    }
+    input:focus, textarea:focus { outline: none; border-color: #7289da; }
+    textarea { resize: vertical; min-height: 100px; }
+    button {
+      background: #7289da;
+      color: white;
+      border: none;
+      padding: 0.75rem 1.5rem;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.9rem;
+      margin-top: 1rem;
+    }
+    button:hover { background: #5b6eae; }
+    button.danger { background: #f04747; }
+    button.danger:hover { background: #d84040; }
+    .channel-list { margin: 1rem 0; }
+    .channel-item {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 0.5rem 0.75rem;
+      background: #0f3460;
+      border-radius: 4px;
+      margin-bottom: 0.5rem;
+      font-family: monospace;
+    }
+    .channel-item button {
+      margin: 0;
+      padding: 0.25rem 0.5rem;
+      font-size: 0.8rem;
+    }
+    .add-row { display: flex; gap: 0.5rem; margin-top: 1rem; }
+    .add-row input { flex: 1; }
+    .add-row button { margin: 0; }
+    .help { color: #888; font-size: 0.85rem; margin-top: 0.5rem; }
+    .msg { padding: 0.75rem; border-radius: 4px; margin-bottom: 1rem; }
+    .msg.success { background: rgba(67, 181, 129, 0.2); border: 1px solid #43b581; }
+    .msg.error { background: rgba(240, 71, 71, 0.2); border: 1px solid #f04747; }
+    .instructions { background: #0f3460; padding: 1rem; border-radius: 4px; margin-top: 1rem; }
+    .instructions h3 { color: #7289da; font-size: 0.95rem; margin-bottom: 0.5rem; }
+    .instructions ol { padding-left: 1.5rem; }
+    .instructions li { margin-bottom: 0.5rem; color: #aaa; }
+    .instructions code { background: #1a1a2e; padding: 0.1rem 0.3rem; border-radius: 3px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>Discord Connector</h1>
+    <p class="subtitle">Tether Mind - Manual Read/Write Bridge</p>
+
+    <div class="card">
+      <h2>Bot Status</h2>
+      <div class="status">
+        <div class="status-dot error" id="tokenDot"></div>
+        <span id="tokenStatus">Checking bot token...</span>
+      </div>
+      <div class="instructions" id="setupInstructions" style="display:none;">
+        <h3>Setup Instructions</h3>
+        <ol>
+          <li>Go to <a href="https://discord.com/developers/applications" target="_blank" style="color:#7289da">Discord Developer Portal</a></li>
+          <li>Create a new application named "Elias and Oliver" (or your preference)</li>
+          <li>Go to Bot → Add Bot</li>
+          <li>Enable <strong>Message Content Intent</strong> under Privileged Gateway Intents</li>
+          <li>Copy the bot token</li>
+          <li>Run in terminal: <code>npx wrangler secret put DISCORD_BOT_TOKEN</code></li>
+          <li>Paste your token when prompted</li>
+          <li>Go to OAuth2 → URL Generator, select <code>bot</code> scope</li>
+          <li>Select permissions: Read Message History, Send Messages</li>
+          <li>Use the generated URL to invite the bot to your server</li>
+        </ol>
+      </div>
+    </div>
+
+    <div class="card">
+      <h2>Allowed Channels</h2>
+      <p class="help">Only these channels can be read from or written to. Leave empty to allow all channels the bot has access to.</p>
 
-      let svg = '<svg class="emotion-donut" viewBox="0 0 ' + size + ' ' + size + '">';
-      svg += '<circle cx="' + cx + '" cy="' + cy + '" r="' + radius + '" fill="none" stroke="#30363d" stroke-width="' + strokeWidth + '"/>';
+      <div id="message"></div>
 
-      if (!isEmpty) {
-        let offset = 0;
-        for (const seg of segments) {
-          const pct = seg.value / 100;
-          const length = circumference * pct;
-          const gap = circumference - length;
-          svg += '<circle cx="' + cx + '" cy="' + cy + '" r="' + radius + '" fill="none" stroke="' + seg.color + '" stroke-width="' + strokeWidth + '" stroke-dasharray="' + length + ' ' + gap + '" stroke-dashoffset="' + (-offset) + '" transform="rotate(-90 ' + cx + ' ' + cy + ')"/>';
-          offset += length;
-        }
-      }
-      svg += '</svg>';
+      <div class="channel-list" id="channelList"></div>
 
-      const legend = [
-        { key: 'intimacy', label: 'Intimacy', value: e.intimacy },
-        { key: 'joy', label: 'Joy', value: e.joy },
-        { key: 'conflict', label: 'Conflict', value: e.conflict },
-        { key: 'fear', label: 'Fear', value: e.fear }
-      ];
+      <div class="add-row">
+        <input type="text" id="newChannel" placeholder="Channel ID (e.g., 1234567890123456789)">
+        <button onclick="addChannel()">Add Channel</button>
+      </div>
 
-      container.innerHTML = '<div class="emotion-chart-container">' + svg + '<div><div class="emotion-chart-title">Emotional Snapshot' + (isEmpty ? ' <span style="color:#484f58;font-weight:normal;">(no data)</span>' : '') + '</div><div class="emotion-legend">' + legend.map(l => '<div class="emotion-legend-item"><div class="emotion-dot ' + l.key + '"></div><span>' + l.label + '</span><span class="emotion-value">' + l.value + '%</span></div>').join('') + '</div></div></div>';
-    }
+      <p class="help">To get a channel ID: Enable Developer Mode in Discord settings, then right-click a channel → Copy ID</p>
+    </div>
 
-    // Render observations list
-    function renderObservations() {
-      const container = document.getElementById('observations');
-      let obsList = [];
+    <div class="card">
+      <h2>Quick Test</h2>
+      <label for="testChannel">Channel ID</label>
+      <input type="text" id="testChannel" placeholder="Enter channel ID to test">
+      <div style="display:flex;gap:0.5rem;margin-top:1rem;">
+        <button onclick="testRead()">Read Messages</button>
+        <button onclick="testWrite()">Send Test Message</button>
+      </div>
+      <pre id="testResult" style="margin-top:1rem;background:#0f3460;padding:1rem;border-radius:4px;overflow:auto;max-height:300px;display:none;"></pre>
+    </div>
+  </div>
 
-      if (currentData) {
-        if (currentTab === 'superseded') {
-          obsList = currentData.superseded || [];
-        } else if (currentData._tiers) {
-          obsList = currentData._tiers[currentTab] || [];
-        } else {
-          obsList = currentData[currentTab] || [];
-        }
+  <script>
+    let channels = [];
+
+    // API key (bearer token), kept in localStorage and shared with /dashboard
+    function getApiKey(forcePrompt) {
+      let key = localStorage.getItem('tether_api_key');
+      if (!key || forcePrompt) {
+        key = prompt('Tether API key') || '';
+        if (key) localStorage.setItem('tether_api_key', key.trim());
       }
+      return key ? key.trim() : '';
+    }
 
-      if (!obsList.length) {
-        container.innerHTML = '<div class="loading" style="color:#8b949e">No observations found.</div>';
-        return;
+    async function apiFetch(path, options = {}) {
+      const headers = { ...(options.headers || {}), Authorization: 'Bearer ' + getApiKey(false) };
+      const res = await fetch(path, { ...options, headers });
+      if (res.status === 401) {
+        localStorage.removeItem('tether_api_key');
+        throw new Error('Invalid or missing API key');
       }
-
-      container.innerHTML = obsList.map(obs => '<div class="observation"><div class="observation-header"><div><span class="badge kind">' + obs.kind + '</span><span class="badge salience">S: ' + (obs.decayed_salience ?? obs.salience) + '</span></div><span style="font-size:11px; color:#8b949e">' + obs.id.slice(0,8) + '</span></div><div class="observation-content">' + obs.content + '</div><div class="observation-details"><span>Author: ' + obs.author + '</span><span>' + new Date(obs.created_at).toLocaleDateString() + '</span></div></div>').join('');
+      return res;
     }
 
-    // Store wake data for share function
-    let lastWakeData = '';
+    function showMessage(text, isError) {
+      const el = document.getElementById('message');
+      el.className = 'msg ' + (isError ? 'error' : 'success');
+      el.textContent = text;
+      el.style.display = 'block';
+      setTimeout(() => el.style.display = 'none', 3000);
+    }
 
-    // Show wake in modal for manual copy (mobile fallback)
-    function showWakeModal(text) {
-      lastWakeData = text;
-      document.getElementById('wake-modal-content').textContent = text;
-      if (navigator.share) {
-        document.getElementById('wake-modal-share').style.display = 'block';
+    function renderChannels() {
+      const list = document.getElementById('channelList');
+      if (channels.length === 0) {
+        list.innerHTML = '<p style="color:#888;font-style:italic;">No channels configured (all accessible channels allowed)</p>';
+      } else {
+        list.innerHTML = channels.map(id => \`
+          <div class="channel-item" data-id="\${id}">
+            <span>\${id}</span>
+            <button class="danger" onclick="removeChannel('\${id}')">Remove</button>
+          </div>
+        \`).join('');
       }
-      document.getElementById('wake-modal').classList.add('active');
     }
 
-    // Share wake using native share sheet
-    async function shareWake() {
-      if (navigator.share && lastWakeData) {
-        try {
-          await navigator.share({ title: 'Wake Data', text: lastWakeData });
-          closeModal('wake-modal');
-          showToast('Shared!');
-        } catch (e) {
-          if (e.name !== 'AbortError') {
-            showToast('Share cancelled');
-          }
-        }
+    async function saveChannels() {
+      try {
+        const res = await apiFetch('/discord/channels', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ channels })
+        });
+        if (!res.ok) throw new Error('Failed to save');
+        showMessage('Channels saved successfully', false);
+      } catch (e) {
+        showMessage('Failed to save channels: ' + e.message, true);
       }
     }
 
-    // Copy wake data for other platforms
-    async function copyWake() {
-      const btn = document.getElementById('copy-wake-btn');
-      const agent = document.getElementById('agent-input').value.trim();
-
-      if (!agent) {
-        showToast('Enter an agent name first');
+    function addChannel() {
+      const input = document.getElementById('newChannel');
+      const id = input.value.trim();
+      if (!id) return;
+      if (!/^\\d+$/.test(id)) {
+        showMessage('Channel ID must be a number', true);
         return;
       }
-
-      btn.textContent = 'Loading...';
-      btn.disabled = true;
-
-      try {
-        const url = API_BASE + '/wake/' + agent + '?hot=true&compact=true';
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('Fetch failed: ' + response.status);
-
-        const data = await response.json();
-        const text = JSON.stringify(data, null, 2);
-
-        let copied = false;
-        if (navigator.clipboard && navigator.clipboard.writeText) {
-          try {
-            await navigator.clipboard.writeText(text);
-            copied = true;
-          } catch (e) {}
-        }
-
-        if (copied) {
-          btn.textContent = 'Copied!';
-          btn.classList.add('success');
-          showToast('Wake copied to clipboard');
-        } else {
-          showWakeModal(text);
-          btn.textContent = 'Copy Wake';
-          btn.disabled = false;
-          return;
-        }
-
-        setTimeout(() => {
-          btn.textContent = 'Copy Wake';
-          btn.classList.remove('success');
-          btn.disabled = false;
-        }, 2000);
-
-      } catch (error) {
-        btn.textContent = 'Copy Wake';
-        btn.disabled = false;
-        showToast('Failed: ' + error.message);
+      if (channels.includes(id)) {
+        showMessage('Channel already in list', true);
+        return;
       }
+      channels.push(id);
+      input.value = '';
+      renderChannels();
+      saveChannels();
     }
 
-    // Modal functions
-    function openCreateModal() {
-      document.getElementById('create-modal').classList.add('active');
+    function removeChannel(id) {
+      channels = channels.filter(c => c !== id);
+      renderChannels();
+      saveChannels();
     }
 
-    function closeModal(id) {
-      document.getElementById(id).classList.remove('active');
+    async function testRead() {
+      const channelId = document.getElementById('testChannel').value.trim();
+      if (!channelId) {
+        showMessage('Enter a channel ID first', true);
+        return;
+      }
+      const result = document.getElementById('testResult');
+      result.style.display = 'block';
+      result.textContent = 'Loading...';
+      try {
+        const res = await apiFetch('/discord/read/' + channelId + '?limit=5');
+        const data = await res.json();
+        result.textContent = JSON.stringify(data, null, 2);
+      } catch (e) {
+        result.textContent = 'Error: ' + e.message;
+      }
     }
 
-    // Close modals on backdrop click
-    document.querySelectorAll('.modal-overlay').forEach(modal => {
-      modal.addEventListener('click', (e) => {
-        if (e.target.classList.contains('modal-overlay')) {
-          closeModal(e.target.id);
-        }
-      });
-    });
-
-    // Create observation form
-    document.getElementById('create-form').addEventListener('submit', async (e) => {
-      e.preventDefault();
-      const agent = document.getElementById('agent-input').value.trim();
-      if (!agent) {
-        showToast('Enter an agent name first');
+    async function testWrite() {
+      const channelId = document.getElementById('testChannel').value.trim();
+      if (!channelId) {
+        showMessage('Enter a channel ID first', true);
         return;
       }
-
-      const body = {
-        agent_id: agent,
-        author: 'human',
-        perspective: 'human',
-        kind: document.getElementById('create-kind').value,
-        content: document.getElementById('create-content').value,
-        salience: parseInt(document.getElementById('create-salience').value)
-      };
-
+      const result = document.getElementById('testResult');
+      result.style.display = 'block';
+      result.textContent = 'Sending...';
       try {
-        const res = await fetch(API_BASE + '/observe', {
+        const res = await apiFetch('/discord/write/' + channelId, {
           method: 'POST',
-          headers: {'Content-Type': 'application/json'},
-          body: JSON.stringify(body)
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: '🔗 Tether Mind connection test - ' + new Date().toISOString() })
         });
-        if (!res.ok) throw new Error("Failed to create");
-        closeModal('create-modal');
-        document.getElementById('create-content').value = '';
-        showToast('Observation created');
-        loadData();
-      } catch(e) {
-        showToast('Error: ' + e.message);
+        const data = await res.json();
+        result.textContent = JSON.stringify(data, null, 2);
+      } catch (e) {
+        result.textContent = 'Error: ' + e.message;
       }
-    });
+    }
 
-    function toggleSoulfile() {
-      const el = document.getElementById('soulfile');
-      el.style.display = el.style.display === 'none' ? 'block' : 'none';
+    async function loadConfig() {
+      try {
+        const [channelsRes, tokenRes] = await Promise.all([
+          apiFetch('/discord/channels'),
+          apiFetch('/discord/token'),
+        ]);
+        if (!channelsRes.ok || !tokenRes.ok) throw new Error('Server returned ' + (channelsRes.ok ? tokenRes.status : channelsRes.status));
+        channels = (await channelsRes.json()).allowed_channels || [];
+        const configured = (await tokenRes.json()).configured;
+        document.getElementById('tokenDot').className = 'status-dot ' + (configured ? 'ok' : 'error');
+        document.getElementById('tokenStatus').textContent = configured ? 'Bot token configured' : 'Bot token not configured';
+        document.getElementById('setupInstructions').style.display = configured ? 'none' : 'block';
+        renderChannels();
+      } catch (e) {
+        document.getElementById('tokenStatus').textContent = 'Could not load config: ' + e.message;
+      }
     }
 
-    // Load on enter key in agent input
-    document.getElementById('agent-input').addEventListener('keypress', (e) => {
-      if (e.key === 'Enter') loadData();
+    document.getElementById('newChannel').addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') addChannel();
     });
-  </script>
 
-  <footer class="footer">
-    <a href="https://github.com/OliverandMara/the-tether-mind-by-AIBU" target="_blank">Tether Mind</a> by AIBU
-  </footer>
+    loadConfig();
+  </script>
 </body>
 </html>`;
 }
@@ -0,0 +1,48 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+const AGENT = 'mara lee';
+const ENCODED = encodeURIComponent(AGENT);
+
+let worker;
+let key;
+
+before(async () => {
+  worker = await startWorker();
+  await createObservation(worker.request, { agent_id: AGENT, content: 'Repotted the fig tree' });
+  const kv = await worker.mf.getKVNamespace('SOULFILES');
+  await kv.put(`${AGENT}:active`, '## Voice\nPlainspoken.\n');
+  const minted = await worker.request('POST', '/auth/keys', { agent: AGENT, scope: 'admin' });
+  key = minted.data.key;
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+async function asAgent(path) {
+  const res = await worker.mf.dispatchFetch(`http://localhost${path}`, { headers: { Authorization: `Bearer ${key}` } });
+  return { status: res.status, text: await res.text() };
+}
+
+describe(':agent path segments', () => {
+  test('an encoded agent name is authorized and looked up the same on every route', async () => {
+    for (const path of [
+      `/soulfile/${ENCODED}`,
+      `/export/${ENCODED}`,
+      `/observe/search/${ENCODED}?q=fig`,
+      `/tracker/yesterday/${ENCODED}`,
+      `/tracker/week/${ENCODED}`,
+      `/tracker/range/${ENCODED}`,
+      `/ingest/queue/${ENCODED}`,
+    ]) {
+      const res = await asAgent(path);
+      assert.ok(res.status !== 403, `${path} refused: ${res.text}`);
+    }
+
+    assert.match((await asAgent(`/soulfile/${ENCODED}`)).text, /Plainspoken/);
+    assert.match((await asAgent(`/export/${ENCODED}`)).text, /Repotted the fig tree/);
+    assert.match((await asAgent(`/observe/search/${ENCODED}?q=fig`)).text, /Repotted the fig tree/);
+  });
+});
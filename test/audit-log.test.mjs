@@ -0,0 +1,110 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+async function auditRows(targetId) {
+  const rows = await worker.db
+    .prepare(`SELECT * FROM audit_log WHERE target_id = ? ORDER BY created_at, rowid`)
+    .bind(targetId)
+    .all();
+  return rows.results.map((row) => ({
+    ...row,
+    before: row.snapshot_before === null ? null : JSON.parse(row.snapshot_before),
+    after: row.snapshot_after === null ? null : JSON.parse(row.snapshot_after),
+  }));
+}
+
+describe('audit log', () => {
+  test('a create and a pin are logged with the row as written', async () => {
+    const id = await createObservation(worker.request, { content: 'The kiln is fixed' });
+    const pinned = await worker.request('POST', `/observe/${id}/pin`);
+    assert.equal(pinned.status, 200, JSON.stringify(pinned.data));
+
+    const [create, pin] = await auditRows(id);
+    assert.equal(create.action, 'create');
+    assert.equal(create.route, 'POST /observe');
+    assert.equal(create.before, null);
+    assert.equal(create.after.content, 'The kiln is fixed');
+    assert.equal(pin.action, 'pin');
+    assert.equal(pin.before.pinned, 0);
+    assert.equal(pin.after.pinned, 1);
+  });
+
+  test('a refused change leaves no audit row', async () => {
+    const id = await createObservation(worker.request);
+    assert.equal((await worker.request('DELETE', `/observe/${id}`)).status, 200);
+    assert.equal((await worker.request('POST', `/observe/${id}/pin`)).status, 409);
+
+    assert.deepEqual((await auditRows(id)).map((row) => row.action), ['create', 'delete']);
+  });
+
+  test('accepting an ingest candidate is logged', async () => {
+    const queued = await worker.request('POST', '/ingest/transcript/oliver', {
+      format: 'plain',
+      content: 'Mara: We moved the studio to the garden shed this week, and the light is much better there.',
+    });
+    assert.equal(queued.status, 200, JSON.stringify(queued.data));
+    const candidates = await worker.request('GET', '/ingest/queue/oliver');
+    const [candidate] = candidates.data.candidates;
+
+    const accepted = await worker.request('POST', `/ingest/candidates/${candidate.id}/accept`, {});
+    assert.equal(accepted.status, 200, JSON.stringify(accepted.data));
+
+    const [entry] = await auditRows(accepted.data.observation_id);
+    assert.equal(entry.action, 'accept');
+    assert.equal(entry.route, `POST /ingest/candidates/${candidate.id}/accept`);
+    assert.equal(entry.after.content, candidate.content);
+  });
+
+  test('an import that overwrites an observation logs the replaced row', async () => {
+    const id = await createObservation(worker.request, { agent_id: 'june', content: 'Archived wording' });
+    const archive = await worker.request('GET', '/export/june');
+    assert.equal(archive.status, 200);
+    await worker.request('PATCH', `/observe/${id}`, { content: 'Edited wording' });
+
+    const imported = await worker.request('POST', '/import/june?conflict=overwrite', archive.data);
+    assert.equal(imported.status, 200, JSON.stringify(imported.data));
+    assert.equal(imported.data.observations.overwritten, 1);
+
+    const entry = (await auditRows(id)).at(-1);
+    assert.equal(entry.action, 'import');
+    assert.equal(entry.before.content, 'Edited wording');
+    assert.equal(entry.after.content, 'Archived wording');
+  });
+
+  test('an import that creates observations, links and settings logs each of them', async () => {
+    const a = await createObservation(worker.request, { agent_id: 'rowan', content: 'Started the allotment' });
+    const b = await createObservation(worker.request, { agent_id: 'rowan', content: 'Planted garlic' });
+    const linked = await worker.request('POST', `/observe/${a}/edges`, { target_id: b, type: 'elaborates' });
+    assert.equal(linked.status, 201, JSON.stringify(linked.data));
+    const kv = await worker.mf.getKVNamespace('SOULFILES');
+    await kv.put('rowan:drift_rules', JSON.stringify([]));
+    const archive = await worker.request('GET', '/export/rowan');
+
+    const imported = await worker.request('POST', '/import/ash', archive.data);
+    assert.equal(imported.status, 200, JSON.stringify(imported.data));
+
+    const rows = await worker.db
+      .prepare(`SELECT * FROM audit_log WHERE agent = 'ash' AND action = 'import' ORDER BY target_type, target_id`)
+      .all();
+    const byType = (type) => rows.results.filter((row) => row.target_type === type);
+    assert.deepEqual(
+      byType('observation').map((row) => row.target_id).sort(),
+      [imported.data.id_map[a], imported.data.id_map[b]].sort()
+    );
+    assert.ok(byType('observation').every((row) => row.snapshot_before === null));
+    const [edge] = byType('edge');
+    assert.equal(JSON.parse(edge.snapshot_after).source_id, imported.data.id_map[a]);
+    assert.deepEqual(byType('setting').map((row) => row.target_id), ['ash:drift_rules']);
+  });
+});
@@ -0,0 +1,117 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers.mjs';
+
+const DISCORD_API_BASE = 'https://discord.test/api';
+const BOT_TOKEN = 'x'.repeat(60);
+
+// Stand-in Discord API: every outbound fetch from the worker lands here
+const calls = [];
+let respond = () => Response.json({ id: '1' });
+
+let worker;
+
+before(async () => {
+  worker = await startWorker({
+    bindings: { DISCORD_API_BASE, DISCORD_BOT_TOKEN: BOT_TOKEN },
+    outboundService: async (request) => {
+      const call = { at: Date.now(), method: request.method, url: request.url, body: await request.text() };
+      calls.push(call);
+      return respond(call, calls.length);
+    },
+  });
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+beforeEach(() => {
+  calls.length = 0;
+  respond = () => Response.json({ id: String(calls.length) });
+});
+
+const sentContent = () => calls.map((call) => JSON.parse(call.body).content);
+
+describe('message splitting', () => {
+  test('a code block on one line longer than a part is split and reopened', async () => {
+    const content = '```' + 'a'.repeat(3000) + '```';
+    const res = await worker.request('POST', '/discord/write/100', { content });
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+
+    const parts = sentContent();
+    assert.equal(parts.length, 2);
+    for (const part of parts) assert.ok(part.length <= 2000, `part of ${part.length} characters`);
+    assert.ok(parts[0].endsWith('\n```'));
+    assert.ok(parts[1].startsWith('```\n'));
+    assert.equal(parts[0].slice(0, -4) + parts[1].slice(4), content);
+  });
+
+  test('the reopened fence keeps only the language', async () => {
+    const content = '```python ' + 'b'.repeat(2500) + '\n```';
+    const res = await worker.request('POST', '/discord/write/101', { content });
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+
+    const [, second] = sentContent();
+    assert.ok(second.startsWith('```python\n'));
+  });
+
+  test('content too long for the part limit is refused before sending', async () => {
+    const res = await worker.request('POST', '/discord/write/102', { content: 'c '.repeat(12000) });
+    assert.equal(res.status, 400);
+    assert.equal(calls.length, 0);
+  });
+});
+
+describe('discordRequest', () => {
+  test('a 429 waits out Retry-After and tries again', async () => {
+    respond = (call, n) =>
+      n === 1
+        ? Response.json({ retry_after: 0.2 }, { status: 429, headers: { 'Retry-After': '0.2' } })
+        : Response.json({ id: '9' });
+
+    const res = await worker.request('POST', '/discord/write/200', { content: 'hello' });
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    assert.equal(calls.length, 2);
+    assert.ok(calls[1].at - calls[0].at >= 180, `retried after ${calls[1].at - calls[0].at}ms`);
+  });
+
+  test('an exhausted bucket is waited out before the next call', async () => {
+    respond = () =>
+      Response.json(
+        { id: '1' },
+        {
+          headers: {
+            'X-RateLimit-Bucket': 'channel-300',
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset-After': '0.3',
+          },
+        }
+      );
+
+    assert.equal((await worker.request('POST', '/discord/write/300', { content: 'one' })).status, 200);
+    assert.equal((await worker.request('POST', '/discord/write/300', { content: 'two' })).status, 200);
+    assert.equal(calls.length, 2);
+    assert.ok(calls[1].at - calls[0].at >= 250, `second call after ${calls[1].at - calls[0].at}ms`);
+  });
+
+  test('a POST that fails with a 5xx is not retried', async () => {
+    respond = () => new Response('upstream down', { status: 503 });
+
+    const res = await worker.request('POST', '/discord/write/400', { content: 'maybe sent' });
+    assert.notEqual(res.status, 200);
+    assert.equal(calls.length, 1);
+  });
+
+  test('a GET that fails with a 5xx is retried', async () => {
+    respond = (call, n) => {
+      if (n === 1) return new Response('upstream down', { status: 503 });
+      if (call.url.endsWith('/channels/500')) return Response.json({ id: '500', type: 0 });
+      return Response.json([]);
+    };
+
+    const res = await worker.request('GET', '/discord/read/500');
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    assert.equal(calls[0].url, calls[1].url);
+  });
+});
@@ -0,0 +1,71 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers.mjs';
+
+const CHANNEL = '5000';
+const MINUTE = 60000;
+
+// Stand-in Discord API serving `messages` (oldest first) for CHANNEL
+let messages = [];
+
+let worker;
+
+before(async () => {
+  worker = await startWorker({
+    bindings: { DISCORD_API_BASE: 'https://discord.test/api', DISCORD_BOT_TOKEN: 'x'.repeat(60) },
+    outboundService: async (request) => {
+      const url = new URL(request.url);
+      if (url.pathname.endsWith(`/channels/${CHANNEL}`)) {
+        return Response.json({ id: CHANNEL, guild_id: '1', type: 0 });
+      }
+      const after = BigInt(url.searchParams.get('after') ?? '0');
+      const limit = Number(url.searchParams.get('limit') ?? 100);
+      const page = messages.filter((message) => BigInt(message.id) > after).slice(0, limit);
+      return Response.json(page.reverse());
+    },
+  });
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+// Each test uses later message ids, so the saved cursor carries over
+beforeEach(() => {
+  messages = [];
+});
+
+function message(id, minutesAgo, content) {
+  return {
+    id: String(id),
+    content,
+    timestamp: new Date(Date.now() - minutesAgo * MINUTE).toISOString(),
+    author: { id: '42', username: 'mara' },
+  };
+}
+
+const ingest = () => worker.request('POST', `/discord/ingest/${CHANNEL}`, { agent: 'oliver' });
+
+describe('discord ingest cursor', () => {
+  test('a short message in a conversation still going on is held back', async () => {
+    messages = [
+      message(101, 300, 'We finally fixed the greenhouse door and the hinges are solid now.'),
+      message(102, 5, 'ok'),
+    ];
+    const res = await ingest();
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    assert.equal(res.data.held_back, 1);
+    assert.equal(res.data.cursor.next, '101');
+  });
+
+  test('an old short message after the last segment does not pin the cursor', async () => {
+    messages = [
+      message(201, 300, 'We finally fixed the greenhouse door and the hinges are solid now.'),
+      message(202, 240, 'ok'),
+    ];
+    const res = await ingest();
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    assert.equal(res.data.held_back, 0);
+    assert.equal(res.data.cursor.next, '202');
+  });
+});
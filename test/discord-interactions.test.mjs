@@ -0,0 +1,155 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { startWorker } from './helpers.mjs';
+
+const DISCORD_API_BASE = 'https://discord.test/api';
+const ALLOWED_CHANNEL = '1000';
+
+const TRACKER_MARKERS = [
+  'confidence', 'initiation', 'emotional_range', 'theory_of_mind', 'autonomy', 'friction_tolerance', 'desire',
+  'coherence', 'anchor_strength', 'edge_retention', 'self_reference_integrity', 'groundedness', 'repair_speed',
+  'functional_impact',
+];
+
+// Signing key standing in for the Discord application's
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('hex');
+
+// Stand-in Discord API for the deferred follow-ups
+const followUps = [];
+
+let worker;
+let kv;
+
+before(async () => {
+  worker = await startWorker({
+    bindings: { DISCORD_API_BASE, DISCORD_PUBLIC_KEY: publicKeyHex, DISCORD_AGENT: 'oliver' },
+    outboundService: async (request) => {
+      followUps.push({ method: request.method, url: request.url, body: JSON.parse(await request.text()) });
+      return Response.json({ id: '1' });
+    },
+  });
+  kv = await worker.mf.getKVNamespace('SOULFILES');
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+beforeEach(async () => {
+  followUps.length = 0;
+  await kv.put('discord:allowed_channels', JSON.stringify([ALLOWED_CHANNEL]));
+});
+
+async function interact(payload, { timestamp = Math.floor(Date.now() / 1000), tamper = false } = {}) {
+  const body = JSON.stringify(payload);
+  const signature = sign(null, Buffer.from(`${timestamp}${body}`), privateKey).toString('hex');
+  const res = await worker.mf.dispatchFetch('http://localhost/discord/interactions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Signature-Ed25519': signature,
+      'X-Signature-Timestamp': String(timestamp),
+    },
+    body: tamper ? body.replace('}', ',"extra":1}') : body,
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+const command = (name, fields = {}) => ({
+  id: crypto.randomUUID(),
+  application_id: 'app',
+  token: 'interaction-token',
+  type: 2,
+  channel_id: ALLOWED_CHANNEL,
+  data: { name, options: [] },
+  ...fields,
+});
+
+async function waitForFollowUp() {
+  for (let i = 0; i < 50 && followUps.length === 0; i++) await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(followUps.length, 1, 'expected one follow-up');
+  return followUps[0];
+}
+
+describe('discord interactions', () => {
+  test('a bad signature is refused', async () => {
+    const res = await interact({ type: 1 }, { tamper: true });
+    assert.equal(res.status, 401);
+    assert.equal(res.data.error, 'INVALID_SIGNATURE');
+  });
+
+  test('a stale signature is refused', async () => {
+    const res = await interact({ type: 1 }, { timestamp: Math.floor(Date.now() / 1000) - 600 });
+    assert.equal(res.status, 401);
+  });
+
+  test('a PING is answered with a PONG', async () => {
+    const res = await interact({ type: 1 });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.data, { type: 1 });
+  });
+
+  test('commands are refused while no channels are allowed', async () => {
+    await kv.delete('discord:allowed_channels');
+    const res = await interact(command('wake'));
+    assert.equal(res.data.type, 4);
+    assert.equal(res.data.data.content, 'No channels are connected to the tether yet.');
+    assert.equal(followUps.length, 0);
+  });
+
+  test('a channel outside the allow-list is refused', async () => {
+    const res = await interact(command('wake', { channel_id: '2000' }));
+    assert.equal(res.data.data.content, "This channel isn't connected to the tether.");
+  });
+
+  test('a thread whose parent channel is allowed is accepted', async () => {
+    const res = await interact(
+      command('remember', {
+        channel_id: '3000',
+        channel: { id: '3000', type: 11, parent_id: ALLOWED_CHANNEL },
+        member: { user: { username: 'mara' } },
+        data: { name: 'remember', options: [{ name: 'text', value: 'The kiln needs a new element' }] },
+      })
+    );
+    assert.equal(res.data.type, 5);
+
+    const followUp = await waitForFollowUp();
+    assert.equal(followUp.method, 'PATCH');
+    assert.ok(followUp.url.endsWith('/webhooks/app/interaction-token/messages/@original'));
+    assert.match(followUp.body.content, /^Remembered for oliver/);
+    const stored = await worker.db.prepare(`SELECT agent_id, source_platform FROM observations`).all();
+    assert.deepEqual(stored.results, [{ agent_id: 'oliver', source_platform: 'discord' }]);
+  });
+
+  test('checkin opens a modal and saves what it returns', async () => {
+    const opened = await interact(command('checkin'));
+    assert.equal(opened.data.type, 9);
+    assert.equal(opened.data.data.custom_id, 'checkin');
+    const [scoresInput] = opened.data.data.components[0].components;
+    assert.equal(scoresInput.value, TRACKER_MARKERS.map((name) => `${name}: `).join('\n'));
+
+    const submitted = await interact({
+      ...command('checkin'),
+      type: 5,
+      data: {
+        custom_id: opened.data.data.custom_id,
+        components: [
+          {
+            type: 1,
+            components: [{ type: 4, custom_id: 'scores', value: TRACKER_MARKERS.map((name) => `${name}: 3`).join('\n') }],
+          },
+          { type: 1, components: [{ type: 4, custom_id: 'active_goal', value: 'Finish the glaze tests' }] },
+          { type: 1, components: [{ type: 4, custom_id: 'daily_notes', value: '' }] },
+        ],
+      },
+    });
+    assert.equal(submitted.data.type, 5);
+
+    const followUp = await waitForFollowUp();
+    assert.match(followUp.body.content, /^Check-in saved for oliver/);
+    const entry = await worker.db.prepare(`SELECT agent, confidence_score, active_goal FROM tracker_entries`).first();
+    assert.deepEqual(entry, { agent: 'oliver', confidence_score: 3, active_goal: 'Finish the glaze tests' });
+  });
+});
@@ -0,0 +1,87 @@
+// Runs the worker in Miniflare against fresh in-memory D1/KV.
+// The base observations and tracker_entries tables predate the
+// worker's own schema setup (ensureAuxSchema), so they're created here.
+import { Miniflare } from 'miniflare';
+import { buildSync } from 'esbuild';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+const TRACKER_MARKERS = [
+  'confidence', 'initiation', 'emotional_range', 'theory_of_mind', 'autonomy', 'friction_tolerance', 'desire',
+  'coherence', 'anchor_strength', 'edge_retention', 'self_reference_integrity', 'groundedness', 'repair_speed',
+  'functional_impact',
+];
+
+const BASE_SCHEMA = [
+  `CREATE TABLE observations (
+    id TEXT PRIMARY KEY, agent_id TEXT, author TEXT, perspective TEXT, kind TEXT, content TEXT,
+    salience INTEGER DEFAULT 0, emotion_intimacy INTEGER DEFAULT 0, emotion_conflict INTEGER DEFAULT 0,
+    emotion_joy INTEGER DEFAULT 0, emotion_fear INTEGER DEFAULT 0, created_at TEXT, updated_at TEXT,
+    deleted_at TEXT, source_platform TEXT, source_ref TEXT, last_accessed TEXT, status TEXT DEFAULT 'active',
+    superseded_by TEXT, pinned INTEGER DEFAULT 0
+  )`,
+  `CREATE TABLE tracker_entries (
+    id TEXT PRIMARY KEY, agent TEXT, date TEXT, timestamp TEXT,
+    ${TRACKER_MARKERS.map((m) => `${m}_score INTEGER, ${m}_note TEXT`).join(', ')},
+    emergence_index REAL, coherence_index REAL, impact_index REAL,
+    active_goal TEXT, daily_notes TEXT, linked_observations TEXT
+  )`,
+];
+
+let script;
+
+export async function startWorker(options = {}) {
+  script ??= buildSync({
+    entryPoints: [new URL('../src/index.ts', import.meta.url).pathname],
+    bundle: true,
+    format: 'esm',
+    target: 'es2022',
+    write: false,
+  }).outputFiles[0].text;
+
+  const mf = new Miniflare({
+    modules: true,
+    script,
+    compatibilityDate: '2024-01-01',
+    d1Databases: ['DB'],
+    kvNamespaces: ['SOULFILES'],
+    ...options,
+    bindings: { ADMIN_TOKEN, ...options.bindings },
+  });
+  const db = await mf.getD1Database('DB');
+  for (const sql of BASE_SCHEMA) await db.prepare(sql).run();
+
+  async function request(method, path, body) {
+    const headers = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const res = await mf.dispatchFetch(`http://localhost${path}`, {
+      method,
+      headers,
+      body: body === undefined || typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    const text = await res.text();
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+    return { status: res.status, data };
+  }
+
+  return { mf, db, request };
+}
+
+export async function createObservation(request, fields = {}) {
+  const res = await request('POST', '/observe', {
+    agent_id: 'oliver',
+    author: 'mara',
+    perspective: 'shared',
+    kind: 'project',
+    content: `observation ${crypto.randomUUID()}`,
+    salience: 50,
+    ...fields,
+  });
+  if (res.status !== 200) throw new Error(`POST /observe failed: ${res.status} ${JSON.stringify(res.data)}`);
+  return res.data.id;
+}
@@ -0,0 +1,116 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createObservation, startWorker } from './helpers.mjs';
+
+const RECEIVER = 'https://receiver.test/hook';
+const RETRY_CRON = '*/5 * * * *';
+
+// Stand-in webhook receiver: every outbound fetch from the worker lands here
+const received = [];
+let reply = () => new Response('ok');
+
+let worker;
+let secret;
+
+before(async () => {
+  worker = await startWorker({
+    outboundService: async (request) => {
+      received.push({ url: request.url, headers: Object.fromEntries(request.headers), body: await request.text() });
+      return reply();
+    },
+  });
+  const subscription = await worker.request('POST', '/notifications/oliver/subscriptions', {
+    type: 'webhook',
+    url: RECEIVER,
+    events: ['correction_added'],
+  });
+  assert.equal(subscription.status, 201, JSON.stringify(subscription.data));
+  secret = subscription.data.secret;
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+beforeEach(async () => {
+  received.length = 0;
+  reply = () => new Response('ok');
+  await worker.db.prepare(`DELETE FROM notification_deliveries`).run();
+});
+
+async function runRetryCron() {
+  const scheduled = await worker.mf.getWorker();
+  await scheduled.scheduled({ cron: RETRY_CRON, scheduledTime: new Date() });
+}
+
+async function deliveries() {
+  const rows = await worker.db.prepare(`SELECT * FROM notification_deliveries ORDER BY created_at`).all();
+  return rows.results;
+}
+
+describe('notification delivery', () => {
+  test('a write queues the event without calling the receiver', async () => {
+    reply = () => new Promise(() => {}); // would hang the write if it were called inline
+    const id = await createObservation(worker.request, { kind: 'correction', content: 'The launch is Friday' });
+
+    assert.equal(received.length, 0);
+    const [delivery] = await deliveries();
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.attempts, 0);
+    assert.equal(JSON.parse(delivery.payload).id, id);
+  });
+
+  test('the retry cron delivers a signed webhook', async () => {
+    await createObservation(worker.request, { kind: 'correction', content: 'The launch is Thursday' });
+    await runRetryCron();
+
+    assert.equal(received.length, 1);
+    const [call] = received;
+    assert.equal(call.url, RECEIVER);
+    assert.equal(call.headers['x-tether-event'], 'correction_added');
+    const signature = createHmac('sha256', secret).update(`${call.headers['x-tether-timestamp']}.${call.body}`).digest('hex');
+    assert.equal(call.headers['x-tether-signature'], `sha256=${signature}`);
+    assert.equal(JSON.parse(call.body).data.content, 'The launch is Thursday');
+
+    const [delivery] = await deliveries();
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.attempts, 1);
+  });
+
+  test('a 5xx stays pending with backoff, a 4xx fails for good', async () => {
+    reply = () => new Response('down', { status: 503 });
+    await createObservation(worker.request, { kind: 'correction', content: 'Retry me' });
+    await runRetryCron();
+    let [delivery] = await deliveries();
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.response_status, 503);
+    assert.ok(delivery.next_attempt_at > new Date().toISOString());
+
+    await worker.db.prepare(`DELETE FROM notification_deliveries`).run();
+    reply = () => new Response('nope', { status: 400 });
+    await createObservation(worker.request, { kind: 'correction', content: 'Do not retry me' });
+    await runRetryCron();
+    [delivery] = await deliveries();
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.response_status, 400);
+  });
+
+  test('failing to queue the event does not fail the write', async () => {
+    await worker.db.prepare(`ALTER TABLE notification_deliveries RENAME TO notification_deliveries_moved`).run();
+    try {
+      const res = await worker.request('POST', '/observe', {
+        agent_id: 'oliver',
+        author: 'mara',
+        perspective: 'shared',
+        kind: 'correction',
+        content: 'Still saved',
+      });
+      assert.equal(res.status, 200, JSON.stringify(res.data));
+      const row = await worker.db.prepare(`SELECT content FROM observations WHERE id = ?`).bind(res.data.id).first();
+      assert.equal(row.content, 'Still saved');
+    } finally {
+      await worker.db.prepare(`ALTER TABLE notification_deliveries_moved RENAME TO notification_deliveries`).run();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+const item = (fields = {}) => ({
+  agent_id: 'oliver',
+  author: 'mara',
+  perspective: 'shared',
+  kind: 'project',
+  content: `batch item ${crypto.randomUUID()}`,
+  ...fields,
+});
+
+describe('observation batch', () => {
+  test('mistyped fields are reported per item and nothing is written', async () => {
+    const res = await worker.request('POST', '/observe/batch', [
+      item(),
+      item({ content: { text: 'not a string' } }),
+      item({ salience: 'high' }),
+      item({ emotion_joy: 250 }),
+    ]);
+    assert.equal(res.status, 400, JSON.stringify(res.data));
+    assert.equal(res.data.error, 'BATCH_VALIDATION_FAILED');
+
+    assert.deepEqual(
+      res.data.results.map((result) => result.errors ?? []),
+      [
+        [],
+        ['INVALID_FIELD: content must be a non-empty string'],
+        ['INVALID_FIELD: salience must be a number from 0 to 100'],
+        ['INVALID_FIELD: emotion_joy must be a number from 0 to 100'],
+      ]
+    );
+    const stored = await worker.db.prepare(`SELECT COUNT(*) AS n FROM observations`).first();
+    assert.equal(stored.n, 0);
+  });
+});
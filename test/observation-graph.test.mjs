@@ -0,0 +1,50 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+async function graph(id, depth = 1) {
+  const res = await worker.request('GET', `/observe/${id}/graph?depth=${depth}`);
+  assert.equal(res.status, 200, JSON.stringify(res.data));
+  return res.data;
+}
+
+describe('observation graph', () => {
+  test('a link made before a supersession is found from either side', async () => {
+    const a = await createObservation(worker.request, { content: 'Moved to Leeds' });
+    const b = await createObservation(worker.request, { content: 'Works at the bakery' });
+    const linked = await worker.request('POST', `/observe/${a}/edges`, { target_id: b, type: 'relates_to' });
+    assert.equal(linked.status, 201, JSON.stringify(linked.data));
+    const b2 = await createObservation(worker.request, { content: 'Works at the bakery, mornings only', supersedes: b });
+
+    for (const id of [a, b2, b]) {
+      const result = await graph(id);
+      assert.deepEqual(result.nodes.map((node) => node.id).sort(), [a, b2].sort(), `graph of ${id}`);
+      assert.equal(result.edge_count, 1, `graph of ${id}`);
+      assert.deepEqual(result.edges[0].superseded_endpoints, [b]);
+    }
+  });
+
+  test('predecessors are followed across several supersessions and hops', async () => {
+    const a = await createObservation(worker.request);
+    const b = await createObservation(worker.request);
+    const c = await createObservation(worker.request);
+    await worker.request('POST', `/observe/${a}/edges`, { target_id: b, type: 'caused_by' });
+    await worker.request('POST', `/observe/${b}/edges`, { target_id: c, type: 'elaborates' });
+    const b2 = await createObservation(worker.request, { supersedes: b });
+    const b3 = await createObservation(worker.request, { supersedes: b2 });
+
+    const result = await graph(a, 2);
+    assert.deepEqual(result.nodes.map((node) => node.id).sort(), [a, b3, c].sort());
+    assert.equal(result.edge_count, 2);
+  });
+});
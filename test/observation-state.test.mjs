@@ -0,0 +1,131 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+// Mirrors OBSERVATION_ACTIONS (and the table in the README)
+const ALLOWED_FROM = {
+  edit: ['active'],
+  pin: ['active'],
+  unpin: ['active', 'superseded', 'archived'],
+  link: ['active'],
+  supersede: ['active'],
+  unsupersede: ['superseded'],
+  archive: ['active'],
+  unarchive: ['archived'],
+  delete: ['active', 'superseded', 'archived'],
+};
+const STATES = ['active', 'superseded', 'archived', 'deleted'];
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+// An observation in `state`; a superseded one points at a live newer version
+async function observationIn(state) {
+  const id = await createObservation(worker.request);
+  const now = new Date().toISOString();
+  if (state === 'superseded') {
+    const newer = await createObservation(worker.request);
+    await worker.db
+      .prepare(`UPDATE observations SET status = 'superseded', superseded_by = ? WHERE id = ?`)
+      .bind(newer, id)
+      .run();
+  } else if (state === 'archived') {
+    await worker.db.prepare(`UPDATE observations SET status = 'archived' WHERE id = ?`).bind(id).run();
+  } else if (state === 'deleted') {
+    await worker.db.prepare(`UPDATE observations SET deleted_at = ? WHERE id = ?`).bind(now, id).run();
+  }
+  return id;
+}
+
+const perform = {
+  edit: (id) => worker.request('PATCH', `/observe/${id}`, { content: `edited ${crypto.randomUUID()}` }),
+  pin: (id) => worker.request('POST', `/observe/${id}/pin`),
+  unpin: (id) => worker.request('DELETE', `/observe/${id}/pin`),
+  link: async (id) =>
+    worker.request('POST', `/observe/${id}/edges`, { target_id: await createObservation(worker.request), type: 'relates_to' }),
+  supersede: async (id) =>
+    worker.request('POST', `/observe/${id}/supersede`, { superseded_by: await createObservation(worker.request) }),
+  unsupersede: (id) => worker.request('POST', `/observe/${id}/unsupersede`),
+  archive: (id) => worker.request('POST', `/observe/${id}/archive`),
+  unarchive: (id) => worker.request('DELETE', `/observe/${id}/archive`),
+  delete: (id) => worker.request('DELETE', `/observe/${id}`),
+};
+
+describe('observation state machine', () => {
+  for (const [action, allowed] of Object.entries(ALLOWED_FROM)) {
+    for (const state of STATES) {
+      const legal = allowed.includes(state);
+      test(`${action} from ${state} is ${legal ? 'allowed' : 'rejected'}`, async () => {
+        const id = await observationIn(state);
+        const res = await perform[action](id);
+
+        if (legal) {
+          assert.ok(res.status === 200 || res.status === 201, `${res.status} ${JSON.stringify(res.data)}`);
+          return;
+        }
+
+        assert.equal(res.status, 409, JSON.stringify(res.data));
+        const expected = { error: 'INVALID_TRANSITION', id, action, state, allowed_from: allowed };
+        if (state === 'superseded') {
+          const row = await worker.db.prepare(`SELECT superseded_by FROM observations WHERE id = ?`).bind(id).first();
+          expected.superseded_by = row.superseded_by;
+        }
+        assert.deepEqual(res.data, expected);
+      });
+    }
+  }
+
+  test('a rejected action leaves the observation unchanged', async () => {
+    const id = await observationIn('archived');
+    const before = await worker.db.prepare(`SELECT * FROM observations WHERE id = ?`).bind(id).first();
+    assert.equal((await perform.edit(id)).status, 409);
+    const afterRow = await worker.db.prepare(`SELECT * FROM observations WHERE id = ?`).bind(id).first();
+    assert.deepEqual(afterRow, before);
+  });
+});
+
+describe('archive import', () => {
+  test('overwrite only replaces observations the state machine lets it edit', async () => {
+    const ids = {};
+    for (const state of STATES) ids[state] = await createObservation(worker.request);
+
+    const exported = await worker.request('GET', '/export/oliver');
+    assert.equal(exported.status, 200);
+
+    // Move the stored copies on after the export
+    const newer = await createObservation(worker.request);
+    await worker.db
+      .prepare(`UPDATE observations SET status = 'superseded', superseded_by = ? WHERE id = ?`)
+      .bind(newer, ids.superseded)
+      .run();
+    await worker.db.prepare(`UPDATE observations SET status = 'archived' WHERE id = ?`).bind(ids.archived).run();
+    await worker.db
+      .prepare(`UPDATE observations SET deleted_at = ? WHERE id = ?`)
+      .bind(new Date().toISOString(), ids.deleted)
+      .run();
+
+    const res = await worker.request('POST', '/import/oliver?conflict=overwrite', exported.data);
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    for (const state of ['superseded', 'archived', 'deleted']) {
+      assert.ok(res.data.warnings.includes(`INVALID_TRANSITION:${ids[state]}:${state}`), state);
+    }
+
+    const rows = await worker.db
+      .prepare(`SELECT id, status, superseded_by, deleted_at FROM observations WHERE id IN (?, ?, ?, ?)`)
+      .bind(ids.active, ids.superseded, ids.archived, ids.deleted)
+      .all();
+    const byId = Object.fromEntries(rows.results.map((row) => [row.id, row]));
+    assert.equal(byId[ids.active].status, 'active');
+    assert.equal(byId[ids.superseded].status, 'superseded');
+    assert.equal(byId[ids.superseded].superseded_by, newer);
+    assert.equal(byId[ids.archived].status, 'archived');
+    assert.ok(byId[ids.deleted].deleted_at);
+  });
+});
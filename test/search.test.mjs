@@ -0,0 +1,53 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+let worker;
+let shed;
+
+before(async () => {
+  worker = await startWorker();
+  // Four strong BM25 matches with no salience, then one weaker match
+  // that salience should lift above them
+  for (let i = 0; i < 4; i++) {
+    await createObservation(worker.request, { content: `rain rain rain rain ${i}`, salience: 0 });
+  }
+  shed = await createObservation(worker.request, { content: 'rain on the shed roof', salience: 100 });
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+async function allPages(path, limit) {
+  const pages = [];
+  let cursor = null;
+  do {
+    const page = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+    const res = await worker.request('GET', `${path}&limit=${limit}${page}`);
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    pages.push(res.data);
+    cursor = res.data.next_cursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('observation search', () => {
+  test('the blended score ranks across pages, not just within one', async () => {
+    const pages = await allPages('/observe/search/oliver?q=rain', 2);
+    assert.equal(pages[0].observations[0].id, shed);
+
+    const rows = pages.flatMap((page) => page.observations);
+    assert.equal(rows.length, 5);
+    assert.equal(new Set(rows.map((row) => row.id)).size, 5);
+    const scores = rows.map((row) => row.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  test('limit must be an integer within range', async () => {
+    for (const limit of ['abc', '0', '101', '2.5']) {
+      const res = await worker.request('GET', `/observe/search/oliver?q=rain&limit=${limit}`);
+      assert.equal(res.status, 400, `limit=${limit}`);
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createObservation, startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  // Asks for a hosted provider without giving it a key
+  worker = await startWorker({ bindings: { EMBEDDING_PROVIDER: 'openai' } });
+  await createObservation(worker.request, { content: 'We argued about the deadline' });
+  await createObservation(worker.request, { content: 'Bought seed potatoes for the allotment' });
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+describe('similar observations', () => {
+  test('min_score=0 is honoured rather than replaced by the default', async () => {
+    const strict = await worker.request('GET', '/observe/similar/oliver?q=friction%20at%20work');
+    const open = await worker.request('GET', '/observe/similar/oliver?q=friction%20at%20work&min_score=0');
+    assert.equal(open.status, 200, JSON.stringify(open.data));
+    assert.ok(open.data.count > strict.data.count, `${open.data.count} vs ${strict.data.count}`);
+  });
+
+  test('a min_score outside -1..1 is refused', async () => {
+    for (const minScore of ['2', '-1.5', 'abc', '']) {
+      const res = await worker.request('GET', `/observe/similar/oliver?q=deadline&min_score=${minScore}`);
+      assert.equal(res.status, 400, `min_score=${minScore}`);
+    }
+  });
+
+  test('a configured provider that cannot be used is reported', async () => {
+    const res = await worker.request('GET', '/observe/similar/oliver?q=deadline');
+    assert.equal(res.status, 200, JSON.stringify(res.data));
+    assert.equal(res.data.provider, 'local-ngram-256');
+    assert.match(res.data.provider_fallback, /EMBEDDING_API_KEY/);
+  });
+});
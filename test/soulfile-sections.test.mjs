@@ -0,0 +1,30 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+  const kv = await worker.mf.getKVNamespace('SOULFILES');
+  await kv.put('oliver:active', '## Voice\nWarm and dry.\n');
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+describe('soulfile sections', () => {
+  test('a whitespace-only section name is refused', async () => {
+    const res = await worker.request('POST', '/soulfile/oliver/sections', { name: '   ', content: 'Orphaned body' });
+    assert.equal(res.status, 400);
+  });
+
+  test('a whitespace-only rename is refused', async () => {
+    const res = await worker.request('PUT', '/soulfile/oliver/sections/Voice', { content: 'Warm.', rename: ' ' });
+    assert.equal(res.status, 400);
+
+    const voice = await worker.request('GET', '/soulfile/oliver/sections/Voice');
+    assert.equal(voice.data.content, 'Warm and dry.');
+  });
+});
@@ -0,0 +1,45 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker } from './helpers.mjs';
+
+let worker;
+
+before(async () => {
+  worker = await startWorker();
+  // Two entries for one day, written before the one-per-day rule
+  const insert = worker.db.prepare(
+    `INSERT INTO tracker_entries (id, agent, date, timestamp, confidence_score, daily_notes) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  await worker.db.batch([
+    insert.bind('morning', 'oliver', '2026-03-02', '2026-03-02T08:00:00Z', 40, 'Slow start'),
+    insert.bind('evening', 'oliver', '2026-03-02', '2026-03-02T21:00:00Z', 70, 'Better by dinner'),
+    insert.bind('next-day', 'oliver', '2026-03-03', '2026-03-03T09:00:00Z', 60, ''),
+  ]);
+});
+
+after(async () => {
+  await worker.mf.dispose();
+});
+
+describe('one tracker entry per day', () => {
+  test('older same-day entries are moved aside, not deleted', async () => {
+    const displaced = await worker.request('GET', '/tracker/displaced/oliver');
+    assert.equal(displaced.status, 200, JSON.stringify(displaced.data));
+    assert.deepEqual(displaced.data.entries.map((entry) => entry.id), ['morning']);
+    assert.equal(displaced.data.entries[0].daily_notes, 'Slow start');
+    assert.equal(displaced.data.entries[0].confidence.score, 40);
+
+    const kept = await worker.db.prepare(`SELECT id FROM tracker_entries ORDER BY date`).all();
+    assert.deepEqual(kept.results.map((row) => row.id), ['evening', 'next-day']);
+  });
+
+  test('the unique index holds once the duplicates are gone', async () => {
+    await assert.rejects(
+      worker.db
+        .prepare(`INSERT INTO tracker_entries (id, agent, date, timestamp) VALUES (?, ?, ?, ?)`)
+        .bind('another', 'oliver', '2026-03-03', '2026-03-03T10:00:00Z')
+        .run(),
+      /UNIQUE/
+    );
+  });
+});